@@ -3,7 +3,50 @@ import SpellingGame from './components/SpellingGame.tsx'
 import WordList from './components/WordList.tsx'
 import Header from './components/Header.tsx'
 import AddWordSetDialog from './components/AddWordSetDialog.tsx'
+import ProfileDialog from './components/ProfileDialog.tsx'
+import ProgressDashboard from './components/ProgressDashboard.tsx'
+import ImportWordSetsDialog from './components/ImportWordSetsDialog.tsx'
+import ExportWordSetsDialog from './components/ExportWordSetsDialog.tsx'
+import WordSetEditorDialog from './components/WordSetEditorDialog.tsx'
+import SessionOptionsDialog from './components/SessionOptionsDialog.tsx'
+import LookCoverWriteCheck from './components/LookCoverWriteCheck.tsx'
 import { v4 as uuidv4 } from 'uuid'
+import { SessionResult, saveSession, splitSessionByWordSet } from './utils/progressStore'
+import { setPreferredVoice, setSpeechLocale } from './utils/elevenLabsService'
+import {
+  LearnerProfile,
+  SpellingLocale,
+  DEFAULT_PROFILE_ID,
+  CURRENT_PROFILE_KEY,
+  loadProfiles,
+  saveProfiles,
+  profileStorageKey
+} from './utils/profiles'
+import {
+  REVIEW_STORAGE_KEY,
+  ReviewRecords,
+  loadReviewRecords,
+  saveReviewRecords,
+  recordAttempt,
+  countDueWords
+} from './utils/reviewScheduler'
+import {
+  SESSION_OPTIONS_STORAGE_KEY,
+  SessionOptions,
+  loadSessionOptions,
+  saveSessionOptions,
+  buildSessionWords
+} from './utils/sessionOptions'
+import {
+  PERSONAL_BESTS_STORAGE_KEY,
+  ChallengeRun,
+  PersonalBests,
+  loadPersonalBests,
+  savePersonalBests,
+  recordChallengeRun
+} from './utils/challenge'
+import { Lesson } from './utils/lesson'
+import { COVER_DELAY_STORAGE_KEY, loadCoverDelay, saveCoverDelay } from './utils/lookCover'
 
 // Type for a word set
 type WordSet = {
@@ -16,7 +59,12 @@ type WordSet = {
     rule: string
     difficulty: number
     phonetic?: string  // Adding phonetic breakdown field
+    variants?: string[]  // Other accepted spellings, e.g. "color" for "colour"
+    pattern?: string  // Letters that carry the word's rule, e.g. "tion$"; suggested from the rule when missing
+    sentence?: string  // A sentence using the word, read aloud in sentence practice
   }>
+  spellingLocale?: SpellingLocale  // Overrides the learner's spelling locale for this set
+  lesson?: Lesson  // Lesson page, generated once and kept for offline reading
 }
 
 // Default word set with words containing the /I/ sound spelled with 'y'
@@ -95,49 +143,115 @@ const DEFAULT_WORD_SET: WordSet = {
 const STORAGE_KEY = 'learn2spell_word_sets';
 const CURRENT_SET_KEY = 'learn2spell_current_set';
 
+type PracticeWord = WordSet['words'][number] & { wordSetId: string }
+
+type View = 'learn' | 'practice' | 'test' | 'challenge' | 'cloze' | 'look-cover' | 'progress'
+
+// Load a profile's word sets from localStorage, always including the default set
+const loadWordSets = (storageKey: string): Record<string, WordSet> => {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    let parsedSets = saved ? JSON.parse(saved) : {};
+    
+    // Always ensure the default set is included
+    if (!parsedSets[DEFAULT_WORD_SET.id]) {
+      parsedSets = {
+        ...parsedSets,
+        [DEFAULT_WORD_SET.id]: DEFAULT_WORD_SET
+      };
+    }
+    
+    return parsedSets;
+  } catch (error) {
+    console.error('Error loading word sets from local storage:', error);
+    // On error, return the default set
+    return { [DEFAULT_WORD_SET.id]: DEFAULT_WORD_SET };
+  }
+};
+
+// Load a profile's selected word set id, falling back to the default set
+const loadCurrentWordSetId = (storageKey: string, wordSets: Record<string, WordSet>): string => {
+  try {
+    const savedId = localStorage.getItem(storageKey);
+    // If no saved ID or it doesn't exist in our sets, use the default set
+    if (!savedId || !wordSets[savedId]) {
+      return DEFAULT_WORD_SET.id;
+    }
+    return savedId;
+  } catch {
+    return DEFAULT_WORD_SET.id;
+  }
+};
+
+// Load the id of the learner profile that was last active
+const loadActiveProfileId = (profiles: Record<string, LearnerProfile>): string => {
+  const savedId = localStorage.getItem(CURRENT_PROFILE_KEY);
+  return savedId && profiles[savedId] ? savedId : DEFAULT_PROFILE_ID;
+};
+
 function App() {
-  // State for current view (learn or practice)
-  const [currentView, setCurrentView] = useState<'learn' | 'practice'>('learn');
+  // State for current view (learn, practice, test, challenge or progress)
+  const [currentView, setCurrentView] = useState<View>('learn');
+  // Goes up each time a session starts, so the game remounts with fresh state
+  // even when a new session starts in the view that is already open
+  const [sessionId, setSessionId] = useState(0);
+  
+  // State for learner profiles - word sets and progress are stored per profile
+  const [profiles, setProfiles] = useState<Record<string, LearnerProfile>>(() => loadProfiles());
+  const [activeProfileId, setActiveProfileId] = useState<string>(() => loadActiveProfileId(profiles));
+  const activeProfile = profiles[activeProfileId] || profiles[DEFAULT_PROFILE_ID];
   
   // State for word sets - loads from localStorage if available
-  const [wordSets, setWordSets] = useState<Record<string, WordSet>>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      let parsedSets = saved ? JSON.parse(saved) : {};
-      
-      // Always ensure the default set is included
-      if (!parsedSets[DEFAULT_WORD_SET.id]) {
-        parsedSets = {
-          ...parsedSets,
-          [DEFAULT_WORD_SET.id]: DEFAULT_WORD_SET
-        };
-      }
-      
-      return parsedSets;
-    } catch (error) {
-      console.error('Error loading word sets from local storage:', error);
-      // On error, return the default set
-      return { [DEFAULT_WORD_SET.id]: DEFAULT_WORD_SET };
-    }
-  });
+  const [wordSets, setWordSets] = useState<Record<string, WordSet>>(() =>
+    loadWordSets(profileStorageKey(STORAGE_KEY, activeProfileId))
+  );
   
   // State for the current word set - also load from localStorage
-  const [currentWordSetId, setCurrentWordSetId] = useState<string>(() => {
-    try {
-      const savedId = localStorage.getItem(CURRENT_SET_KEY);
-      // If no saved ID or it doesn't exist in our sets, use the default set
-      if (!savedId || !wordSets[savedId]) {
-        return DEFAULT_WORD_SET.id;
-      }
-      return savedId;
-    } catch (error) {
-      return DEFAULT_WORD_SET.id;
-    }
-  });
+  const [currentWordSetId, setCurrentWordSetId] = useState<string>(() =>
+    loadCurrentWordSetId(profileStorageKey(CURRENT_SET_KEY, activeProfileId), wordSets)
+  );
+  
+  // State for per-word review records used by the spaced-repetition scheduler
+  const [reviewRecords, setReviewRecords] = useState<ReviewRecords>(() =>
+    loadReviewRecords(profileStorageKey(REVIEW_STORAGE_KEY, activeProfileId))
+  );
+  
+  // Words queued for the current practice session or test, fixed when it starts
+  const [practiceWords, setPracticeWords] = useState<PracticeWord[]>([]);
+  
+  // State for the options chosen before practice - remembered per profile
+  const [sessionOptions, setSessionOptions] = useState<SessionOptions>(() =>
+    loadSessionOptions(profileStorageKey(SESSION_OPTIONS_STORAGE_KEY, activeProfileId))
+  );
+  const [isSessionOptionsOpen, setIsSessionOptionsOpen] = useState(false);
+  
+  // State for each word set's best "beat the clock" runs
+  const [personalBests, setPersonalBests] = useState<PersonalBests>(() =>
+    loadPersonalBests(profileStorageKey(PERSONAL_BESTS_STORAGE_KEY, activeProfileId))
+  );
+  
+  // State for how long Look, Say, Cover, Write, Check shows each word
+  const [coverDelaySeconds, setCoverDelaySeconds] = useState(() =>
+    loadCoverDelay(profileStorageKey(COVER_DELAY_STORAGE_KEY, activeProfileId))
+  );
+  
+  // Bumped after each saved session so the Progress view reloads its history
+  const [progressRefreshKey, setProgressRefreshKey] = useState(0);
   
   // State for dialog visibility - only show automatically if no custom word sets
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   
+  // State for the word set editor - the id of the set being edited, 'new' when
+  // creating a set by hand, or null when closed
+  const [editingWordSetId, setEditingWordSetId] = useState<string | null>(null);
+  
+  // State for the word set import/export dialogs
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
+  
+  // State for the profile dialog - 'add', 'edit' or closed
+  const [profileDialogMode, setProfileDialogMode] = useState<'add' | 'edit' | null>(null);
+  
   // Check if we have any word sets
   const hasWordSets = Object.keys(wordSets).length > 0;
   
@@ -149,32 +263,67 @@ function App() {
       setCurrentWordSetId(newCurrentId);
       
       // Save to localStorage
-      localStorage.setItem(CURRENT_SET_KEY, newCurrentId);
+      localStorage.setItem(profileStorageKey(CURRENT_SET_KEY, activeProfileId), newCurrentId);
     }
-  }, [wordSets, currentWordSetId]);
+  }, [wordSets, currentWordSetId, activeProfileId]);
   
   // Effect to save word sets to localStorage whenever they change
   useEffect(() => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(wordSets));
+      localStorage.setItem(profileStorageKey(STORAGE_KEY, activeProfileId), JSON.stringify(wordSets));
     } catch (error) {
       console.error('Error saving word sets to local storage:', error);
     }
-  }, [wordSets]);
+  }, [wordSets, activeProfileId]);
   
   // Effect to save current word set ID to localStorage whenever it changes
   useEffect(() => {
     if (currentWordSetId) {
       try {
-        localStorage.setItem(CURRENT_SET_KEY, currentWordSetId);
+        localStorage.setItem(profileStorageKey(CURRENT_SET_KEY, activeProfileId), currentWordSetId);
       } catch (error) {
         console.error('Error saving current word set ID to local storage:', error);
       }
     }
-  }, [currentWordSetId]);
+  }, [currentWordSetId, activeProfileId]);
+  
+  // Effect to save review records to localStorage whenever they change
+  useEffect(() => {
+    saveReviewRecords(reviewRecords, profileStorageKey(REVIEW_STORAGE_KEY, activeProfileId));
+  }, [reviewRecords, activeProfileId]);
+  
+  // Effect to save personal bests to localStorage whenever they change
+  useEffect(() => {
+    savePersonalBests(personalBests, profileStorageKey(PERSONAL_BESTS_STORAGE_KEY, activeProfileId));
+  }, [personalBests, activeProfileId]);
+  
+  // Effect to save profiles and the active profile whenever they change
+  useEffect(() => {
+    saveProfiles(profiles);
+  }, [profiles]);
+  
+  useEffect(() => {
+    localStorage.setItem(CURRENT_PROFILE_KEY, activeProfileId);
+  }, [activeProfileId]);
+  
+  // Effect to speak with the active learner's preferred voice
+  useEffect(() => {
+    setPreferredVoice(activeProfile.voiceId);
+  }, [activeProfile.voiceId]);
   
   // Get the current word set (may be undefined)
   const currentWordSet = currentWordSetId ? wordSets[currentWordSetId] : undefined;
+  
+  // A set's own spelling locale wins over the learner's
+  const spellingLocale = currentWordSet?.spellingLocale || activeProfile.spellingLocale;
+  
+  // Effect to speak in the accent that matches the spelling being practised
+  useEffect(() => {
+    setSpeechLocale(spellingLocale);
+  }, [spellingLocale]);
+  
+  // Number of words due for review today across every word set
+  const dueTodayCount = countDueWords(Object.values(wordSets), reviewRecords);
 
   // Handler for adding a new word set
   const handleAddWordSet = (newWordSet: WordSet) => {
@@ -217,32 +366,202 @@ function App() {
     }
   };
 
+  // Handler for saving a set from the editor - replaces the set in place when editing
+  const handleSaveEditedWordSet = (editedWordSet: WordSet) => {
+    setWordSets(prev => ({
+      ...prev,
+      [editedWordSet.id]: editedWordSet
+    }));
+    setCurrentWordSetId(editedWordSet.id);
+    setEditingWordSetId(null);
+  };
+
+  // Handler for merging imported word sets - ids have already been made unique
+  // unless the learner chose to replace their own copies
+  const handleImportWordSets = (importedSets: WordSet[]) => {
+    setWordSets(prev => {
+      const merged = { ...prev };
+      importedSets.forEach(set => {
+        merged[set.id] = set;
+      });
+      return merged;
+    });
+    
+    // Switch to the first imported set so the learner can see what arrived
+    if (importedSets.length > 0) {
+      setCurrentWordSetId(importedSets[0].id);
+      setCurrentView('learn');
+    }
+    
+    setIsImportDialogOpen(false);
+  };
+
+  // Handler for saving a newly generated lesson with its word set
+  const handleLessonChange = (wordSetId: string, lesson: Lesson) => {
+    setWordSets(prev => prev[wordSetId]
+      ? { ...prev, [wordSetId]: { ...prev[wordSetId], lesson } }
+      : prev);
+  };
+
   const handleWordSetChange = (id: string) => {
     setCurrentWordSetId(id);
   };
 
+  // Handler for saving a finished practice session to the learner's history
+  const handleSessionComplete = (session: SessionResult) => {
+    // Mixed-set practice is filed under each set its words came from
+    Promise.all(splitSessionByWordSet(session, currentWordSetId).map(part => saveSession({
+      ...part,
+      id: uuidv4(),
+      profileId: activeProfileId
+    })))
+      .catch(error => console.error('Error saving session:', error))
+      .finally(() => setProgressRefreshKey(prev => prev + 1));
+  };
+
+  // Handler for switching learner - loads that learner's own word sets and history
+  const handleProfileChange = (id: string) => {
+    if (id === activeProfileId) return;
+    
+    const profileWordSets = loadWordSets(profileStorageKey(STORAGE_KEY, id));
+    setActiveProfileId(id);
+    setWordSets(profileWordSets);
+    setCurrentWordSetId(loadCurrentWordSetId(profileStorageKey(CURRENT_SET_KEY, id), profileWordSets));
+    setReviewRecords(loadReviewRecords(profileStorageKey(REVIEW_STORAGE_KEY, id)));
+    setSessionOptions(loadSessionOptions(profileStorageKey(SESSION_OPTIONS_STORAGE_KEY, id)));
+    setPersonalBests(loadPersonalBests(profileStorageKey(PERSONAL_BESTS_STORAGE_KEY, id)));
+    setCoverDelaySeconds(loadCoverDelay(profileStorageKey(COVER_DELAY_STORAGE_KEY, id)));
+    setCurrentView('learn');
+  };
+
+  // Handler for saving a new or edited profile
+  const handleSaveProfile = (profile: LearnerProfile) => {
+    setProfiles(prev => ({
+      ...prev,
+      [profile.id]: profile
+    }));
+    setProfileDialogMode(null);
+    
+    // Switch to a newly added learner straight away
+    if (!profiles[profile.id]) {
+      handleProfileChange(profile.id);
+    }
+  };
+
+  // Handler for switching views - practice asks for the session options first,
+  // while the other modes cover the whole set
+  const handleViewChange = (view: View) => {
+    if (view === 'practice' && currentWordSet) {
+      setIsSessionOptionsOpen(true);
+      return;
+    }
+    if ((view === 'test' || view === 'challenge' || view === 'cloze' || view === 'look-cover') && currentWordSet) {
+      setPracticeWords(currentWordSet.words.map(word => ({ ...word, wordSetId: currentWordSet.id })));
+    }
+    setSessionId(prev => prev + 1);
+    setCurrentView(view);
+  };
+
+  // Handler for starting practice - builds the due-queue from the chosen sets
+  const handleStartPractice = (options: SessionOptions) => {
+    setSessionOptions(options);
+    saveSessionOptions(options, profileStorageKey(SESSION_OPTIONS_STORAGE_KEY, activeProfileId));
+    setPracticeWords(buildSessionWords(
+      Object.values(wordSets).filter(set => options.wordSetIds.includes(set.id)),
+      options,
+      reviewRecords
+    ));
+    setIsSessionOptionsOpen(false);
+    setSessionId(prev => prev + 1);
+    setCurrentView('practice');
+  };
+
+  // Handler for adding a finished challenge to the set's personal bests
+  const handleChallengeComplete = (run: ChallengeRun) => {
+    setPersonalBests(prev => recordChallengeRun(prev, currentWordSetId, run));
+  };
+
+  // Handler for changing the cover delay, remembered for the learner
+  const handleCoverDelayChange = (seconds: number) => {
+    setCoverDelaySeconds(seconds);
+    saveCoverDelay(seconds, profileStorageKey(COVER_DELAY_STORAGE_KEY, activeProfileId));
+  };
+
+  // Handler for recording each answered word with the scheduler
+  const handleAttempt = (word: { word: string; wordSetId?: string }, correct: boolean, timeTakenMs: number) => {
+    const wordSetId = word.wordSetId || currentWordSetId;
+    setReviewRecords(prev => recordAttempt(prev, wordSetId, word.word, correct, timeTakenMs));
+  };
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header 
         currentView={currentView}
-        onViewChange={setCurrentView}
+        onViewChange={handleViewChange}
         wordSets={Object.values(wordSets)}
         currentWordSetId={currentWordSetId}
         onWordSetChange={handleWordSetChange}
         onAddNewClick={() => setIsAddDialogOpen(true)}
         onDeleteWordSet={handleDeleteWordSet}
+        onEditWordSet={(id) => setEditingWordSetId(id)}
+        onCreateByHandClick={() => setEditingWordSetId('new')}
+        onImportClick={() => setIsImportDialogOpen(true)}
+        onExportClick={() => setIsExportDialogOpen(true)}
+        dueTodayCount={dueTodayCount}
+        profiles={Object.values(profiles)}
+        activeProfileId={activeProfileId}
+        onProfileChange={handleProfileChange}
+        onAddProfileClick={() => setProfileDialogMode('add')}
+        onEditProfileClick={() => setProfileDialogMode('edit')}
       />
       
       {/* Conditionally render main container based on view */}
-      {currentView === 'practice' && hasWordSets && currentWordSet ? (
+      {(currentView === 'practice' || currentView === 'test' || currentView === 'challenge' || currentView === 'cloze') && hasWordSets && currentWordSet ? (
         <SpellingGame 
-          words={currentWordSet.words} 
+          key={`${currentView}-${sessionId}`}
+          words={practiceWords} 
+          mode={currentView}
+          title={currentWordSet.title}
+          maxRetryRounds={sessionOptions.maxRetryRounds}
+          personalBests={personalBests[currentWordSet.id]}
+          onChallengeComplete={handleChallengeComplete}
+          lesson={currentWordSet.lesson}
+          onGameComplete={() => setCurrentView('learn')}
+          onAttempt={handleAttempt}
+          learnerName={activeProfile.name}
+          onSessionComplete={handleSessionComplete}
+          spellingLocale={spellingLocale}
+        />
+      ) : currentView === 'look-cover' && hasWordSets && currentWordSet ? (
+        <LookCoverWriteCheck
+          key={`${currentView}-${sessionId}`}
+          words={practiceWords}
+          learnerName={activeProfile.name}
+          spellingLocale={spellingLocale}
+          coverDelaySeconds={coverDelaySeconds}
+          onCoverDelayChange={handleCoverDelayChange}
+          onSessionComplete={handleSessionComplete}
           onGameComplete={() => setCurrentView('learn')}
         />
       ) : (
         <main className="container mx-auto px-4 py-8">
-          {hasWordSets && currentWordSet ? (
-            <WordList words={currentWordSet.words} />
+          {currentView === 'progress' ? (
+            <ProgressDashboard
+              profileId={activeProfileId}
+              wordSets={Object.values(wordSets)}
+              currentWordSetId={currentWordSetId}
+              refreshKey={progressRefreshKey}
+            />
+          ) : hasWordSets && currentWordSet ? (
+            <WordList
+              key={currentWordSet.id}
+              words={currentWordSet.words}
+              learnerName={activeProfile.name}
+              description={currentWordSet.description}
+              lesson={currentWordSet.lesson}
+              spellingLocale={spellingLocale}
+              onLessonChange={(lesson) => handleLessonChange(currentWordSet.id, lesson)}
+            />
           ) : (
             // Empty state
             <div className="flex flex-col items-center justify-center h-64 mt-8">
@@ -271,6 +590,53 @@ function App() {
         isOpen={isAddDialogOpen}
         onClose={() => setIsAddDialogOpen(false)}
         onSave={handleAddWordSet}
+        defaultAgeBand={activeProfile.ageBand}
+        spellingLocale={activeProfile.spellingLocale}
+      />
+      
+      {/* Word Set Editor Dialog */}
+      <WordSetEditorDialog
+        isOpen={editingWordSetId !== null}
+        wordSet={editingWordSetId && editingWordSetId !== 'new' ? wordSets[editingWordSetId] : undefined}
+        onClose={() => setEditingWordSetId(null)}
+        onSave={handleSaveEditedWordSet}
+        defaultSpellingLocale={activeProfile.spellingLocale}
+      />
+      
+      {/* Practice Options Dialog */}
+      <SessionOptionsDialog
+        key={`${activeProfileId}:${currentWordSetId}`}
+        isOpen={isSessionOptionsOpen}
+        wordSets={Object.values(wordSets)}
+        currentWordSetId={currentWordSetId}
+        options={sessionOptions}
+        reviewRecords={reviewRecords}
+        onClose={() => setIsSessionOptionsOpen(false)}
+        onStart={handleStartPractice}
+      />
+      
+      {/* Word Set Import/Export Dialogs */}
+      <ImportWordSetsDialog
+        isOpen={isImportDialogOpen}
+        existingWordSetIds={Object.keys(wordSets)}
+        onClose={() => setIsImportDialogOpen(false)}
+        onImport={handleImportWordSets}
+      />
+      
+      <ExportWordSetsDialog
+        key={currentWordSetId}
+        isOpen={isExportDialogOpen}
+        wordSets={Object.values(wordSets)}
+        currentWordSetId={currentWordSetId}
+        onClose={() => setIsExportDialogOpen(false)}
+      />
+      
+      {/* Add/Edit Learner Dialog */}
+      <ProfileDialog
+        isOpen={profileDialogMode !== null}
+        profile={profileDialogMode === 'edit' ? activeProfile : undefined}
+        onClose={() => setProfileDialogMode(null)}
+        onSave={handleSaveProfile}
       />
       
       <footer className="bg-white py-4 text-center text-sm text-gray-500">
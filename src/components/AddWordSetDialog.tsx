@@ -1,6 +1,23 @@
 import React, { useState } from 'react'
-import { generateDefinitionsForWords, WordDefinition } from '../utils/geminiService'
+import {
+  generateDefinitionsForWords,
+  generateWordsForRule,
+  isGeminiAvailable,
+  WordDefinition
+} from '../utils/geminiService'
 import { v4 as uuidv4 } from 'uuid'
+import {
+  DraftWord,
+  createDraftWord,
+  draftToWords,
+  validateDraftWordSet,
+  regenerateDraftWord
+} from '../utils/wordSetDraft'
+import WordRowEditor from './WordRowEditor'
+import { CURRICULUM_RULES } from '../utils/spellingRules'
+import { suggestPattern } from '../utils/graphemePatterns'
+import { AgeBand, AGE_BANDS, SpellingLocale } from '../utils/profiles'
+import { isRecognisedWord, lookupDefinitions, suggestCorrections } from '../utils/offlineDictionary'
 
 // Word type matches our existing Word interface
 type Word = {
@@ -9,6 +26,9 @@ type Word = {
   rule: string
   difficulty: number
   phonetic?: string  // Adding phonetic breakdown field
+  variants?: string[]
+  pattern?: string
+  sentence?: string
 }
 
 // WordSet type matches our existing WordSet interface
@@ -23,62 +43,147 @@ type AddWordSetDialogProps = {
   isOpen: boolean
   onClose: () => void
   onSave: (wordSet: WordSet) => void
+  defaultAgeBand: AgeBand  // The active profile's age band, used when generating from a rule
+  spellingLocale: SpellingLocale  // The active profile's spelling, used for generated words and definitions
 }
 
-const AddWordSetDialog: React.FC<AddWordSetDialogProps> = ({ isOpen, onClose, onSave }) => {
+// Fallback rule for generated words that don't come back with one
+const DEFAULT_RULE = "Words with the /I/ Sound Spelled with 'y'"
+
+// Value of the rule select's option for typing a rule in
+const CUSTOM_RULE_ID = 'custom'
+
+const DEFAULT_RULE_WORD_COUNT = 10
+const MAX_RULE_WORD_COUNT = 30
+
+const AddWordSetDialog: React.FC<AddWordSetDialogProps> = ({
+  isOpen,
+  onClose,
+  onSave,
+  defaultAgeBand,
+  spellingLocale
+}) => {
+  // Words are either typed in, or proposed by Gemini from a spelling rule
+  const [mode, setMode] = useState<'words' | 'rule'>('words')
   const [wordInput, setWordInput] = useState('')
+  const [ruleId, setRuleId] = useState(CURRICULUM_RULES[0].id)
+  const [customRule, setCustomRule] = useState('')
+  const [ageBand, setAgeBand] = useState<AgeBand | null>(null)  // null follows the profile
+  const [wordCount, setWordCount] = useState(DEFAULT_RULE_WORD_COUNT)
   const [isGenerating, setIsGenerating] = useState(false)
   const [errorMessage, setErrorMessage] = useState('')
   
+  // Review stage - generated words are checked and edited here before saving
+  const [stage, setStage] = useState<'input' | 'review'>('input')
+  const [rows, setRows] = useState<DraftWord[]>([])
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null)
+  const [undefinedWords, setUndefinedWords] = useState<string[]>([])
+  const [rejectedWords, setRejectedWords] = useState<string[]>([])
+  
+  // Without an API key, definitions come from the bundled dictionary and rules can't be used
+  const geminiAvailable = isGeminiAvailable()
+  
+  // Parse the comma-separated word list
+  const typedWords = wordInput.split(',')
+    .map(word => word.trim())
+    .filter(word => word.length > 0)
+  const unrecognisedWords = mode === 'words' ? typedWords.filter(word => !isRecognisedWord(word)) : []
+  
+  const selectedRule = CURRICULUM_RULES.find(rule => rule.id === ruleId)
+  const ruleText = selectedRule ? selectedRule.description : customRule.trim()
+  const canGenerate = mode === 'words' ? wordInput.trim().length > 0 : ruleText.length > 0
+  
+  const resetForm = () => {
+    setMode('words')
+    setWordInput('')
+    setRuleId(CURRICULUM_RULES[0].id)
+    setCustomRule('')
+    setAgeBand(null)
+    setWordCount(DEFAULT_RULE_WORD_COUNT)
+    setErrorMessage('')
+    setStage('input')
+    setRows([])
+    setTitle('')
+    setDescription('')
+    setUndefinedWords([])
+    setRejectedWords([])
+  }
+  
+  const handleClose = () => {
+    resetForm()
+    onClose()
+  }
+  
+  // Swap a misspelt word in the list for a suggested correction
+  const replaceTypedWord = (from: string, to: string) => {
+    setWordInput(typedWords.map(word => word === from ? to : word).join(', '))
+  }
+  
+  // Define the words and move on to the review stage
+  // When a rule is given it is used for every word, otherwise each word keeps the rule Gemini gave it
+  const reviewWords = async (words: string[], rule?: string) => {
+    const generatedData = geminiAvailable ? await generateDefinitionsForWords(words, spellingLocale) : []
+    
+    // Definitions come back matched to their words; the dictionary fills in any
+    // it can, and words without one are kept as blank rows to fill in by hand
+    const definitions = new Map(generatedData.map((item: WordDefinition) => [item.word.toLowerCase(), item]))
+    lookupDefinitions(words.filter(word => !definitions.has(word.toLowerCase())))
+      .forEach(item => definitions.set(item.word.toLowerCase(), item))
+    // Gemini's pattern belongs to the rule it gave, so it is only used when that rule is kept
+    setRows(words.map(word => {
+      const item = definitions.get(word.toLowerCase())
+      const wordRule = rule || item?.rule || DEFAULT_RULE
+      const pattern = (rule ? undefined : item?.pattern) || suggestPattern(word, wordRule) || ''
+      return createDraftWord(item ? {
+        word,
+        definition: item.definition,
+        rule: wordRule,
+        difficulty: item.difficulty || 1,
+        phonetic: item.phonetic || '', // Including the phonetic breakdown
+        variants: item.variants || [],
+        pattern
+      } : { word, rule: wordRule, pattern })
+    }))
+    setUndefinedWords(words.filter(word => !definitions.has(word.toLowerCase())))
+    setStage('review')
+  }
+  
   // Function to handle word list generation
   const handleGenerate = async () => {
     try {
       setIsGenerating(true)
       setErrorMessage('')
       
-      // Parse the comma-separated word list
-      const words = wordInput.split(',')
-        .map(word => word.trim())
-        .filter(word => word.length > 0)
-      
-      if (words.length === 0) {
-        setErrorMessage('Please enter at least one word (comma-separated)')
-        setIsGenerating(false)
+      if (mode === 'rule') {
+        const proposal = await generateWordsForRule(
+          selectedRule || ruleText,
+          ageBand || defaultAgeBand,
+          wordCount,
+          spellingLocale
+        )
+        if (proposal.words.length === 0) {
+          setErrorMessage("Gemini didn't suggest any real words that follow this rule. Try again, or describe the rule differently.")
+          return
+        }
+        
+        await reviewWords(proposal.words, ruleText)
+        setRejectedWords(proposal.rejected)
+        setDescription(`A collection of ${proposal.words.length} words following the rule: ${selectedRule ? selectedRule.name : ruleText}`)
         return
       }
       
-      // Generate definitions for all words
-      const generatedData = await generateDefinitionsForWords(words)
-      
-      // Create word objects with definitions and metadata
-      const newWords = generatedData.map((item: WordDefinition, index: number) => ({
-        word: words[index],
-        definition: item.definition,
-        rule: item.rule || "Words with the /I/ Sound Spelled with 'y'",
-        difficulty: item.difficulty || 1,
-        phonetic: item.phonetic || '' // Including the phonetic breakdown
-      }))
-      
-      // Create title from the first 20 characters of the word list
-      const titleWords = words.join(', ')
-      const titlePrefix = titleWords.length > 20 
-        ? titleWords.substring(0, 20) + '...' 
-        : titleWords
-      
-      // Create a new word set with title from words
-      const newWordSet: WordSet = {
-        id: uuidv4(),
-        title: titlePrefix,
-        description: `A collection of ${words.length} words auto-generated with AI.`,
-        words: newWords
+      if (typedWords.length === 0) {
+        setErrorMessage('Please enter at least one word (comma-separated)')
+        return
       }
       
-      // Save the word set
-      onSave(newWordSet)
-      
-      // Reset form
-      setWordInput('')
-      setErrorMessage('')
+      await reviewWords(typedWords)
+      setRejectedWords([])
+      setDescription(geminiAvailable
+        ? `A collection of ${typedWords.length} words auto-generated with AI.`
+        : `A collection of ${typedWords.length} words.`)
       
     } catch (error) {
       console.error('Error generating word set:', error)
@@ -93,18 +198,58 @@ const AddWordSetDialog: React.FC<AddWordSetDialogProps> = ({ isOpen, onClose, on
     }
   }
   
+  const updateRow = (key: string, changes: Partial<DraftWord>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row))
+  }
+  
+  // Ask Gemini again for one row, keeping the word itself
+  const handleRegenerate = async (row: DraftWord) => {
+    try {
+      setRegeneratingKey(row.key)
+      setErrorMessage('')
+      updateRow(row.key, await regenerateDraftWord(row, spellingLocale))
+      setUndefinedWords(prev => prev.filter(word => word.toLowerCase() !== row.word.trim().toLowerCase()))
+    } catch (error) {
+      if (error instanceof Error) {
+        setErrorMessage(`Regeneration failed: ${error.message}`)
+      } else {
+        setErrorMessage('An unexpected error occurred during regeneration.')
+      }
+    } finally {
+      setRegeneratingKey(null)
+    }
+  }
+  
+  // Save the reviewed set
+  const handleSave = () => {
+    const words = draftToWords(rows)
+    const problem = validateDraftWordSet(title, words)
+    if (problem) {
+      setErrorMessage(problem)
+      return
+    }
+    
+    onSave({
+      id: uuidv4(),
+      title: title.trim(),
+      description: description.trim(),
+      words
+    })
+    resetForm()
+  }
+  
   if (!isOpen) return null
   
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+      <div className={`bg-white rounded-lg shadow-xl w-full max-h-full flex flex-col ${stage === 'review' ? 'max-w-3xl' : 'max-w-lg'}`}>
         <div className="p-6 border-b border-gray-200">
           <div className="flex justify-between items-center">
             <h2 className="text-2xl font-bold text-purple-800">
-              Add Words
+              {stage === 'review' ? 'Review Words' : 'Add Words'}
             </h2>
             <button 
-              onClick={onClose}
+              onClick={handleClose}
               className="text-gray-500 hover:text-gray-700"
             >
               <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -114,58 +259,254 @@ const AddWordSetDialog: React.FC<AddWordSetDialogProps> = ({ isOpen, onClose, on
           </div>
         </div>
         
-        <div className="p-6">
-          <p className="text-gray-600 mb-4">
-            Enter a list of words separated by commas. Our AI will automatically generate British English definitions (without using the word itself), and create a word set with the title derived from your word list.
-          </p>
-          
-          <div className="mb-6">
-            <textarea
-              className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              placeholder="Enter words separated by commas, e.g.: system, crystal, myth, symbol, oxygen"
-              value={wordInput}
-              onChange={(e) => setWordInput(e.target.value)}
-            />
-          </div>
-          
-          {errorMessage && (
-            <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-lg">
-              {errorMessage}
+        {stage === 'input' ? (
+          <div className="p-6">
+            <div className="flex mb-4 rounded-lg border border-gray-300 overflow-hidden">
+              {([['words', 'Type words'], ['rule', 'From a rule']] as const).map(([value, label]) => (
+                <button
+                  key={value}
+                  onClick={() => setMode(value)}
+                  disabled={value === 'rule' && !geminiAvailable}
+                  title={value === 'rule' && !geminiAvailable ? 'Needs a Gemini API key' : undefined}
+                  className={`flex-1 px-4 py-2 text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed ${
+                    mode === value ? 'bg-purple-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
-          )}
-          
-          <div className="flex justify-end space-x-3">
-            <button
-              onClick={onClose}
-              className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
-            >
-              Cancel
-            </button>
             
-            <button
-              onClick={handleGenerate}
-              disabled={isGenerating || !wordInput.trim()}
-              className={`px-6 py-2 rounded-md text-white font-medium ${
-                isGenerating || !wordInput.trim()
-                  ? 'bg-purple-400 cursor-not-allowed'
-                  : 'bg-purple-600 hover:bg-purple-700'
-              }`}
-            >
-              {isGenerating ? (
-                <span className="flex items-center">
-                  <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                  </svg>
-                  Generating...
-                </span>
-              ) : 'Generate Word Set'}
-            </button>
+            {mode === 'words' ? (
+              <>
+                <p className="text-gray-600 mb-4">
+                  {geminiAvailable
+                    ? 'Enter a list of words separated by commas. Our AI will generate British English definitions (without using the word itself), and you can check and edit everything before the word set is saved.'
+                    : "Enter a list of words separated by commas. Without a Gemini API key, definitions and syllables come from the built-in dictionary - you can fill in any it doesn't know before the word set is saved."}
+                </p>
+                
+                <div className="mb-6">
+                  <textarea
+                    className="w-full h-32 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    placeholder="Enter words separated by commas, e.g.: system, crystal, myth, symbol, oxygen"
+                    value={wordInput}
+                    onChange={(e) => setWordInput(e.target.value)}
+                  />
+                </div>
+                
+                {unrecognisedWords.length > 0 && (
+                  <div className="mb-4 p-3 bg-yellow-50 text-yellow-800 text-sm rounded-lg">
+                    <p className="font-medium mb-1">Not in the dictionary - check the spelling:</p>
+                    <ul className="space-y-1">
+                      {unrecognisedWords.map(word => {
+                        const suggestions = suggestCorrections(word)
+                        return (
+                          <li key={word}>
+                            "{word}"
+                            {suggestions.length > 0 && <> - did you mean </>}
+                            {suggestions.map(suggestion => (
+                              <button
+                                key={suggestion}
+                                onClick={() => replaceTypedWord(word, suggestion)}
+                                className="ml-1 px-2 py-0.5 bg-yellow-200 hover:bg-yellow-300 rounded font-medium"
+                              >
+                                {suggestion}
+                              </button>
+                            ))}
+                            {suggestions.length > 0 && '?'}
+                          </li>
+                        )
+                      })}
+                    </ul>
+                  </div>
+                )}
+              </>
+            ) : (
+              <>
+                <p className="text-gray-600 mb-4">
+                  Pick a spelling rule and our AI will suggest words that follow it. Suggestions that aren't real words, or don't fit the rule, are left out.
+                </p>
+                
+                <div className="mb-6 space-y-4">
+                  <label className="block">
+                    <span className="text-gray-700 font-medium">Spelling rule</span>
+                    <select
+                      className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      value={ruleId}
+                      onChange={(e) => setRuleId(e.target.value)}
+                    >
+                      {CURRICULUM_RULES.map(rule => (
+                        <option key={rule.id} value={rule.id}>{rule.name}</option>
+                      ))}
+                      <option value={CUSTOM_RULE_ID}>Another rule...</option>
+                    </select>
+                  </label>
+                  
+                  {selectedRule ? (
+                    <p className="text-sm text-gray-500">
+                      {selectedRule.description} For example: {selectedRule.examples.join(', ')}.
+                    </p>
+                  ) : (
+                    <input
+                      type="text"
+                      className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      placeholder="Describe the rule, e.g. words ending in -ous"
+                      value={customRule}
+                      onChange={(e) => setCustomRule(e.target.value)}
+                    />
+                  )}
+                  
+                  <div className="flex space-x-4">
+                    <label className="block flex-1">
+                      <span className="text-gray-700 font-medium">Age</span>
+                      <select
+                        className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        value={ageBand || defaultAgeBand}
+                        onChange={(e) => setAgeBand(e.target.value as AgeBand)}
+                      >
+                        {AGE_BANDS.map(band => (
+                          <option key={band} value={band}>{band}</option>
+                        ))}
+                      </select>
+                    </label>
+                    
+                    <label className="block flex-1">
+                      <span className="text-gray-700 font-medium">Number of words</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={MAX_RULE_WORD_COUNT}
+                        className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        value={wordCount}
+                        onChange={(e) => setWordCount(Math.min(MAX_RULE_WORD_COUNT, Math.max(1, Number(e.target.value) || 1)))}
+                      />
+                    </label>
+                  </div>
+                </div>
+              </>
+            )}
+            
+            {errorMessage && (
+              <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-lg">
+                {errorMessage}
+              </div>
+            )}
+            
+            <div className="flex justify-end space-x-3">
+              <button
+                onClick={handleClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              
+              <button
+                onClick={handleGenerate}
+                disabled={isGenerating || !canGenerate}
+                className={`px-6 py-2 rounded-md text-white font-medium ${
+                  isGenerating || !canGenerate
+                    ? 'bg-purple-400 cursor-not-allowed'
+                    : 'bg-purple-600 hover:bg-purple-700'
+                }`}
+              >
+                {isGenerating ? (
+                  <span className="flex items-center">
+                    <svg className="animate-spin -ml-1 mr-2 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                    </svg>
+                    Generating...
+                  </span>
+                ) : geminiAvailable ? 'Generate Words' : 'Look Up Words'}
+              </button>
+            </div>
           </div>
-        </div>
+        ) : (
+          <>
+            <div className="p-6 space-y-4 overflow-y-auto">
+              <label className="block">
+                <span className="text-gray-700 font-medium">Title</span>
+                <input
+                  type="text"
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  placeholder="e.g. Week 3: y making the /I/ sound"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                />
+              </label>
+              
+              <label className="block">
+                <span className="text-gray-700 font-medium">Description</span>
+                <input
+                  type="text"
+                  className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                />
+              </label>
+              
+              {rejectedWords.length > 0 && (
+                <div className="p-3 bg-gray-50 text-gray-600 rounded-lg text-sm">
+                  Left out because they aren't in the word list or don't follow the rule: {rejectedWords.join(', ')}
+                </div>
+              )}
+              
+              {undefinedWords.length > 0 && (
+                <div className="p-3 bg-yellow-50 text-yellow-800 rounded-lg">
+                  No definition {geminiAvailable ? 'came back' : 'in the dictionary'} for {undefinedWords.join(', ')}. Check the spelling, then {geminiAvailable ? 'regenerate or ' : ''}fill them in.
+                </div>
+              )}
+              
+              <ul className="space-y-3">
+                {rows.map(row => (
+                  <li key={row.key}>
+                    <WordRowEditor
+                      row={row}
+                      onChange={(changes) => updateRow(row.key, changes)}
+                      onRemove={() => setRows(prev => prev.filter(other => other.key !== row.key))}
+                      onRegenerate={geminiAvailable ? () => handleRegenerate(row) : undefined}
+                      isRegenerating={regeneratingKey === row.key}
+                      regenerateDisabled={regeneratingKey !== null}
+                    />
+                  </li>
+                ))}
+              </ul>
+              
+              {errorMessage && (
+                <div className="p-3 bg-red-100 text-red-700 rounded-lg">
+                  {errorMessage}
+                </div>
+              )}
+            </div>
+            
+            <div className="p-6 border-t border-gray-200 flex justify-between">
+              <button
+                onClick={() => {
+                  setStage('input')
+                  setErrorMessage('')
+                }}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+              >
+                Back
+              </button>
+              
+              <button
+                onClick={handleSave}
+                disabled={regeneratingKey !== null}
+                className={`px-6 py-2 rounded-md text-white font-medium ${
+                  regeneratingKey !== null
+                    ? 'bg-purple-400 cursor-not-allowed'
+                    : 'bg-purple-600 hover:bg-purple-700'
+                }`}
+              >
+                Save Word Set
+              </button>
+            </div>
+          </>
+        )}
       </div>
     </div>
   )
 }
 
-export default AddWordSetDialog 
\ No newline at end of file
+export default AddWordSetDialog 
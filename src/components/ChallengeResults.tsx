@@ -0,0 +1,77 @@
+import React from 'react'
+import { ChallengeRun, rankRuns } from '../utils/challenge'
+import PersonalBestTable from './PersonalBestTable'
+
+type ChallengeResultsProps = {
+  run: ChallengeRun
+  previousRuns: ChallengeRun[] // Personal bests for the same timer from before this run
+  learnerName?: string
+  onRestart: () => void
+  onDone: () => void
+}
+
+// End of a "beat the clock" challenge: the run against the learner's previous bests
+const ChallengeResults: React.FC<ChallengeResultsProps> = ({
+  run,
+  previousRuns,
+  learnerName = '',
+  onRestart,
+  onDone
+}) => {
+  const previousBest = rankRuns(previousRuns)[0]
+  const isNewBest = !previousBest || run.score > previousBest.score
+  const table = rankRuns([...previousRuns, run])
+
+  return (
+    <div className="h-full overflow-y-auto flex flex-col items-center p-4 bg-gradient-to-b from-yellow-100 to-purple-100 rounded-xl">
+      <h2 className="text-4xl font-bold text-purple-600 mb-2">
+        {isNewBest ? 'New personal best!' : "Time's up!"}
+      </h2>
+      <p className="text-lg text-purple-800 mb-6">
+        {isNewBest
+          ? (learnerName.trim() ? `Amazing, ${learnerName.trim()}!` : 'Amazing!')
+          : `${previousBest.score - run.score} points short of your best of ${previousBest.score}`}
+      </p>
+
+      <div className="grid grid-cols-3 gap-4 mb-6 text-center">
+        <div className="bg-white rounded-xl shadow px-4 py-3">
+          <div className="text-3xl font-bold text-blue-600">{run.score}</div>
+          <div className="text-sm text-gray-600">Score</div>
+        </div>
+        <div className="bg-white rounded-xl shadow px-4 py-3">
+          <div className="text-3xl font-bold text-green-600">{run.correct}/{run.total}</div>
+          <div className="text-sm text-gray-600">Words right</div>
+        </div>
+        <div className="bg-white rounded-xl shadow px-4 py-3">
+          <div className="text-3xl font-bold text-orange-500">{run.bestStreak}</div>
+          <div className="text-sm text-gray-600">Best combo</div>
+        </div>
+      </div>
+
+      <div className="w-full max-w-lg bg-white rounded-xl shadow p-4 mb-6">
+        <h3 className="text-xl font-bold text-purple-700 mb-2">Personal Bests</h3>
+        <PersonalBestTable runs={table} highlightedAt={run.achievedAt} />
+        {!table.includes(run) && (
+          <p className="mt-2 text-sm text-gray-600">This run didn't make the table - keep going!</p>
+        )}
+      </div>
+
+      <div className="flex space-x-3">
+        <button
+          onClick={onRestart}
+          className="px-8 py-4 text-2xl font-bold text-white bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl shadow-lg transform transition-all hover:scale-105 hover:shadow-xl focus:outline-none"
+        >
+          Go Again! ⏱️
+        </button>
+        <button
+          onClick={onDone}
+          className="px-6 py-4 text-xl font-bold text-gray-700 bg-white rounded-xl shadow hover:bg-gray-50"
+        >
+          Done
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default ChallengeResults
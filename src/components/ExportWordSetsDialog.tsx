@@ -0,0 +1,154 @@
+import React, { useState } from 'react'
+import {
+  TransferWordSet,
+  exportWordSetsToJson,
+  exportWordSetsToCsv,
+  downloadFile
+} from '../utils/wordSetTransfer'
+
+type ExportFormat = 'json' | 'csv'
+
+type ExportWordSetsDialogProps = {
+  isOpen: boolean
+  wordSets: TransferWordSet[]
+  currentWordSetId: string
+  onClose: () => void
+}
+
+const ExportWordSetsDialog: React.FC<ExportWordSetsDialogProps> = ({ isOpen, wordSets, currentWordSetId, onClose }) => {
+  // Start with just the current set selected
+  const [selectedIds, setSelectedIds] = useState<string[]>([currentWordSetId])
+  const [format, setFormat] = useState<ExportFormat>('json')
+
+  const toggleSet = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(setId => setId !== id) : [...prev, id])
+  }
+
+  const handleClose = () => {
+    setSelectedIds([currentWordSetId])
+    onClose()
+  }
+
+  const allSelected = wordSets.every(set => selectedIds.includes(set.id))
+
+  const handleExport = () => {
+    const selectedSets = wordSets.filter(set => selectedIds.includes(set.id))
+    const baseName = selectedSets.length === 1
+      ? selectedSets[0].title.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'word-set'
+      : 'learn2spell-word-sets'
+
+    if (format === 'json') {
+      downloadFile(exportWordSetsToJson(selectedSets), `${baseName}.json`, 'application/json')
+    } else {
+      downloadFile(exportWordSetsToCsv(selectedSets), `${baseName}.csv`, 'text/csv')
+    }
+    handleClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-purple-800">
+              Export Word Sets
+            </h2>
+            <button
+              onClick={handleClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <p className="text-gray-600 mb-4">
+            Save word sets to a file so you can back them up or share them with another learner or device.
+          </p>
+
+          <div className="mb-4">
+            <div className="flex justify-between items-center mb-2">
+              <span className="font-medium text-gray-700">Word sets</span>
+              <button
+                onClick={() => setSelectedIds(allSelected ? [] : wordSets.map(set => set.id))}
+                className="text-sm text-purple-600 hover:text-purple-800"
+              >
+                {allSelected ? 'Select none' : 'Select all'}
+              </button>
+            </div>
+            <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {wordSets.map(set => (
+                <li key={set.id}>
+                  <label className="flex items-center px-3 py-2 hover:bg-purple-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(set.id)}
+                      onChange={() => toggleSet(set.id)}
+                      className="mr-3 h-4 w-4 text-purple-600"
+                    />
+                    <span className="flex-grow">{set.title}</span>
+                    <span className="text-sm text-gray-500">{set.words.length} words</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="mb-6">
+            <span className="block font-medium text-gray-700 mb-2">File format</span>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => setFormat('json')}
+                className={`flex-1 px-3 py-2 rounded-md border ${
+                  format === 'json'
+                    ? 'bg-purple-600 text-white border-purple-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                Learn2Spell file (JSON)
+              </button>
+              <button
+                onClick={() => setFormat('csv')}
+                className={`flex-1 px-3 py-2 rounded-md border ${
+                  format === 'csv'
+                    ? 'bg-purple-600 text-white border-purple-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                Spreadsheet (CSV)
+              </button>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+
+            <button
+              onClick={handleExport}
+              disabled={selectedIds.length === 0}
+              className={`px-6 py-2 rounded-md text-white font-medium ${
+                selectedIds.length === 0
+                  ? 'bg-purple-400 cursor-not-allowed'
+                  : 'bg-purple-600 hover:bg-purple-700'
+              }`}
+            >
+              Export
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ExportWordSetsDialog
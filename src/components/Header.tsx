@@ -1,4 +1,5 @@
 import React, { useState } from 'react'
+import { LearnerProfile, getProfileDisplayName } from '../utils/profiles'
 
 type WordSet = {
   id: string
@@ -13,13 +14,23 @@ type WordSet = {
 }
 
 type HeaderProps = {
-  currentView: 'learn' | 'practice'
-  onViewChange: (view: 'learn' | 'practice') => void
+  currentView: 'learn' | 'practice' | 'test' | 'challenge' | 'cloze' | 'look-cover' | 'progress'
+  onViewChange: (view: 'learn' | 'practice' | 'test' | 'challenge' | 'cloze' | 'look-cover' | 'progress') => void
   wordSets: WordSet[]
   currentWordSetId: string
   onWordSetChange: (id: string) => void
   onAddNewClick: () => void
   onDeleteWordSet: (id: string) => void
+  onEditWordSet: (id: string) => void
+  onCreateByHandClick: () => void
+  onImportClick: () => void
+  onExportClick: () => void
+  dueTodayCount: number
+  profiles: LearnerProfile[]
+  activeProfileId: string
+  onProfileChange: (id: string) => void
+  onAddProfileClick: () => void
+  onEditProfileClick: () => void
 }
 
 // Helper function to truncate titles consistently
@@ -37,9 +48,20 @@ const Header: React.FC<HeaderProps> = ({
   currentWordSetId, 
   onWordSetChange,
   onAddNewClick,
-  onDeleteWordSet
+  onDeleteWordSet,
+  onEditWordSet,
+  onCreateByHandClick,
+  onImportClick,
+  onExportClick,
+  dueTodayCount,
+  profiles,
+  activeProfileId,
+  onProfileChange,
+  onAddProfileClick,
+  onEditProfileClick
 }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   
   const toggleMenu = () => {
     setIsMenuOpen(!isMenuOpen);
@@ -52,12 +74,19 @@ const Header: React.FC<HeaderProps> = ({
     setIsMenuOpen(false);
   };
 
+  const handleProfileChange = (id: string) => {
+    onProfileChange(id);
+    setIsProfileMenuOpen(false);
+  };
+
+  const activeProfile = profiles.find(profile => profile.id === activeProfileId) || profiles[0];
+
   // Find the current word set
   const currentWordSet = wordSets.find(set => set.id === currentWordSetId) || wordSets[0];
   const hasWordSets = wordSets.length > 0;
 
   return (
-    <header className="bg-white shadow-md relative z-30">
+    <header className="bg-white shadow-md relative z-30 print:hidden">
       <div className="container mx-auto px-4 py-4">
         <div className="flex flex-col sm:flex-row items-center justify-between">
           <div className="mb-4 sm:mb-0">
@@ -65,6 +94,79 @@ const Header: React.FC<HeaderProps> = ({
           </div>
           
           <div className="flex flex-col sm:flex-row space-y-2 sm:space-y-0 sm:space-x-4 items-center">
+            {/* Learner profile switcher */}
+            <div className="relative">
+              <button
+                onClick={() => setIsProfileMenuOpen(!isProfileMenuOpen)}
+                className="flex items-center space-x-1 bg-blue-100 hover:bg-blue-200 text-blue-800 px-4 py-2 rounded-lg transition-colors"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+                </svg>
+                <span className="font-medium">
+                  {activeProfile ? truncateTitle(getProfileDisplayName(activeProfile), 12) : 'Learner'}
+                </span>
+                <svg 
+                  xmlns="http://www.w3.org/2000/svg" 
+                  className={`h-4 w-4 transition-transform ${isProfileMenuOpen ? 'rotate-180' : ''}`} 
+                  fill="none" 
+                  viewBox="0 0 24 24" 
+                  stroke="currentColor"
+                >
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              </button>
+
+              {isProfileMenuOpen && (
+                <>
+                  {/* Backdrop to close menu when clicking outside */}
+                  <div 
+                    className="fixed inset-0 bg-transparent z-40" 
+                    onClick={() => setIsProfileMenuOpen(false)}
+                  ></div>
+
+                  <div className="absolute right-0 mt-2 w-56 bg-white border border-gray-200 rounded-lg shadow-2xl z-50">
+                    <ul className="py-2 max-h-72 overflow-y-auto">
+                      {profiles.map((profile) => (
+                        <li key={profile.id} className="px-2">
+                          <button
+                            onClick={() => handleProfileChange(profile.id)}
+                            className={`w-full text-left px-3 py-2 hover:bg-blue-50 rounded ${
+                              profile.id === activeProfileId ? 'font-medium text-blue-700 bg-blue-50' : ''
+                            }`}
+                          >
+                            {truncateTitle(getProfileDisplayName(profile))}
+                          </button>
+                        </li>
+                      ))}
+                      <li className="border-t border-gray-200 mt-1 pt-1">
+                        <button
+                          onClick={() => {
+                            setIsProfileMenuOpen(false);
+                            onEditProfileClick();
+                          }}
+                          className="w-full text-left px-4 py-2 text-blue-600 hover:bg-blue-50 font-medium"
+                        >
+                          Edit Current Learner
+                        </button>
+                      </li>
+                      <li>
+                        <button
+                          onClick={() => {
+                            setIsProfileMenuOpen(false);
+                            onAddProfileClick();
+                          }}
+                          className="w-full text-left px-4 py-2 text-green-600 hover:bg-green-50 font-medium"
+                        >
+                          Add Learner
+                        </button>
+                      </li>
+                    </ul>
+                  </div>
+                </>
+              )}
+            </div>
+
             {/* Word Set Menu - only show if we have word sets */}
             {hasWordSets && (
               <div className="relative">
@@ -120,6 +222,19 @@ const Header: React.FC<HeaderProps> = ({
                                   )}
                                 </div>
                               </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setIsMenuOpen(false);
+                                  onEditWordSet(set.id);
+                                }}
+                                className="p-1 text-purple-500 hover:text-purple-700 hover:bg-purple-100 rounded-full"
+                                title="Edit Word Set"
+                              >
+                                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                                </svg>
+                              </button>
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
@@ -164,6 +279,66 @@ const Header: React.FC<HeaderProps> = ({
                             Add New Word Set
                           </button>
                         </li>
+                        <li>
+                          <button
+                            onClick={() => {
+                              setIsMenuOpen(false);
+                              onCreateByHandClick();
+                            }}
+                            className="w-full text-left px-4 py-2 text-green-600 hover:bg-green-50 font-medium flex items-center"
+                          >
+                            <svg 
+                              xmlns="http://www.w3.org/2000/svg" 
+                              className="h-4 w-4 mr-2" 
+                              fill="none" 
+                              viewBox="0 0 24 24" 
+                              stroke="currentColor"
+                            >
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+                            </svg>
+                            Create Set by Hand
+                          </button>
+                        </li>
+                        <li>
+                          <button
+                            onClick={() => {
+                              setIsMenuOpen(false);
+                              onImportClick();
+                            }}
+                            className="w-full text-left px-4 py-2 text-purple-600 hover:bg-purple-50 font-medium flex items-center"
+                          >
+                            <svg 
+                              xmlns="http://www.w3.org/2000/svg" 
+                              className="h-4 w-4 mr-2" 
+                              fill="none" 
+                              viewBox="0 0 24 24" 
+                              stroke="currentColor"
+                            >
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                            </svg>
+                            Import Word Sets
+                          </button>
+                        </li>
+                        <li>
+                          <button
+                            onClick={() => {
+                              setIsMenuOpen(false);
+                              onExportClick();
+                            }}
+                            className="w-full text-left px-4 py-2 text-purple-600 hover:bg-purple-50 font-medium flex items-center"
+                          >
+                            <svg 
+                              xmlns="http://www.w3.org/2000/svg" 
+                              className="h-4 w-4 mr-2" 
+                              fill="none" 
+                              viewBox="0 0 24 24" 
+                              stroke="currentColor"
+                            >
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                            </svg>
+                            Export Word Sets
+                          </button>
+                        </li>
                       </ul>
                     </div>
                   </>
@@ -209,6 +384,64 @@ const Header: React.FC<HeaderProps> = ({
                 onClick={() => onViewChange('practice')}
               >
                 Practice Spelling
+                {dueTodayCount > 0 && (
+                  <span
+                    className="ml-2 px-2 py-0.5 bg-yellow-300 text-yellow-900 text-xs font-bold rounded-full"
+                    title="Words due for review today"
+                  >
+                    {dueTodayCount} due
+                  </span>
+                )}
+              </button>
+              <button
+                className={`px-4 py-2 rounded-lg transition-colors shadow-sm font-medium ${
+                  currentView === 'test'
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                onClick={() => onViewChange('test')}
+              >
+                Spelling Test
+              </button>
+              <button
+                className={`px-4 py-2 rounded-lg transition-colors shadow-sm font-medium ${
+                  currentView === 'challenge'
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                onClick={() => onViewChange('challenge')}
+              >
+                Beat the Clock
+              </button>
+              <button
+                className={`px-4 py-2 rounded-lg transition-colors shadow-sm font-medium ${
+                  currentView === 'cloze'
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                onClick={() => onViewChange('cloze')}
+              >
+                Sentences
+              </button>
+              <button
+                className={`px-4 py-2 rounded-lg transition-colors shadow-sm font-medium ${
+                  currentView === 'look-cover'
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                onClick={() => onViewChange('look-cover')}
+              >
+                Look, Cover, Write
+              </button>
+              <button
+                className={`px-4 py-2 rounded-lg transition-colors shadow-sm font-medium ${
+                  currentView === 'progress'
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+                onClick={() => onViewChange('progress')}
+              >
+                Progress
               </button>
             </nav>
           </div>
@@ -0,0 +1,31 @@
+import React from 'react'
+import { getWordPatternSpans, splitByPattern } from '../utils/graphemePatterns'
+
+type HighlightedWordProps = {
+  word: {
+    word: string
+    rule: string
+    pattern?: string
+  }
+  spelling?: string // The spelling to show, when it isn't the word as stored
+}
+
+// A word with the letters that carry its rule highlighted, suggested from the
+// rule when the word has no pattern saved
+const HighlightedWord: React.FC<HighlightedWordProps> = ({ word, spelling = word.word }) => {
+  return (
+    <>
+      {splitByPattern(spelling, getWordPatternSpans(word, spelling)).map((segment, index) => (
+        segment.highlighted ? (
+          <span key={index} className="text-purple-600 underline decoration-purple-300 decoration-4 underline-offset-4">
+            {segment.text}
+          </span>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      ))}
+    </>
+  )
+}
+
+export default HighlightedWord
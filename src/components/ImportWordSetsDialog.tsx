@@ -0,0 +1,185 @@
+import React, { useState } from 'react'
+import {
+  TransferWordSet,
+  CollisionStrategy,
+  parseWordSetFile,
+  resolveIdCollisions
+} from '../utils/wordSetTransfer'
+
+type ImportWordSetsDialogProps = {
+  isOpen: boolean
+  existingWordSetIds: string[]
+  onClose: () => void
+  onImport: (wordSets: TransferWordSet[]) => void
+}
+
+const COLLISION_OPTIONS: Array<{ value: CollisionStrategy; label: string }> = [
+  { value: 'keep-both', label: 'Keep both (import as a copy)' },
+  { value: 'replace', label: 'Replace my set with the imported one' },
+  { value: 'skip', label: 'Skip it and keep mine' }
+]
+
+const ImportWordSetsDialog: React.FC<ImportWordSetsDialogProps> = ({ isOpen, existingWordSetIds, onClose, onImport }) => {
+  const [fileName, setFileName] = useState('')
+  const [parsedSets, setParsedSets] = useState<TransferWordSet[]>([])
+  const [errors, setErrors] = useState<string[]>([])
+  const [collisionStrategy, setCollisionStrategy] = useState<CollisionStrategy>('keep-both')
+
+  const reset = () => {
+    setFileName('')
+    setParsedSets([])
+    setErrors([])
+    setCollisionStrategy('keep-both')
+  }
+
+  const handleClose = () => {
+    reset()
+    onClose()
+  }
+
+  // Read and validate the chosen file so the learner can preview it before merging
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const result = parseWordSetFile(await file.text(), file.name)
+      setFileName(file.name)
+      setParsedSets(result.wordSets)
+      setErrors(result.errors)
+    } catch (error) {
+      console.error('Error reading import file:', error)
+      setFileName(file.name)
+      setParsedSets([])
+      setErrors(['The file could not be read.'])
+    }
+  }
+
+  const handleImport = () => {
+    const toImport = resolveIdCollisions(parsedSets, existingWordSetIds, collisionStrategy)
+    onImport(toImport)
+    reset()
+  }
+
+  const collisionCount = parsedSets.filter(set => existingWordSetIds.includes(set.id)).length
+  const importCount = resolveIdCollisions(parsedSets, existingWordSetIds, collisionStrategy).length
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-purple-800">
+              Import Word Sets
+            </h2>
+            <button
+              onClick={handleClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6">
+          <p className="text-gray-600 mb-4">
+            Choose a Learn2Spell word set file (.json) or a spreadsheet saved as CSV with columns
+            set, word, definition, rule, difficulty, phonetic, variants (other accepted spellings, separated by |),
+            pattern (the letters to highlight) and sentence (read aloud in sentence practice).
+          </p>
+
+          <div className="mb-4">
+            <input
+              type="file"
+              accept=".json,.csv,application/json,text/csv"
+              onChange={handleFileChange}
+              className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:bg-purple-100 file:text-purple-800 hover:file:bg-purple-200"
+            />
+          </div>
+
+          {fileName && parsedSets.length > 0 && (
+            <div className="mb-4">
+              <span className="block font-medium text-gray-700 mb-2">Preview</span>
+              <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                {parsedSets.map((set, index) => (
+                  <li key={`${set.id}-${index}`} className="px-3 py-2">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{set.title}</span>
+                      <span className="text-sm text-gray-500">{set.words.length} words</span>
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">
+                      {set.words.map(word => word.word).join(', ')}
+                    </div>
+                    {existingWordSetIds.includes(set.id) && (
+                      <span className="inline-block mt-1 px-1.5 py-0.5 bg-yellow-100 text-yellow-800 text-xs rounded">
+                        You already have this set
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {collisionCount > 0 && (
+            <div className="mb-4">
+              <label className="block font-medium text-gray-700 mb-2" htmlFor="collision-strategy">
+                When a set already exists
+              </label>
+              <select
+                id="collision-strategy"
+                value={collisionStrategy}
+                onChange={(e) => setCollisionStrategy(e.target.value as CollisionStrategy)}
+                className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                {COLLISION_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {errors.length > 0 && (
+            <div className="mb-4 p-3 bg-red-100 text-red-700 rounded-lg max-h-32 overflow-y-auto">
+              <p className="font-medium mb-1">
+                {parsedSets.length > 0 ? 'Some entries were skipped:' : 'Nothing could be imported:'}
+              </p>
+              <ul className="list-disc list-inside text-sm">
+                {errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+
+            <button
+              onClick={handleImport}
+              disabled={importCount === 0}
+              className={`px-6 py-2 rounded-md text-white font-medium ${
+                importCount === 0
+                  ? 'bg-purple-400 cursor-not-allowed'
+                  : 'bg-purple-600 hover:bg-purple-700'
+              }`}
+            >
+              {importCount > 0 ? `Import ${importCount} ${importCount === 1 ? 'Set' : 'Sets'}` : 'Import'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ImportWordSetsDialog
@@ -0,0 +1,170 @@
+import React, { useState } from 'react'
+import { isGeminiAvailable } from '../utils/geminiService'
+import { pronounceWord } from '../utils/elevenLabsService'
+import { Lesson, createLesson } from '../utils/lesson'
+import { SpellingLocale } from '../utils/profiles'
+import MarkdownView from './MarkdownView'
+
+type Word = {
+  word: string
+  rule: string
+}
+
+type LessonPageProps = {
+  words: Word[]
+  description: string
+  lesson?: Lesson // The set's saved lesson, if one has been generated
+  spellingLocale: SpellingLocale
+  onLessonChange: (lesson: Lesson) => void // Saves a new lesson with the set
+}
+
+const LessonPage: React.FC<LessonPageProps> = ({
+  words,
+  description,
+  lesson,
+  spellingLocale,
+  onLessonChange
+}) => {
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [errorMessage, setErrorMessage] = useState('')
+
+  const canGenerate = isGeminiAvailable()
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true)
+      setErrorMessage('')
+      setProgress({ done: 0, total: words.length })
+      onLessonChange(await createLesson(words, description, spellingLocale, (done, total) => setProgress({ done, total })))
+    } catch (error) {
+      if (error instanceof Error) {
+        setErrorMessage(`The lesson could not be created: ${error.message}`)
+      } else {
+        setErrorMessage('An unexpected error occurred while creating the lesson.')
+      }
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  // Words added to the set since the lesson was made
+  const missingWords = lesson
+    ? words.filter(word => !lesson.words.some(entry => entry.word.toLowerCase() === word.word.toLowerCase()))
+    : []
+  // Only show words that are still in the set
+  const lessonWords = lesson
+    ? lesson.words.filter(entry => words.some(word => word.word.toLowerCase() === entry.word.toLowerCase()))
+    : []
+
+  const generateButton = (
+    <button
+      onClick={handleGenerate}
+      disabled={!canGenerate || isGenerating}
+      className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+        !canGenerate || isGenerating
+          ? 'bg-purple-200 text-purple-400 cursor-not-allowed'
+          : 'bg-purple-600 hover:bg-purple-700 text-white'
+      }`}
+    >
+      {isGenerating ? 'Writing the lesson...' : lesson ? 'Regenerate Lesson' : 'Create Lesson'}
+    </button>
+  )
+
+  return (
+    <div className="space-y-6">
+      {isGenerating && (
+        <div className="bg-white rounded-xl shadow p-4">
+          <div className="h-2 bg-purple-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-purple-500 transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+          <div className="text-sm text-gray-500 mt-1">
+            {progress.done === 0 ? 'Explaining the rule...' : `Writing about each word ${progress.done}/${progress.total}`}
+          </div>
+        </div>
+      )}
+
+      {errorMessage && (
+        <div className="p-3 bg-red-100 text-red-700 rounded-lg">
+          {errorMessage}
+        </div>
+      )}
+
+      {!lesson ? (
+        <div className="bg-white rounded-xl shadow p-8 text-center">
+          <h2 className="text-2xl font-bold text-purple-800 mb-2">No lesson yet</h2>
+          <p className="text-gray-600 mb-6">
+            {canGenerate
+              ? 'Create a lesson that explains the spelling rule, with memory tips, word histories and example sentences for every word. It is saved with the word set, so it works offline afterwards.'
+              : 'Lessons are written by Gemini. Add a Gemini API key to create one for this word set.'}
+          </p>
+          {generateButton}
+        </div>
+      ) : (
+        <>
+          <div className="bg-white rounded-xl shadow p-6">
+            <div className="flex justify-between items-start mb-2">
+              <span className="text-sm text-gray-500">
+                Created {new Date(lesson.generatedAt).toLocaleDateString()}
+              </span>
+              {generateButton}
+            </div>
+            <MarkdownView markdown={lesson.overview} />
+          </div>
+
+          {missingWords.length > 0 && (
+            <div className="p-3 bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-lg text-sm">
+              Not in this lesson yet: {missingWords.map(word => word.word).join(', ')}.
+              {canGenerate && ' Regenerate the lesson to add them.'}
+            </div>
+          )}
+
+          <div className="grid gap-6 md:grid-cols-2">
+            {lessonWords.map(entry => (
+              <section key={entry.word} className="bg-white rounded-xl shadow p-5">
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-2xl font-bold text-blue-700">{entry.word}</h3>
+                  <button
+                    onClick={() => pronounceWord(entry.word)}
+                    className="p-2 bg-blue-100 hover:bg-blue-200 text-blue-800 rounded-lg"
+                    aria-label={`Hear ${entry.word}`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                    </svg>
+                  </button>
+                </div>
+
+                <h4 className="font-bold text-purple-700">Example sentences</h4>
+                <ul className="list-disc pl-6 mb-3 text-gray-800">
+                  {entry.sentences.slice(0, 3).map((sentence, index) => <li key={index}>{sentence}</li>)}
+                </ul>
+
+                {entry.memoryTips.length > 0 && (
+                  <>
+                    <h4 className="font-bold text-purple-700">Memory tips</h4>
+                    <ul className="list-disc pl-6 mb-3 text-gray-800">
+                      {entry.memoryTips.map((tip, index) => <li key={index}>{tip}</li>)}
+                    </ul>
+                  </>
+                )}
+
+                {entry.etymology && (
+                  <>
+                    <h4 className="font-bold text-purple-700">Where it comes from</h4>
+                    <p className="text-gray-800">{entry.etymology}</p>
+                  </>
+                )}
+              </section>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default LessonPage
@@ -0,0 +1,398 @@
+import React, { useState, useEffect, useRef } from 'react'
+import { pronounceWord } from '../utils/elevenLabsService'
+import { AttemptRecord, SessionResult } from '../utils/progressStore'
+import { diagnoseSpelling } from '../utils/spellingDiff'
+import { AnswerCheck, checkSpelling, getRequiredSpelling } from '../utils/spellingVariants'
+import { getWordPatternSpans } from '../utils/graphemePatterns'
+import { SpellingLocale } from '../utils/profiles'
+import {
+  COVER_DELAY_CHOICES,
+  LookCoverResult,
+  LookCoverStep,
+  recordLookCoverTry
+} from '../utils/lookCover'
+import HighlightedWord from './HighlightedWord'
+import SpellingDiffDisplay from './SpellingDiffDisplay'
+import AlphaKeyboard from './AlphaKeyboard'
+
+type Word = {
+  word: string
+  definition: string
+  rule: string
+  difficulty: number
+  variants?: string[]
+  pattern?: string
+  wordSetId?: string
+}
+
+type LookCoverWriteCheckProps = {
+  words: Word[]
+  learnerName?: string
+  spellingLocale?: SpellingLocale
+  coverDelaySeconds: number // How long each word is shown before it is covered
+  onCoverDelayChange: (seconds: number) => void // Saves the delay chosen on the start screen
+  onSessionComplete?: (session: SessionResult) => void // Called with every write once the last word is done
+  onGameComplete?: () => void
+}
+
+const STEP_LABELS: Array<[LookCoverStep | 'cover', string]> = [
+  ['look', 'Look & Say'],
+  ['cover', 'Cover'],
+  ['write', 'Write'],
+  ['check', 'Check']
+]
+
+// Guided Look, Say, Cover, Write, Check: each word is shown and spoken, covered
+// after a few seconds, written from memory, then checked against the word
+const LookCoverWriteCheck: React.FC<LookCoverWriteCheckProps> = ({
+  words,
+  learnerName = '',
+  spellingLocale = 'en-GB',
+  coverDelaySeconds,
+  onCoverDelayChange,
+  onSessionComplete = () => {},
+  onGameComplete = () => {}
+}) => {
+  const [hasStarted, setHasStarted] = useState(false)
+  const [wordIndex, setWordIndex] = useState(0)
+  const [step, setStep] = useState<LookCoverStep>('look')
+  // Seconds until the word is covered
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [userInput, setUserInput] = useState('')
+  const [answerCheck, setAnswerCheck] = useState<AnswerCheck | null>(null)
+  const [results, setResults] = useState<LookCoverResult[]>([])
+  const [isFinished, setIsFinished] = useState(false)
+  // When the word was covered, used to time each write
+  const writeStartTimeRef = useRef(Date.now())
+  const attemptsRef = useRef<AttemptRecord[]>([])
+  const sessionStartTimeRef = useRef(Date.now())
+
+  const currentWord = words[wordIndex]
+  const spellingOf = (word: Word) => getRequiredSpelling(word, spellingLocale)
+
+  // Show and say each word, then start counting down to covering it
+  useEffect(() => {
+    if (!hasStarted || step !== 'look' || !words[wordIndex]) return
+    setSecondsLeft(coverDelaySeconds)
+    pronounceWord(words[wordIndex].word).catch(error => console.error('Error pronouncing word:', error))
+  }, [hasStarted, step, wordIndex, words, coverDelaySeconds])
+
+  // Cover the word when the countdown runs out
+  useEffect(() => {
+    if (step !== 'look' || secondsLeft === null) return
+    if (secondsLeft > 0) {
+      const timer = setTimeout(() => setSecondsLeft(secondsLeft - 1), 1000)
+      return () => clearTimeout(timer)
+    }
+    setSecondsLeft(null)
+    setStep('write')
+    writeStartTimeRef.current = Date.now()
+  }, [step, secondsLeft])
+
+  const handleCheck = () => {
+    if (step !== 'write' || !userInput.trim()) return
+    const check = checkSpelling(currentWord, userInput, spellingLocale)
+    const isCorrect = check.result !== 'incorrect'
+    const previousTries = results.find(result => result.word === currentWord.word)?.tries || 0
+
+    // Writes after looking at the word again count like retry rounds, so
+    // only the first one goes towards accuracy
+    attemptsRef.current = [...attemptsRef.current, {
+      word: currentWord.word,
+      wordSetId: currentWord.wordSetId,
+      typedAnswer: userInput,
+      correct: isCorrect,
+      hintsUsed: 0,
+      hintTypes: [],
+      timeTakenMs: Date.now() - writeStartTimeRef.current,
+      errorTypes: isCorrect
+        ? undefined
+        : diagnoseSpelling(check.expected, userInput, getWordPatternSpans(currentWord, check.expected)).errorTypes,
+      round: previousTries > 0 ? previousTries : undefined
+    }]
+    setResults(prev => recordLookCoverTry(prev, currentWord.word, isCorrect))
+    setAnswerCheck(check)
+    setStep('check')
+  }
+
+  const handleKeyPress = (key: string) => {
+    if (step !== 'write') return
+    if (key === 'Backspace') {
+      setUserInput(prev => prev.slice(0, -1))
+    } else if (key === 'Enter') {
+      handleCheck()
+    } else {
+      setUserInput(prev => prev + key)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    handleCheck()
+  }
+
+  // Look at the same word again after getting it wrong
+  const lookAgain = () => {
+    setUserInput('')
+    setAnswerCheck(null)
+    setStep('look')
+  }
+
+  const nextWord = () => {
+    setUserInput('')
+    setAnswerCheck(null)
+    if (wordIndex < words.length - 1) {
+      setWordIndex(prev => prev + 1)
+      setStep('look')
+      return
+    }
+    setIsFinished(true)
+    onSessionComplete({
+      startedAt: sessionStartTimeRef.current,
+      endedAt: Date.now(),
+      attempts: attemptsRef.current,
+      mode: 'look-cover'
+    })
+  }
+
+  const restart = () => {
+    attemptsRef.current = []
+    sessionStartTimeRef.current = Date.now()
+    setResults([])
+    setWordIndex(0)
+    setUserInput('')
+    setAnswerCheck(null)
+    setIsFinished(false)
+    setStep('look')
+  }
+
+  if (words.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-4 bg-blue-50 rounded-xl">
+        <p className="text-xl text-center text-blue-700">
+          No words available! Please add some words first.
+        </p>
+      </div>
+    )
+  }
+
+  if (!hasStarted) {
+    return (
+      <div className="h-full overflow-y-auto flex flex-col items-center justify-center p-4 bg-gradient-to-b from-yellow-50 to-blue-100 rounded-xl">
+        <h2 className="text-4xl font-bold text-purple-600 mb-2">Look, Say, Cover, Write, Check</h2>
+        <p className="text-lg text-purple-800 mb-6 text-center max-w-xl">
+          Look carefully at each word and say it out loud. When it is covered, write it from memory, then check your spelling against the word.
+        </p>
+        <label className="flex items-center space-x-3 mb-6 text-lg text-blue-800">
+          <span>Cover each word after</span>
+          <select
+            value={coverDelaySeconds}
+            onChange={(e) => onCoverDelayChange(Number(e.target.value))}
+            className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {COVER_DELAY_CHOICES.map(seconds => (
+              <option key={seconds} value={seconds}>{seconds} seconds</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => setHasStarted(true)}
+          className="px-8 py-4 text-2xl font-bold text-white bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl shadow-lg transform transition-all hover:scale-105 hover:shadow-xl focus:outline-none"
+        >
+          Start
+        </button>
+      </div>
+    )
+  }
+
+  if (isFinished) {
+    const firstTime = results.filter(result => result.correct && result.tries === 1)
+    const tookMoreTries = results.filter(result => result.correct && result.tries > 1)
+    const stillToLearn = results.filter(result => !result.correct)
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-4 bg-gradient-to-b from-purple-100 to-blue-100 rounded-xl">
+        <h2 className="text-4xl font-bold text-purple-600 mb-6">
+          {learnerName.trim() ? `Well done, ${learnerName.trim()}!` : 'All checked!'}
+        </h2>
+        <div className="text-3xl text-center mb-8">
+          <span className="font-bold text-blue-600">Right first time: </span>
+          <span className="text-purple-700 font-bold">{firstTime.length}</span>
+          <span className="text-blue-600 font-bold"> out of {words.length}</span>
+          {tookMoreTries.length > 0 && (
+            <div className="text-lg mt-4">
+              <span className="font-bold text-green-700">Got it after another look: </span>
+              <span className="text-green-800">{tookMoreTries.map(result => result.word).join(', ')}</span>
+            </div>
+          )}
+          {stillToLearn.length > 0 && (
+            <div className="text-lg mt-2">
+              <span className="font-bold text-orange-700">Still to learn: </span>
+              <span className="text-orange-800">{stillToLearn.map(result => result.word).join(', ')}</span>
+            </div>
+          )}
+        </div>
+        <div className="flex space-x-4">
+          <button
+            onClick={restart}
+            className="px-6 py-3 text-xl font-bold text-white bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl shadow-lg hover:shadow-xl focus:outline-none"
+          >
+            Start Again
+          </button>
+          <button
+            onClick={onGameComplete}
+            className="px-6 py-3 text-xl font-bold text-purple-700 bg-white rounded-xl shadow-lg hover:shadow-xl focus:outline-none"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  const isCorrect = answerCheck !== null && answerCheck.result !== 'incorrect'
+  // Covering happens the moment the countdown ends, so it is shown alongside writing
+  const activeSteps = step === 'write' ? ['cover', 'write'] : [step]
+
+  return (
+    <div className="h-full flex flex-col divide-y bg-gradient-to-b from-blue-50 to-purple-50 rounded-xl">
+      {/* Progress through the set and through the steps for this word */}
+      <div className="flex flex-wrap justify-between items-center gap-2 p-2 bg-white bg-opacity-80 rounded-t-xl shadow-sm">
+        <div className="text-sm">
+          <span className="font-bold text-purple-700">Word:</span>
+          <span className="ml-1 text-blue-600 font-bold">{wordIndex + 1}/{words.length}</span>
+        </div>
+        <div className="flex space-x-1">
+          {STEP_LABELS.map(([value, label]) => (
+            <span
+              key={value}
+              className={`px-3 py-1 rounded-full text-sm font-medium ${
+                activeSteps.includes(value) ? 'bg-purple-600 text-white' : 'bg-gray-100 text-gray-500'
+              }`}
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 bg-white bg-opacity-80 flex flex-col items-center">
+        {step === 'look' && (
+          <>
+            <div className="text-5xl md:text-6xl font-bold text-blue-700 tracking-wide mb-3">
+              <HighlightedWord word={currentWord} spelling={spellingOf(currentWord)} />
+            </div>
+            <p className="text-lg text-purple-800 mb-3">Look carefully and say it out loud.</p>
+            <div className="flex items-center space-x-3">
+              <button
+                type="button"
+                onClick={() => pronounceWord(currentWord.word).catch(error => console.error('Error pronouncing word:', error))}
+                className="px-4 py-2 bg-blue-100 hover:bg-blue-200 text-blue-800 rounded-lg border-2 border-blue-300 font-medium"
+              >
+                Hear it again
+              </button>
+              <button
+                type="button"
+                onClick={() => setSecondsLeft(0)}
+                className="px-4 py-2 bg-purple-100 hover:bg-purple-200 text-purple-800 rounded-lg font-medium"
+              >
+                Cover it now{secondsLeft !== null ? ` (${secondsLeft})` : ''}
+              </button>
+            </div>
+          </>
+        )}
+
+        {step === 'write' && (
+          <>
+            <div className="w-full max-w-md h-16 mb-3 flex items-center justify-center bg-purple-200 rounded-xl text-2xl font-bold text-purple-500">
+              Covered
+            </div>
+            <p className="text-lg text-purple-800">Now write it from memory.</p>
+          </>
+        )}
+
+        {step === 'check' && answerCheck && (
+          <>
+            {/* What was written and the word, side by side */}
+            <div className="grid grid-cols-2 gap-4 w-full max-w-2xl mb-4">
+              <div className={`p-4 rounded-xl text-center ${isCorrect ? 'bg-green-50' : 'bg-red-50'}`}>
+                <div className="text-sm font-medium text-gray-600 mb-1">You wrote</div>
+                <div className={`text-3xl md:text-4xl font-bold tracking-wide uppercase ${isCorrect ? 'text-green-700' : 'text-red-700'}`}>
+                  {userInput}
+                </div>
+              </div>
+              <div className="p-4 rounded-xl text-center bg-blue-50">
+                <div className="text-sm font-medium text-gray-600 mb-1">The word</div>
+                <div className="text-3xl md:text-4xl font-bold tracking-wide uppercase text-blue-700">
+                  <HighlightedWord word={currentWord} spelling={answerCheck.expected} />
+                </div>
+              </div>
+            </div>
+
+            {isCorrect ? (
+              <p className="text-xl font-bold text-green-600 mb-3">
+                ✓ You got it!{answerCheck.note ? ` ${answerCheck.note}` : ''}
+              </p>
+            ) : (
+              <div className="mb-3 flex flex-col items-center">
+                <p className="text-lg text-red-700 mb-2">Not quite - here is where it is different:</p>
+                <SpellingDiffDisplay
+                  operations={diagnoseSpelling(answerCheck.expected, userInput).operations}
+                  className="bg-white text-gray-800 text-2xl px-4 py-2 rounded-lg shadow"
+                />
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              {!isCorrect && (
+                <button
+                  type="button"
+                  onClick={lookAgain}
+                  className="px-5 py-2 bg-purple-600 hover:bg-purple-700 text-white rounded-lg font-medium"
+                >
+                  Look again
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={nextWord}
+                className={`px-5 py-2 rounded-lg font-medium ${
+                  isCorrect ? 'bg-purple-600 hover:bg-purple-700 text-white' : 'bg-gray-100 hover:bg-gray-200 text-gray-700'
+                }`}
+              >
+                {wordIndex < words.length - 1 ? 'Next word' : 'Finish'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Writing area, used once the word is covered */}
+      <div className="p-2 bg-white bg-opacity-90 shadow-md">
+        <form onSubmit={handleSubmit}>
+          <div className="w-full h-20 flex items-center justify-center bg-blue-50 rounded-xl overflow-hidden">
+            <div className="text-4xl md:text-5xl font-bold text-blue-700 tracking-wide uppercase">
+              {step === 'write' ? userInput : ''}
+              <span className={`inline-block w-1 h-[27px] md:h-[35px] bg-blue-500 ml-1 mt-[3px] ${step === 'write' ? 'animate-cursor-blink' : 'opacity-0'}`}></span>
+            </div>
+          </div>
+          {/* Hidden input for mobile keyboard support */}
+          <input
+            type="text"
+            value={userInput}
+            onChange={(e) => step === 'write' && setUserInput(e.target.value.toLowerCase())}
+            className="sr-only"
+            autoComplete="off"
+            spellCheck="false"
+            autoCapitalize="off"
+          />
+        </form>
+      </div>
+
+      <div className="flex-1 p-1">
+        <AlphaKeyboard onKeyPress={handleKeyPress} disabled={step !== 'write'} />
+      </div>
+    </div>
+  )
+}
+
+export default LookCoverWriteCheck
@@ -0,0 +1,60 @@
+import React from 'react'
+import { MarkdownInline, parseMarkdown } from '../utils/markdown'
+
+type MarkdownViewProps = {
+  markdown: string
+  className?: string
+}
+
+const HEADING_STYLES = [
+  'text-2xl font-bold text-purple-800 mt-4 mb-2',
+  'text-xl font-bold text-purple-700 mt-4 mb-2',
+  'text-lg font-bold text-purple-700 mt-3 mb-1'
+]
+
+const renderInline = (runs: MarkdownInline[]) => runs.map((run, index) => {
+  if (run.code) return <code key={index} className="px-1 bg-purple-50 rounded text-purple-800">{run.text}</code>
+  if (run.bold) return <strong key={index}>{run.text}</strong>
+  if (run.italic) return <em key={index}>{run.text}</em>
+  return <React.Fragment key={index}>{run.text}</React.Fragment>
+})
+
+// Renders Markdown as React elements, never as raw HTML
+const MarkdownView: React.FC<MarkdownViewProps> = ({ markdown, className = '' }) => {
+  return (
+    <div className={`text-gray-800 leading-relaxed ${className}`}>
+      {parseMarkdown(markdown).map((block, index) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${Math.min(block.level + 1, 6)}` as 'h2'
+            return (
+              <Heading key={index} className={HEADING_STYLES[Math.min(block.level, HEADING_STYLES.length) - 1]}>
+                {renderInline(block.content)}
+              </Heading>
+            )
+          }
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul'
+            return (
+              <List key={index} className={`${block.ordered ? 'list-decimal' : 'list-disc'} pl-6 my-2 space-y-1`}>
+                {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInline(item)}</li>)}
+              </List>
+            )
+          }
+          case 'quote':
+            return (
+              <blockquote key={index} className="border-l-4 border-purple-200 pl-3 my-2 italic text-gray-700">
+                {renderInline(block.content)}
+              </blockquote>
+            )
+          case 'rule':
+            return <hr key={index} className="my-4 border-purple-100" />
+          default:
+            return <p key={index} className="my-2">{renderInline(block.content)}</p>
+        }
+      })}
+    </div>
+  )
+}
+
+export default MarkdownView
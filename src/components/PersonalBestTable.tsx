@@ -0,0 +1,43 @@
+import React from 'react'
+import { ChallengeRun } from '../utils/challenge'
+
+type PersonalBestTableProps = {
+  runs: ChallengeRun[] // Already ranked, best first
+  highlightedAt?: number // achievedAt of the run to highlight, e.g. the one just played
+}
+
+const PersonalBestTable: React.FC<PersonalBestTableProps> = ({ runs, highlightedAt }) => {
+  if (runs.length === 0) {
+    return <p className="text-center text-gray-500 italic">No personal bests yet - set the first one!</p>
+  }
+
+  return (
+    <table className="w-full text-left">
+      <thead>
+        <tr className="border-b-2 border-purple-200 text-purple-700 text-sm">
+          <th className="py-1 pr-2">#</th>
+          <th className="py-1 pr-2">Score</th>
+          <th className="py-1 pr-2">Words</th>
+          <th className="py-1 pr-2">Best combo</th>
+          <th className="py-1">Date</th>
+        </tr>
+      </thead>
+      <tbody>
+        {runs.map((run, index) => (
+          <tr
+            key={run.achievedAt}
+            className={`border-b border-purple-100 ${run.achievedAt === highlightedAt ? 'bg-yellow-100 font-bold' : ''}`}
+          >
+            <td className="py-1 pr-2">{index + 1}</td>
+            <td className="py-1 pr-2 text-blue-700 font-bold">{run.score}</td>
+            <td className="py-1 pr-2">{run.correct}/{run.total}</td>
+            <td className="py-1 pr-2">{run.bestStreak} in a row</td>
+            <td className="py-1 text-sm text-gray-600">{new Date(run.achievedAt).toLocaleDateString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+export default PersonalBestTable
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { getAllVoices, ElevenLabsVoice } from '../utils/elevenLabsService'
+import { LearnerProfile, AgeBand, SpellingLocale, AGE_BANDS, DEFAULT_PROFILE } from '../utils/profiles'
+
+type ProfileDialogProps = {
+  isOpen: boolean
+  profile?: LearnerProfile // Profile to edit, or undefined to create a new one
+  onClose: () => void
+  onSave: (profile: LearnerProfile) => void
+}
+
+const ProfileDialog: React.FC<ProfileDialogProps> = ({ isOpen, profile, onClose, onSave }) => {
+  const [name, setName] = useState('')
+  const [ageBand, setAgeBand] = useState<AgeBand>(DEFAULT_PROFILE.ageBand)
+  const [voiceId, setVoiceId] = useState('')
+  const [spellingLocale, setSpellingLocale] = useState<SpellingLocale>(DEFAULT_PROFILE.spellingLocale)
+  const [voices, setVoices] = useState<ElevenLabsVoice[]>([])
+
+  // Fill the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+    setName(profile?.name || '')
+    setAgeBand(profile?.ageBand || DEFAULT_PROFILE.ageBand)
+    setVoiceId(profile?.voiceId || '')
+    setSpellingLocale(profile?.spellingLocale || DEFAULT_PROFILE.spellingLocale)
+  }, [isOpen, profile])
+
+  // Load the available voices once; without an API key only Alice is offered
+  useEffect(() => {
+    if (!isOpen || voices.length > 0) return
+    getAllVoices()
+      .then(setVoices)
+      .catch(() => setVoices([]))
+  }, [isOpen, voices.length])
+
+  const handleSave = () => {
+    onSave({
+      id: profile?.id || uuidv4(),
+      name: name.trim(),
+      ageBand,
+      voiceId: voiceId || undefined,
+      spellingLocale
+    })
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-purple-800">
+              {profile ? 'Edit Learner' : 'Add Learner'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-gray-700 font-medium">Name</span>
+            <input
+              type="text"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="Used in spoken feedback, e.g. Well done, Sam!"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-gray-700 font-medium">Age</span>
+            <select
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg"
+              value={ageBand}
+              onChange={(e) => setAgeBand(e.target.value as AgeBand)}
+            >
+              {AGE_BANDS.map(band => (
+                <option key={band} value={band}>{band} years</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-gray-700 font-medium">Voice</span>
+            <select
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg"
+              value={voiceId}
+              onChange={(e) => setVoiceId(e.target.value)}
+            >
+              <option value="">Alice (default)</option>
+              {voices.map(voice => (
+                <option key={voice.voice_id} value={voice.voice_id}>{voice.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="block">
+            <span className="text-gray-700 font-medium">Spelling</span>
+            <select
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg"
+              value={spellingLocale}
+              onChange={(e) => setSpellingLocale(e.target.value as SpellingLocale)}
+            >
+              <option value="en-GB">UK spelling (colour)</option>
+              <option value="en-US">US spelling (color)</option>
+            </select>
+          </label>
+
+          <div className="flex justify-end space-x-3 pt-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="px-6 py-2 rounded-md text-white font-medium bg-purple-600 hover:bg-purple-700"
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ProfileDialog
@@ -0,0 +1,169 @@
+import React, { useState, useEffect } from 'react'
+import { getSessionsForProfile, SessionRecord } from '../utils/progressStore'
+import { getAccuracyOverTime, getMostMissedWords, getErrorPatternCounts, getStreaks } from '../utils/progressStats'
+import { ERROR_TYPE_LABELS } from '../utils/spellingDiff'
+
+type WordSet = {
+  id: string
+  title: string
+}
+
+type ProgressDashboardProps = {
+  profileId: string
+  wordSets: WordSet[]
+  currentWordSetId: string
+  refreshKey?: number // Bump to reload sessions after a new one is saved
+}
+
+// Only chart the most recent sessions so the bars stay readable
+const MAX_CHART_SESSIONS = 12
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({
+  profileId,
+  wordSets,
+  currentWordSetId,
+  refreshKey = 0
+}) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [selectedSetId, setSelectedSetId] = useState(currentWordSetId)
+
+  useEffect(() => {
+    let isCancelled = false
+    setIsLoading(true)
+    getSessionsForProfile(profileId).then(loaded => {
+      if (!isCancelled) {
+        setSessions(loaded)
+        setIsLoading(false)
+      }
+    })
+    return () => {
+      isCancelled = true
+    }
+  }, [profileId, refreshKey])
+
+  useEffect(() => {
+    setSelectedSetId(currentWordSetId)
+  }, [currentWordSetId])
+
+  if (isLoading) {
+    return <p className="text-center text-gray-500 mt-8">Loading progress...</p>
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <div className="max-w-4xl mx-auto text-center mt-8">
+        <h2 className="text-2xl font-bold text-purple-700 mb-2">No practice yet</h2>
+        <p className="text-gray-600">Finish a practice session and your progress will appear here.</p>
+      </div>
+    )
+  }
+
+  const accuracy = getAccuracyOverTime(sessions, selectedSetId).slice(-MAX_CHART_SESSIONS)
+  const selectedSetSessions = sessions.filter(session => session.wordSetId === selectedSetId)
+  const missedWords = getMostMissedWords(selectedSetSessions)
+  const errorPatterns = getErrorPatternCounts(selectedSetSessions)
+  const streaks = getStreaks(sessions)
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      {/* Streaks */}
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-3xl font-bold text-purple-600">{streaks.currentDayStreak}</div>
+          <div className="text-sm text-gray-600">day streak</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-3xl font-bold text-blue-600">{streaks.longestDayStreak}</div>
+          <div className="text-sm text-gray-600">longest day streak</div>
+        </div>
+        <div className="bg-white rounded-lg shadow p-4 text-center">
+          <div className="text-3xl font-bold text-green-600">{streaks.longestCorrectStreak}</div>
+          <div className="text-sm text-gray-600">words right in a row</div>
+        </div>
+      </div>
+
+      {/* Word set picker */}
+      <div className="flex items-center space-x-2">
+        <span className="font-medium text-gray-700">Word set:</span>
+        <select
+          className="p-2 border border-gray-300 rounded-lg"
+          value={selectedSetId}
+          onChange={(e) => setSelectedSetId(e.target.value)}
+        >
+          {wordSets.map(set => (
+            <option key={set.id} value={set.id}>{set.title}</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Accuracy over time */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="text-xl font-bold text-purple-700 mb-4">Accuracy over time</h3>
+        {accuracy.length === 0 ? (
+          <p className="text-gray-500">No sessions for this word set yet.</p>
+        ) : (
+          <div className="flex items-end h-48 space-x-2">
+            {accuracy.map(point => (
+              <div key={point.sessionId} className="flex-1 flex flex-col items-center justify-end h-full">
+                <span className="text-xs text-gray-600 mb-1">{Math.round(point.accuracy * 100)}%</span>
+                <div
+                  className="w-full bg-gradient-to-t from-purple-500 to-blue-400 rounded-t"
+                  style={{ height: `${Math.max(point.accuracy * 100, 2)}%` }}
+                  title={`${point.correct} of ${point.total} correct`}
+                />
+                <span className="text-xs text-gray-500 mt-1">
+                  {new Date(point.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Most-missed words */}
+      <div className="bg-white rounded-lg shadow p-4">
+        <h3 className="text-xl font-bold text-purple-700 mb-4">Most-missed words</h3>
+        {missedWords.length === 0 ? (
+          <p className="text-gray-500">No missed words - brilliant!</p>
+        ) : (
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-sm text-gray-500 border-b">
+                <th className="py-2">Word</th>
+                <th className="py-2">Missed</th>
+                <th className="py-2">Attempts</th>
+              </tr>
+            </thead>
+            <tbody>
+              {missedWords.map(entry => (
+                <tr key={entry.word} className="border-b last:border-b-0">
+                  <td className="py-2 font-bold">{entry.word}</td>
+                  <td className="py-2 text-red-600">{entry.misses}</td>
+                  <td className="py-2 text-gray-600">{entry.attempts}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Kinds of mistake */}
+      {errorPatterns.length > 0 && (
+        <div className="bg-white rounded-lg shadow p-4">
+          <h3 className="text-xl font-bold text-purple-700 mb-4">Tricky patterns</h3>
+          <ul className="space-y-2">
+            {errorPatterns.map(pattern => (
+              <li key={pattern.errorType} className="flex justify-between">
+                <span className="text-gray-700">{ERROR_TYPE_LABELS[pattern.errorType]}</span>
+                <span className="font-bold text-red-600">{pattern.count}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProgressDashboard
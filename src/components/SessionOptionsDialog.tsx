@@ -0,0 +1,226 @@
+import React, { useState } from 'react'
+import { ReviewRecords } from '../utils/reviewScheduler'
+import {
+  SessionOptions,
+  MIN_DIFFICULTY,
+  MAX_DIFFICULTY,
+  buildSessionWords
+} from '../utils/sessionOptions'
+
+type WordSet = {
+  id: string
+  title: string
+  words: Array<{
+    word: string
+    difficulty: number
+  }>
+}
+
+type SessionOptionsDialogProps = {
+  isOpen: boolean
+  wordSets: WordSet[]
+  currentWordSetId: string
+  options: SessionOptions // The learner's last-used options
+  reviewRecords: ReviewRecords
+  onClose: () => void
+  onStart: (options: SessionOptions) => void
+}
+
+const DIFFICULTY_LABELS: Record<number, string> = {
+  1: 'Easy',
+  2: 'Medium',
+  3: 'Hard'
+}
+
+const WORD_LIMITS = [5, 10, 15, 20]
+
+const SessionOptionsDialog: React.FC<SessionOptionsDialogProps> = ({
+  isOpen,
+  wordSets,
+  currentWordSetId,
+  options,
+  reviewRecords,
+  onClose,
+  onStart
+}) => {
+  // Start from the saved options. The saved mix of sets is only kept if it
+  // includes the set the learner has open now.
+  const initialDraft = (): SessionOptions => {
+    const savedIds = options.wordSetIds.filter(id => wordSets.some(set => set.id === id))
+    return {
+      ...options,
+      wordSetIds: savedIds.includes(currentWordSetId) ? savedIds : [currentWordSetId]
+    }
+  }
+  const [draft, setDraft] = useState<SessionOptions>(initialDraft)
+
+  const handleClose = () => {
+    setDraft(initialDraft())
+    onClose()
+  }
+
+  const updateDraft = (changes: Partial<SessionOptions>) => {
+    setDraft(prev => ({ ...prev, ...changes }))
+  }
+
+  const toggleSet = (id: string) => {
+    updateDraft({
+      wordSetIds: draft.wordSetIds.includes(id)
+        ? draft.wordSetIds.filter(setId => setId !== id)
+        : [...draft.wordSetIds, id]
+    })
+  }
+
+  if (!isOpen) return null
+
+  const selectedSets = wordSets.filter(set => draft.wordSetIds.includes(set.id))
+  const sessionWordCount = buildSessionWords(selectedSets, draft, reviewRecords).length
+  const difficulties = Array.from({ length: MAX_DIFFICULTY - MIN_DIFFICULTY + 1 }, (_, index) => MIN_DIFFICULTY + index)
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg max-h-full flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-purple-800">
+              Practice Options
+            </h2>
+            <button
+              onClick={handleClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <span className="block font-medium text-gray-700 mb-2">Word sets</span>
+            <ul className="max-h-40 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+              {wordSets.map(set => (
+                <li key={set.id}>
+                  <label className="flex items-center px-3 py-2 hover:bg-purple-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={draft.wordSetIds.includes(set.id)}
+                      onChange={() => toggleSet(set.id)}
+                      className="mr-3 h-4 w-4 text-purple-600"
+                    />
+                    <span className="flex-grow">{set.title}</span>
+                    <span className="text-sm text-gray-500">{set.words.length} words</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <span className="block font-medium text-gray-700 mb-2">Difficulty</span>
+            <div className="flex items-center space-x-2">
+              <select
+                className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                value={draft.minDifficulty}
+                onChange={(e) => {
+                  const minDifficulty = Number(e.target.value)
+                  updateDraft({ minDifficulty, maxDifficulty: Math.max(minDifficulty, draft.maxDifficulty) })
+                }}
+                aria-label="Easiest words"
+              >
+                {difficulties.map(level => (
+                  <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                ))}
+              </select>
+              <span className="text-gray-500">to</span>
+              <select
+                className="flex-1 p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                value={draft.maxDifficulty}
+                onChange={(e) => {
+                  const maxDifficulty = Number(e.target.value)
+                  updateDraft({ maxDifficulty, minDifficulty: Math.min(maxDifficulty, draft.minDifficulty) })
+                }}
+                aria-label="Hardest words"
+              >
+                {difficulties.map(level => (
+                  <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <span className="block font-medium text-gray-700 mb-2">Words per session</span>
+            <div className="flex space-x-2">
+              {[null, ...WORD_LIMITS].map(limit => (
+                <button
+                  key={limit ?? 'all'}
+                  onClick={() => updateDraft({ maxWords: limit })}
+                  className={`flex-1 px-3 py-2 rounded-md border ${
+                    draft.maxWords === limit
+                      ? 'bg-purple-600 text-white border-purple-600'
+                      : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {limit ?? 'All'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.shuffle}
+              onChange={(e) => updateDraft({ shuffle: e.target.checked })}
+              className="mr-3 h-4 w-4 text-purple-600"
+            />
+            <span className="text-gray-700">Shuffle the words</span>
+          </label>
+
+          <label className="block">
+            <span className="font-medium text-gray-700">Retry missed words</span>
+            <select
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              value={draft.maxRetryRounds}
+              onChange={(e) => updateDraft({ maxRetryRounds: Number(e.target.value) })}
+            >
+              <option value={0}>Don't retry</option>
+              <option value={1}>Once</option>
+              <option value={2}>Up to twice</option>
+              <option value={3}>Up to three times</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-between items-center">
+          <span className="text-sm text-gray-600">
+            {sessionWordCount === 1 ? '1 word' : `${sessionWordCount} words`} in this session
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={handleClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onStart(draft)}
+              disabled={sessionWordCount === 0}
+              className={`px-6 py-2 rounded-md text-white font-medium ${
+                sessionWordCount === 0
+                  ? 'bg-purple-400 cursor-not-allowed'
+                  : 'bg-purple-600 hover:bg-purple-700'
+              }`}
+            >
+              Start Practice
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SessionOptionsDialog
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { renderToStaticMarkup } from 'react-dom/server'
+import SpellingDiffDisplay from './SpellingDiffDisplay'
+import { alignSpelling } from '../utils/spellingDiff'
+
+// The letters shown in each row, in order
+const renderRows = (expected: string, typed: string) => {
+  const markup = renderToStaticMarkup(<SpellingDiffDisplay operations={alignSpelling(expected, typed).operations} />)
+  const rows = markup.match(/<div class="flex"[^>]*>.*?<\/div>/g) || []
+  return rows.map(row => Array.from(row.matchAll(/<span[^>]*>([^<]*)<\/span>/g), match => match[1]))
+}
+
+describe('SpellingDiffDisplay', () => {
+  it('keeps the rows lined up when a letter was added', () => {
+    const [typedRow, correctRow] = renderRows('happy', 'happpy')
+
+    expect(typedRow).toEqual(['h', 'a', 'p', 'p', 'p', 'y'])
+    expect(correctRow).toEqual(['h', 'a', '_', 'p', 'p', 'y'])
+  })
+
+  it('keeps the rows lined up when a letter was left out', () => {
+    const [typedRow, correctRow] = renderRows('system', 'sytem')
+
+    expect(typedRow).toEqual(['s', 'y', '_', 't', 'e', 'm'])
+    expect(correctRow).toEqual(['s', 'y', 's', 't', 'e', 'm'])
+  })
+})
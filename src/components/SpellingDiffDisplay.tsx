@@ -0,0 +1,50 @@
+import React from 'react'
+import { DiffOperation } from '../utils/spellingDiff'
+
+type SpellingDiffDisplayProps = {
+  operations: DiffOperation[]
+  className?: string
+}
+
+// Shows the typed word above the correct word, with the letters that
+// differ highlighted in both rows
+const SpellingDiffDisplay: React.FC<SpellingDiffDisplayProps> = ({ operations, className = '' }) => {
+  return (
+    <div className={`inline-flex flex-col items-center font-bold uppercase tracking-wide ${className}`}>
+      {/* What the learner typed */}
+      <div className="flex" aria-label="Your spelling">
+        {operations.map((operation, index) => {
+          switch (operation.type) {
+            case 'match':
+              return <span key={index}>{operation.typed}</span>
+            case 'substitute':
+              return <span key={index} className="bg-red-200 text-red-800 rounded px-0.5">{operation.typed}</span>
+            case 'insert':
+              return <span key={index} className="bg-red-200 text-red-800 rounded px-0.5 line-through">{operation.typed}</span>
+            case 'delete':
+              return <span key={index} className="text-amber-300 px-0.5">_</span>
+            case 'transpose':
+              return <span key={index} className="bg-orange-200 text-orange-800 rounded px-0.5">{operation.typed}</span>
+          }
+        })}
+      </div>
+
+      {/* The correct spelling */}
+      <div className="flex" aria-label="Correct spelling">
+        {operations.map((operation, index) => {
+          switch (operation.type) {
+            case 'match':
+              return <span key={index}>{operation.expected}</span>
+            case 'insert':
+              // Nothing belongs here, but keep the gap so the rows line up
+              return <span key={index} className="text-gray-300 px-0.5">_</span>
+            default:
+              return <span key={index} className="bg-green-200 text-green-800 rounded px-0.5">{operation.expected}</span>
+          }
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default SpellingDiffDisplay
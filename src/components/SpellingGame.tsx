@@ -1,5 +1,43 @@
-import React, { useState, useEffect } from 'react'
-import { pronounceWord, pronounceSpelling } from '../utils/elevenLabsService'
+import React, { useState, useEffect, useRef } from 'react'
+import { pronounceWord, pronounceSpelling, pronounceLetterByLetter, pronouncePhoneticBreakdown, pronounceDictation, pronounceSentence } from '../utils/elevenLabsService'
+import { generateDictationSentences, isGeminiAvailable } from '../utils/geminiService'
+import { pickFeedbackMessage } from '../utils/feedbackMessages'
+import { AttemptRecord, SessionMode, SessionResult } from '../utils/progressStore'
+import { diagnoseSpelling, SpellingDiagnosis } from '../utils/spellingDiff'
+import { maskDefinitionLeaks } from '../utils/definitionLeaks'
+import { AnswerCheck, checkSpelling, getRequiredSpelling } from '../utils/spellingVariants'
+import { SpellingLocale } from '../utils/profiles'
+import {
+  HintKind,
+  HINT_COSTS,
+  LETTER_BY_LETTER_HINT_LENGTH,
+  calculateWordPoints,
+  getNextRevealPosition,
+  getPatternRevealPositions
+} from '../utils/hints'
+import { getWordPatternSpans } from '../utils/graphemePatterns'
+import { CLOZE_BLANK, ClozeSentence, prepareClozeSentences } from '../utils/cloze'
+import { Lesson } from '../utils/lesson'
+import { TestAnswer, shuffle } from '../utils/spellingTest'
+import {
+  DEFAULT_MAX_RETRY_ROUNDS,
+  RETRY_ROUND_COUNTDOWN_SECONDS,
+  getMissedWords,
+  summariseRounds
+} from '../utils/retryRounds'
+import {
+  ChallengeRun,
+  ChallengeTimer,
+  SECONDS_PER_WORD,
+  calculateChallengePoints,
+  getBestRuns,
+  getComboMultiplier,
+  getTimeLimit
+} from '../utils/challenge'
+import SpellingDiffDisplay from './SpellingDiffDisplay'
+import SpellingTestResults from './SpellingTestResults'
+import ChallengeResults from './ChallengeResults'
+import PersonalBestTable from './PersonalBestTable'
 import AlphaKeyboard from './AlphaKeyboard'
 
 type Word = {
@@ -7,39 +45,154 @@ type Word = {
   definition: string
   rule: string
   difficulty: number
+  phonetic?: string
+  variants?: string[] // Other accepted spellings, e.g. "color" for "colour"
+  pattern?: string // Letters that carry the word's spelling rule
+  sentence?: string // A sentence using the word, written by an adult for sentence practice
+  wordSetId?: string // Set the word came from when practising a due-queue
 }
 
 type SpellingGameProps = {
   words: Word[]
   onGameComplete?: () => void // Add callback for game completion
+  onAttempt?: (word: Word, correct: boolean, timeTakenMs: number) => void // Called once per answered word
+  learnerName?: string // Active profile's name used in feedback
+  onSessionComplete?: (session: SessionResult) => void // Called with every attempt once the last word is done
+  spellingLocale?: SpellingLocale // Decides which of a word's UK/US spellings is required
+  mode?: SessionMode // 'test' reads words as dictation and marks them together at the end; 'challenge' races a clock
+  title?: string // Word set title, printed on the test results sheet
+  maxRetryRounds?: number // Rounds of missed words practised again after the first pass
+  personalBests?: ChallengeRun[] // The set's saved challenge runs
+  onChallengeComplete?: (run: ChallengeRun) => void // Called when a challenge ends, to save the run
+  lesson?: Lesson // The set's lesson, whose example sentences sentence practice can use
 }
 
 const SpellingGame: React.FC<SpellingGameProps> = ({ 
-  words,
-  onGameComplete = () => {} // Default no-op function
+  words: givenWords,
+  onGameComplete = () => {}, // Default no-op function
+  onAttempt = () => {},
+  learnerName = '',
+  onSessionComplete = () => {},
+  spellingLocale = 'en-GB',
+  mode = 'practice',
+  title = '',
+  maxRetryRounds = DEFAULT_MAX_RETRY_ROUNDS,
+  personalBests = [],
+  onChallengeComplete = () => {},
+  lesson
 }) => {
+  const isTest = mode === 'test'
+  const isChallenge = mode === 'challenge'
+  const isCloze = mode === 'cloze'
+  // Sentence practice plays like everyday practice, with each word read in a sentence
+  const isPractice = mode === 'practice' || isCloze
+  // Tests and challenges use a shuffled order, fixed until they are played again
+  const [shuffledOrder, setShuffledOrder] = useState(() => shuffle(givenWords))
+  // 0 for the first pass, then 1, 2... for each round of missed words
+  const [round, setRound] = useState(0)
+  const [retryWords, setRetryWords] = useState<Word[]>([])
+  // Seconds until the next round starts, counting down while the missed words are shown
+  const [retryCountdown, setRetryCountdown] = useState<number | null>(null)
+  const words = isTest || isChallenge ? shuffledOrder : round > 0 ? retryWords : givenWords
+  // Answers collected without feedback during a test, marked on the results sheet
+  const [testAnswers, setTestAnswers] = useState<TestAnswer[]>([])
+  // Sentences read between the two readings of each test word, keyed by lower-case spelling
+  const [testSentences, setTestSentences] = useState<Record<string, string>>({})
+  const [isPreparingTest, setIsPreparingTest] = useState(isTest && isGeminiAvailable())
+  // Sentences read in sentence practice, keyed by lower-case word; words without one are read on their own
+  const [clozeSentences, setClozeSentences] = useState<Record<string, ClozeSentence>>({})
+  const [isPreparingSentences, setIsPreparingSentences] = useState(isCloze)
+  // A challenge waits on its start screen until the learner picks a timer
+  const [hasStarted, setHasStarted] = useState(!isChallenge)
+  const [challengeTimer, setChallengeTimer] = useState<ChallengeTimer>('word')
+  // Seconds left on the challenge clock, for the word or the whole set
+  const [timeLeft, setTimeLeft] = useState<number | null>(null)
+  // Correct answers in a row, which build the points multiplier
+  const [streak, setStreak] = useState(0)
+  const [bestStreak, setBestStreak] = useState(0)
+  const [challengeRun, setChallengeRun] = useState<ChallengeRun | null>(null)
+  // Personal bests as they were before this run, to compare the run against
+  const runsBeforeRef = useRef<ChallengeRun[]>([])
   const [currentWordIndex, setCurrentWordIndex] = useState(0)
   const [userInput, setUserInput] = useState('')
   const [gameState, setGameState] = useState<'playing' | 'correct' | 'incorrect'>('playing')
+  // Positions of the current word revealed by the reveal-letter and pattern hints
   const [hints, setHints] = useState<boolean[]>([])
+  // Every hint used on the current word, in order
+  const [hintsUsed, setHintsUsed] = useState<HintKind[]>([])
+  const [showRule, setShowRule] = useState(false)
   const [score, setScore] = useState(0)
+  // Points reward correct words, less for each hint used
+  const [points, setPoints] = useState(0)
   const [gameCompleted, setGameCompleted] = useState(false)
   const [isAnimating, setIsAnimating] = useState(false)
   const [confetti, setConfetti] = useState(false)
   const [nextWordCountdown, setNextWordCountdown] = useState<number | null>(null)
   const [showToast, setShowToast] = useState(false)
   const [isWrongToast, setIsWrongToast] = useState(false)
+  const [feedbackMessage, setFeedbackMessage] = useState('')
+  // Letter-level comparison of the last wrong answer, shown in the toast
+  const [diagnosis, setDiagnosis] = useState<SpellingDiagnosis | null>(null)
+  // Shown when the answer was accepted in another spelling, e.g. the US one
+  const [variantNote, setVariantNote] = useState('')
+  // When the current word was first shown, used to time each attempt
+  const wordStartTimeRef = useRef(Date.now())
+  // Attempts made this session - a ref so delayed callbacks see the latest list
+  const attemptsRef = useRef<AttemptRecord[]>([])
+  const sessionStartTimeRef = useRef(Date.now())
+
+  // The spelling the learner must type for a word in their locale
+  const spellingOf = (word: Word) => getRequiredSpelling(word, spellingLocale)
+  // Where the word's pattern letters are in the spelling being practised
+  const patternSpansOf = (word: Word, spelling: string = spellingOf(word)) => getWordPatternSpans(word, spelling)
+
+  // Fetch the dictation sentences before the first word is read; without them
+  // each word is simply read twice
+  useEffect(() => {
+    if (!isPreparingTest) return
+    generateDictationSentences(givenWords.map(word => getRequiredSpelling(word, spellingLocale)), spellingLocale)
+      .then(setTestSentences)
+      .catch(error => console.error('Error preparing test sentences:', error))
+      .finally(() => setIsPreparingTest(false))
+  }, [isPreparingTest, givenWords, spellingLocale])
+
+  // Find a sentence for each word before sentence practice starts
+  useEffect(() => {
+    if (!isPreparingSentences) return
+    prepareClozeSentences(givenWords, lesson, spellingLocale)
+      .then(setClozeSentences)
+      .catch(error => console.error('Error preparing sentences:', error))
+      .finally(() => setIsPreparingSentences(false))
+  }, [isPreparingSentences, givenWords, lesson, spellingLocale])
 
   // Reset hints when moving to a new word
   useEffect(() => {
+    if (isPreparingTest || isPreparingSentences || !hasStarted) return
     if (words[currentWordIndex]) {
-      const wordLength = words[currentWordIndex].word.length
+      const spelling = getRequiredSpelling(words[currentWordIndex], spellingLocale)
+      const wordLength = spelling.length
       setHints(Array(wordLength).fill(false))
+      setHintsUsed([])
+      setShowRule(false)
+      wordStartTimeRef.current = Date.now()
+      if (isChallenge && challengeTimer === 'word') {
+        setTimeLeft(SECONDS_PER_WORD)
+      }
       
-      // Pronounce the word automatically when a new word is loaded
-      pronounceWord(words[currentWordIndex].word)
+      // Pronounce the word automatically when a new word is loaded - a test
+      // reads it dictation-style instead, and sentence practice reads its sentence
+      const clozeSentence = isCloze ? clozeSentences[words[currentWordIndex].word.toLowerCase()] : undefined
+      if (isTest) {
+        pronounceDictation(spelling, testSentences[spelling])
+          .catch(error => console.error('Error reading dictation:', error))
+      } else if (clozeSentence) {
+        pronounceSentence(clozeSentence.sentence)
+          .catch(error => console.error('Error reading sentence:', error))
+      } else {
+        pronounceWord(words[currentWordIndex].word)
+      }
     }
-  }, [currentWordIndex, words])
+  }, [currentWordIndex, words, spellingLocale, isPreparingTest, isPreparingSentences, hasStarted, isTest, testSentences, isCloze, clozeSentences, isChallenge, challengeTimer])
 
   // Countdown timer effect
   useEffect(() => {
@@ -57,6 +210,41 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
     }
   }, [nextWordCountdown])
 
+  // Challenge clock - it only runs while the learner is answering, not during feedback
+  const timeUpRef = useRef(() => {})
+  useEffect(() => {
+    if (timeLeft === null || gameState !== 'playing') return
+    if (timeLeft <= 0) {
+      timeUpRef.current()
+      return
+    }
+    const timer = setTimeout(() => setTimeLeft(timeLeft - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [timeLeft, gameState])
+
+  // Between rounds, count down then start the round of missed words
+  useEffect(() => {
+    if (retryCountdown !== null && retryCountdown > 0) {
+      const timer = setTimeout(() => {
+        setRetryCountdown(retryCountdown - 1)
+      }, 1000)
+      
+      return () => clearTimeout(timer)
+    }
+    
+    if (retryCountdown === 0) {
+      // The new word list makes the effect above read the first missed word
+      setRetryCountdown(null)
+      setRound(prev => prev + 1)
+      setCurrentWordIndex(0)
+      setUserInput('')
+      setGameState('playing')
+      setShowToast(false)
+      setIsWrongToast(false)
+      setScore(0)
+    }
+  }, [retryCountdown])
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (gameState === 'playing') {
       setUserInput(e.target.value.toLowerCase())
@@ -83,45 +271,75 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
   }
 
   const handlePronounce = async () => {
-    if (words[currentWordIndex]) {
-      await pronounceWord(words[currentWordIndex].word)
+    const word = words[currentWordIndex]
+    if (!word) return
+    const clozeSentence = isCloze ? clozeSentences[word.word.toLowerCase()] : undefined
+    try {
+      if (isTest) {
+        const spelling = spellingOf(word)
+        await pronounceDictation(spelling, testSentences[spelling])
+      } else if (clozeSentence) {
+        await pronounceSentence(clozeSentence.sentence)
+      } else {
+        await pronounceWord(word.word)
+      }
+    } catch (error) {
+      console.error('Error pronouncing word:', error)
+    }
+  }
+  
+  const handleHint = async (hint: HintKind) => {
+    if (gameState !== 'playing') return
+    const word = words[currentWordIndex]
+    
+    try {
+      switch (hint) {
+        case 'reveal-letter': {
+          const position = getNextRevealPosition(spellingOf(word), userInput, hints)
+          if (position === null) return
+          setHints(prev => prev.map((revealed, index) => revealed || index === position))
+          // Revealed letters show ahead of the cursor, so take the input back to
+          // a mistyped letter for it to show in its place
+          setUserInput(prev => prev.slice(0, position))
+          break
+        }
+        case 'pattern': {
+          const positions = getPatternRevealPositions(spellingOf(word), userInput, hints, patternSpansOf(word))
+          if (positions.length === 0) return
+          setHints(prev => prev.map((revealed, index) => revealed || positions.includes(index)))
+          setUserInput(prev => prev.slice(0, Math.min(...positions)))
+          break
+        }
+        case 'rule':
+          if (showRule) return
+          setShowRule(true)
+          break
+        case 'phonetic':
+          if (!word.phonetic) return
+          setHintsUsed(prev => [...prev, hint])
+          await pronouncePhoneticBreakdown(word.phonetic)
+          return
+        case 'letter-by-letter':
+          setHintsUsed(prev => [...prev, hint])
+          await pronounceLetterByLetter(spellingOf(word).slice(0, LETTER_BY_LETTER_HINT_LENGTH))
+          return
+      }
+      setHintsUsed(prev => [...prev, hint])
+    } catch (error) {
+      console.error('Error playing hint:', error)
     }
   }
   
   // Function to speak encouraging messages
-  const speakFeedback = async (isCorrect: boolean) => {
+  const speakFeedback = async (isCorrect: boolean, message: string) => {
     try {
       // Reduced delay before speaking feedback
       await new Promise(resolve => setTimeout(resolve, 200))
       
-      const currentWord = words[currentWordIndex].word
+      const currentWord = spellingOf(words[currentWordIndex])
       
       if (isCorrect) {
-        // 20 different congratulatory messages for Chloe
-        const messages = [
-          `Well done, Chloe!`,
-          `Great job, Chloe!`,
-          `Perfect, Chloe!`,
-          `Excellent, Chloe!`,
-          `That's right, Chloe!`,
-          `Amazing spelling, Chloe!`,
-          `Wonderful job, Chloe!`,
-          `You're doing great, Chloe!`,
-          `Fantastic spelling, Chloe!`,
-          `Brilliant work, Chloe!`,
-          `Super job, Chloe!`,
-          `You're a spelling star, Chloe!`,
-          `Magnificent, Chloe!`,
-          `Spectacular spelling, Chloe!`,
-          `You've got it, Chloe!`,
-          `You're so clever, Chloe!`,
-          `Terrific job, Chloe!`,
-          `You're getting so good at this, Chloe!`,
-          `Keep up the great work, Chloe!`,
-          `You're making wonderful progress, Chloe!`
-        ]
-        const message = messages[Math.floor(Math.random() * messages.length)]
-        // Simply call pronounceWord which will use Alice's voice
+        // Simply call pronounceWord which will use the learner's voice
         await pronounceWord(message)
         
         // Move to next word after a short delay to hear the feedback
@@ -129,23 +347,8 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
           moveToNextWord()
         }, 1500)
       } else {
-        // Variety of encouraging messages for incorrect answers
-        const messages = [
-          `Try again Chloe`,
-          `Not quite Chloe`,
-          `Almost Chloe`,
-          `Keep trying Chloe`,
-          `Don't worry Chloe`,
-          `That was a tricky one Chloe`,
-          `Nice effort Chloe`,
-          `Let's try another one Chloe`,
-          `You'll get it next time Chloe`,
-          `Let me help you Chloe`
-        ]
-        
         // Use two separate pronounceWord calls - first for the feedback message,
         // then for the correct spelling after a short pause
-        const message = messages[Math.floor(Math.random() * messages.length)]
         await pronounceWord(message)
         
         // Add a small pause before saying the correct word
@@ -160,20 +363,58 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
   }
 
   const checkAnswer = () => {
-    const currentWord = words[currentWordIndex].word.toLowerCase()
-    const isCorrect = userInput.toLowerCase() === currentWord
+    const answerCheck = checkSpelling(words[currentWordIndex], userInput, spellingLocale)
+    if (isTest) {
+      recordTestAnswer(answerCheck)
+      return
+    }
+    if (isChallenge) {
+      recordChallengeAnswer(answerCheck)
+      return
+    }
+    const currentWord = answerCheck.expected
+    // The other locale's spelling, or an alternative listed on the word, still counts
+    const isCorrect = answerCheck.result !== 'incorrect'
+    setVariantNote(answerCheck.note || '')
+
+    const timeTakenMs = Date.now() - wordStartTimeRef.current
+    const wrongAnswerDiagnosis = isCorrect
+      ? null
+      : diagnoseSpelling(currentWord, userInput, patternSpansOf(words[currentWordIndex], currentWord))
+    setDiagnosis(wrongAnswerDiagnosis)
+    // Only the first pass goes to the review scheduler; a retry straight after
+    // seeing the answer doesn't show the word has been learned
+    if (round === 0) {
+      onAttempt(words[currentWordIndex], isCorrect, timeTakenMs)
+    }
+    attemptsRef.current = [...attemptsRef.current, {
+      word: words[currentWordIndex].word,
+      wordSetId: words[currentWordIndex].wordSetId,
+      typedAnswer: userInput,
+      correct: isCorrect,
+      hintsUsed: hintsUsed.length,
+      hintTypes: hintsUsed,
+      timeTakenMs,
+      errorTypes: wrongAnswerDiagnosis?.errorTypes,
+      round: round > 0 ? round : undefined
+    }]
+
+    // The same message is spoken and shown in the toast
+    const message = pickFeedbackMessage(isCorrect, learnerName)
+    setFeedbackMessage(message)
 
     if (isCorrect) {
       playSuccessSound()
       setConfetti(true)
       setScore(prev => prev + 1)
+      setPoints(prev => prev + calculateWordPoints(hintsUsed))
       setGameState('correct')
       setShowToast(true)
       setIsWrongToast(false)
       
       // Provide voice feedback for correct answer
       // moveToNextWord call is now handled in speakFeedback for correct answers
-      speakFeedback(true)
+      speakFeedback(true, message)
       
       // Hide confetti after a few seconds
       setTimeout(() => {
@@ -186,18 +427,138 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
       setIsWrongToast(true)
       
       // Provide voice feedback for incorrect answer
-      speakFeedback(false)
-      
-      // Hide toast after 3 seconds - shorter duration
-      setTimeout(() => {
-        setShowToast(false)
-      }, 3000)
+      // The toast stays up until the next word so the comparison can be read
+      speakFeedback(false, message)
     }
 
     setIsAnimating(true)
     setTimeout(() => setIsAnimating(false), 300)
   }
 
+  // Log an answer to the current word in a mode without hints
+  const recordUnaidedAttempt = (answerCheck: AnswerCheck) => {
+    const word = words[currentWordIndex]
+    const isCorrect = answerCheck.result !== 'incorrect'
+    const timeTakenMs = Date.now() - wordStartTimeRef.current
+    onAttempt(word, isCorrect, timeTakenMs)
+    attemptsRef.current = [...attemptsRef.current, {
+      word: word.word,
+      wordSetId: word.wordSetId,
+      typedAnswer: userInput,
+      correct: isCorrect,
+      hintsUsed: 0,
+      hintTypes: [],
+      timeTakenMs,
+      errorTypes: isCorrect
+        ? undefined
+        : diagnoseSpelling(answerCheck.expected, userInput, patternSpansOf(word, answerCheck.expected)).errorTypes
+    }]
+    return isCorrect
+  }
+
+  // Store a test answer and go straight on; nothing is marked until the end
+  const recordTestAnswer = (answerCheck: AnswerCheck) => {
+    const word = words[currentWordIndex]
+    const isCorrect = recordUnaidedAttempt(answerCheck)
+    setTestAnswers(prev => [...prev, {
+      word: word.word,
+      expected: answerCheck.expected,
+      typed: userInput.trim(),
+      result: answerCheck.result,
+      note: answerCheck.note
+    }])
+    if (isCorrect) setScore(prev => prev + 1)
+    moveToNextWord()
+  }
+
+  // Mark a challenge answer with quick feedback, then move on by itself so the
+  // clock keeps the pace up
+  const recordChallengeAnswer = (answerCheck: AnswerCheck) => {
+    const isCorrect = recordUnaidedAttempt(answerCheck)
+    setVariantNote(answerCheck.note || '')
+    setShowToast(true)
+    setIsWrongToast(!isCorrect)
+
+    if (isCorrect) {
+      const newStreak = streak + 1
+      const wordPoints = calculateChallengePoints(newStreak)
+      setStreak(newStreak)
+      setBestStreak(prev => Math.max(prev, newStreak))
+      setScore(prev => prev + wordPoints)
+      setFeedbackMessage(getComboMultiplier(newStreak) > 1
+        ? `+${wordPoints} points - combo x${getComboMultiplier(newStreak)}!`
+        : `+${wordPoints} points`)
+      setDiagnosis(null)
+      playSuccessSound()
+      setGameState('correct')
+      setNextWordCountdown(1)
+    } else {
+      setStreak(0)
+      setFeedbackMessage(streak >= 3 ? `Combo of ${streak} lost!` : 'Not quite!')
+      setDiagnosis(diagnoseSpelling(
+        answerCheck.expected,
+        userInput,
+        patternSpansOf(words[currentWordIndex], answerCheck.expected)
+      ))
+      playErrorSound()
+      setGameState('incorrect')
+      setNextWordCountdown(2)
+    }
+  }
+
+  // The challenge clock ran out - on the word timer the word counts as missed,
+  // on the whole-set timer the challenge is over
+  const handleTimeUp = () => {
+    if (challengeTimer === 'session') {
+      finishChallenge()
+      return
+    }
+    recordUnaidedAttempt({ result: 'incorrect', expected: spellingOf(words[currentWordIndex]) })
+    setStreak(0)
+    setFeedbackMessage("Time's up!")
+    setDiagnosis(null)
+    setVariantNote('')
+    playErrorSound()
+    setGameState('incorrect')
+    setShowToast(true)
+    setIsWrongToast(true)
+    setNextWordCountdown(2)
+  }
+  timeUpRef.current = handleTimeUp
+
+  // End a challenge and save the run
+  const finishChallenge = () => {
+    const run: ChallengeRun = {
+      timer: challengeTimer,
+      score,
+      correct: attemptsRef.current.filter(attempt => attempt.correct).length,
+      total: words.length,
+      bestStreak,
+      achievedAt: Date.now()
+    }
+    setTimeLeft(null)
+    setNextWordCountdown(null)
+    setChallengeRun(run)
+    setGameCompleted(true)
+    onSessionComplete({
+      startedAt: sessionStartTimeRef.current,
+      endedAt: run.achievedAt,
+      attempts: attemptsRef.current,
+      mode
+    })
+    onChallengeComplete(run)
+  }
+
+  const startChallenge = () => {
+    runsBeforeRef.current = personalBests
+    sessionStartTimeRef.current = Date.now()
+    if (challengeTimer === 'session') {
+      setTimeLeft(getTimeLimit('session', words.length))
+    }
+    // The effect above reads the first word and starts a word timer
+    setHasStarted(true)
+  }
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     if (gameState === 'playing' && userInput.trim()) {
@@ -208,7 +569,14 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
   }
 
   const moveToNextWord = () => {
+    // A key press can skip ahead of a challenge's automatic move
+    setNextWordCountdown(null)
     if (currentWordIndex < words.length - 1) {
+      // The next word's clock only starts once the word has loaded, so the
+      // last word's spent clock can't run out on it
+      if (isChallenge && challengeTimer === 'word') {
+        setTimeLeft(null)
+      }
       setCurrentWordIndex(prev => prev + 1)
       setUserInput('')
       setGameState('playing')
@@ -217,7 +585,28 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
       
       // Word will be pronounced by the useEffect that triggers on currentWordIndex change
     } else {
+      if (isChallenge) {
+        finishChallenge()
+        return
+      }
+      
+      // Words missed this round get another go, until the rounds run out
+      const missedWords = isPractice ? getMissedWords(words, attemptsRef.current, round) : []
+      if (missedWords.length > 0 && round < maxRetryRounds) {
+        setRetryWords(missedWords)
+        setRetryCountdown(RETRY_ROUND_COUNTDOWN_SECONDS)
+        return
+      }
+      
       setGameCompleted(true)
+      onSessionComplete({
+        startedAt: sessionStartTimeRef.current,
+        endedAt: Date.now(),
+        attempts: attemptsRef.current,
+        mode
+      })
+      // The results sheet stays up until the learner is done with it
+      if (isTest) return
       // If game is completed and we have a callback function, call it
       // This will allow the parent to navigate back to the main screen
       setTimeout(() => {
@@ -231,13 +620,37 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
     setUserInput('')
     setGameState('playing')
     setScore(0)
+    setPoints(0)
     setGameCompleted(false)
-    if (words[0]) {
-      const wordLength = words[0].word.length
+    setRound(0)
+    setRetryWords([])
+    attemptsRef.current = []
+    sessionStartTimeRef.current = Date.now()
+    if (isTest) {
+      // A fresh order; the new list makes the effect above read the first word
+      setTestAnswers([])
+      setShuffledOrder(shuffle(givenWords))
+      return
+    }
+    if (isChallenge) {
+      // Back to the start screen, which shows the updated personal bests
+      setShowToast(false)
+      setStreak(0)
+      setBestStreak(0)
+      setChallengeRun(null)
+      setHasStarted(false)
+      setShuffledOrder(shuffle(givenWords))
+      return
+    }
+    if (givenWords[0]) {
+      const wordLength = spellingOf(givenWords[0]).length
       setHints(Array(wordLength).fill(false))
+      setHintsUsed([])
+      setShowRule(false)
+      wordStartTimeRef.current = Date.now()
       
       // Pronounce the first word when game restarts
-      pronounceWord(words[0].word)
+      pronounceWord(givenWords[0].word)
     }
   }
 
@@ -377,15 +790,134 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
   }
 
   const currentWord = words[currentWordIndex]
+  const currentSentence = isCloze && currentWord ? clozeSentences[currentWord.word.toLowerCase()] : undefined
+
+  if (isTest && gameCompleted) {
+    return (
+      <SpellingTestResults
+        answers={testAnswers}
+        learnerName={learnerName}
+        title={title}
+        takenAt={sessionStartTimeRef.current}
+        onRestart={restartGame}
+        onDone={onGameComplete}
+      />
+    )
+  }
+
+  if (isChallenge && gameCompleted && challengeRun) {
+    return (
+      <ChallengeResults
+        run={challengeRun}
+        previousRuns={getBestRuns(runsBeforeRef.current, challengeRun.timer)}
+        learnerName={learnerName}
+        onRestart={restartGame}
+        onDone={onGameComplete}
+      />
+    )
+  }
+
+  // A challenge starts with a choice of timer and the learner's bests to beat
+  if (!hasStarted) {
+    return (
+      <div className="h-full overflow-y-auto flex flex-col items-center p-4 bg-gradient-to-b from-yellow-100 to-purple-100 rounded-xl">
+        <h2 className="text-4xl font-bold text-purple-600 mb-2">Beat the Clock ⏱️</h2>
+        <p className="text-lg text-center text-purple-800 mb-6">
+          Spell as many words as you can before the time runs out. Get words right in a row to build a combo and multiply your points!
+        </p>
+        <div className="flex space-x-3 mb-6">
+          {([
+            ['word', `${SECONDS_PER_WORD} seconds per word`],
+            ['session', `${getTimeLimit('session', words.length)} seconds for all ${words.length} words`]
+          ] as Array<[ChallengeTimer, string]>).map(([timer, label]) => (
+            <button
+              key={timer}
+              onClick={() => setChallengeTimer(timer)}
+              className={`px-4 py-3 rounded-lg border-2 font-medium ${
+                challengeTimer === timer
+                  ? 'bg-purple-600 text-white border-purple-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        <div className="w-full max-w-lg bg-white rounded-xl shadow p-4 mb-6">
+          <h3 className="text-xl font-bold text-purple-700 mb-2">Personal Bests</h3>
+          <PersonalBestTable runs={getBestRuns(personalBests, challengeTimer)} />
+        </div>
+        <button
+          onClick={startChallenge}
+          className="px-8 py-4 text-2xl font-bold text-white bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl shadow-lg transform transition-all hover:scale-105 hover:shadow-xl focus:outline-none"
+        >
+          Start!
+        </button>
+      </div>
+    )
+  }
+
+  if (isPreparingTest || isPreparingSentences) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-4 bg-blue-50 rounded-xl">
+        <h2 className="text-3xl font-bold text-blue-600 mb-4">{isTest ? 'Spelling Test' : 'Sentence Practice'}</h2>
+        <p className="text-xl text-center text-blue-700">
+          {isTest ? 'Getting your test ready...' : 'Finding a sentence for each word...'}
+        </p>
+      </div>
+    )
+  }
+  
+  // Between rounds, show the words that are coming back
+  if (retryCountdown !== null) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-4 bg-gradient-to-b from-yellow-50 to-blue-100 rounded-xl">
+        <h2 className="text-3xl font-bold text-purple-600 mb-4">Let's try these again!</h2>
+        <div className="flex flex-wrap justify-center gap-3 mb-6">
+          {retryWords.map((word, index) => (
+            <span key={index} className="px-4 py-2 bg-white rounded-lg shadow text-2xl font-bold text-blue-700">
+              {spellingOf(word)}
+            </span>
+          ))}
+        </div>
+        <p className="text-lg text-blue-700 mb-4">Starting in {retryCountdown}...</p>
+        <button
+          onClick={() => setRetryCountdown(0)}
+          className="px-6 py-3 text-xl font-bold text-white bg-gradient-to-r from-purple-500 to-blue-500 rounded-xl shadow-lg hover:shadow-xl focus:outline-none"
+        >
+          Start Now
+        </button>
+      </div>
+    )
+  }
   
   if (gameCompleted) {
+    const summary = summariseRounds(attemptsRef.current)
     return (
       <div className="h-full flex flex-col items-center justify-center p-4 bg-gradient-to-b from-purple-100 to-blue-100 rounded-xl">
-        <h2 className="text-4xl font-bold text-purple-600 mb-6">Game Completed!</h2>
+        <h2 className="text-4xl font-bold text-purple-600 mb-6">
+          {learnerName.trim() ? `Well played, ${learnerName.trim()}!` : 'Game Completed!'}
+        </h2>
         <div className="text-3xl text-center mb-8">
-          <span className="font-bold text-blue-600">Your score: </span>
-          <span className="text-purple-700 font-bold">{score}</span>
-          <span className="text-blue-600 font-bold"> out of {words.length}</span>
+          <span className="font-bold text-blue-600">First try: </span>
+          <span className="text-purple-700 font-bold">{summary.firstTry.length}</span>
+          <span className="text-blue-600 font-bold"> out of {givenWords.length}</span>
+          <div className="text-2xl mt-2">
+            <span className="font-bold text-blue-600">Points: </span>
+            <span className="text-purple-700 font-bold">{points}</span>
+          </div>
+          {summary.correctedOnRetry.length > 0 && (
+            <div className="text-lg mt-4">
+              <span className="font-bold text-green-700">Got it on a retry: </span>
+              <span className="text-green-800">{summary.correctedOnRetry.join(', ')}</span>
+            </div>
+          )}
+          {summary.stillMissed.length > 0 && (
+            <div className="text-lg mt-2">
+              <span className="font-bold text-orange-700">Still to learn: </span>
+              <span className="text-orange-800">{summary.stillMissed.join(', ')}</span>
+            </div>
+          )}
         </div>
         
         <div className="relative">
@@ -408,10 +940,34 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
       {/* Header with compact score and progress */}
       <div className="flex justify-between items-center p-2 bg-white bg-opacity-80 rounded-t-xl shadow-sm sticky top-0 z-10">
         <div className="flex flex-col text-sm">
-          <div className="flex items-center">
-            <span className="font-bold text-purple-700">Score:</span>
-            <span className="ml-1 text-blue-600 font-bold">{score}/{words.length}</span>
-          </div>
+          {round > 0 && (
+            <div className="font-bold text-orange-600">Retry round {round}</div>
+          )}
+          {isChallenge && (
+            <>
+              <div className="flex items-center">
+                <span className="font-bold text-purple-700">Score:</span>
+                <span className="ml-1 text-blue-600 font-bold">{score}</span>
+              </div>
+              <div className="flex items-center">
+                <span className="font-bold text-purple-700">Combo:</span>
+                <span className="ml-1 text-orange-500 font-bold">x{getComboMultiplier(streak)}</span>
+                {streak > 0 && <span className="ml-1 text-gray-500">({streak} in a row)</span>}
+              </div>
+            </>
+          )}
+          {isPractice && (
+            <>
+              <div className="flex items-center">
+                <span className="font-bold text-purple-700">Score:</span>
+                <span className="ml-1 text-blue-600 font-bold">{score}/{words.length}</span>
+              </div>
+              <div className="flex items-center">
+                <span className="font-bold text-purple-700">Points:</span>
+                <span className="ml-1 text-blue-600 font-bold">{points}</span>
+              </div>
+            </>
+          )}
           <div className="flex items-center">
             <span className="font-bold text-purple-700">Word:</span>
             <span className="ml-1 text-blue-600 font-bold">{currentWordIndex + 1}/{words.length}</span>
@@ -419,7 +975,13 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
         </div>
         
         <div className="flex-1 mx-4 px-4 py-2 bg-yellow-50 rounded-lg border-2 border-yellow-200 shadow-inner flex items-center justify-between">
-          <p className="text-sm text-yellow-800 italic flex-1">{currentWord.definition}</p>
+          <p className="text-sm text-yellow-800 italic flex-1">
+            {isTest
+              ? 'Listen carefully, then type the word you hear.'
+              : currentSentence
+                ? 'Listen to the sentence, then type the missing word.'
+                : maskDefinitionLeaks(currentWord.word, currentWord.definition)}
+          </p>
           <button
             type="button"
             onClick={handlePronounce}
@@ -433,6 +995,70 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
         </div>
       </div>
       
+      {/* The sentence with the word blanked out, filled in once it is spelled correctly */}
+      {currentSentence && (
+        <div className="px-4 py-3 bg-white bg-opacity-80 flex items-center justify-center space-x-3">
+          <p className="text-xl md:text-2xl text-center text-gray-800">
+            {currentSentence.before}
+            <span className={`font-bold ${gameState === 'correct' ? 'text-green-600' : 'text-purple-600 tracking-widest'}`}>
+              {gameState === 'correct' ? spellingOf(currentWord) : CLOZE_BLANK}
+            </span>
+            {currentSentence.after}
+          </p>
+          <button
+            type="button"
+            onClick={handlePronounce}
+            className="px-3 py-1 text-sm bg-blue-100 hover:bg-blue-200 text-blue-800 rounded-lg border-2 border-blue-300 flex-shrink-0"
+          >
+            Hear it again
+          </button>
+        </div>
+      )}
+      
+      {/* Challenge clock */}
+      {isChallenge && timeLeft !== null && (
+        <div className="px-2 py-1 bg-white bg-opacity-80 flex items-center space-x-2">
+          <div className="flex-1 h-3 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all duration-1000 ease-linear ${timeLeft <= 5 ? 'bg-red-500' : 'bg-green-500'}`}
+              style={{ width: `${(timeLeft / getTimeLimit(challengeTimer, words.length)) * 100}%` }}
+            />
+          </div>
+          <span className={`w-12 text-right font-bold ${timeLeft <= 5 ? 'text-red-600' : 'text-gray-700'}`}>{timeLeft}s</span>
+        </div>
+      )}
+      
+      {/* Hint bar - each hint costs points for this word; tests and challenges have no hints */}
+      {isPractice && <div className="px-2 py-1 bg-white bg-opacity-80">
+        <div className="flex flex-wrap items-center justify-center gap-2 text-sm">
+          <span className="font-bold text-purple-700">Hints:</span>
+          {([
+            ['reveal-letter', 'Show a letter', false],
+            ['pattern', 'Show the tricky letters', getPatternRevealPositions(spellingOf(currentWord), userInput, hints, patternSpansOf(currentWord)).length === 0],
+            ['rule', 'Show the rule', showRule || !currentWord.rule],
+            ['phonetic', 'Hear the sounds', !currentWord.phonetic],
+            ['letter-by-letter', `Spell the first ${LETTER_BY_LETTER_HINT_LENGTH} letters`, false]
+          ] as Array<[HintKind, string, boolean]>).map(([hint, label, isUnavailable]) => (
+            <button
+              key={hint}
+              type="button"
+              onClick={() => handleHint(hint)}
+              disabled={gameState !== 'playing' || isUnavailable}
+              className={`px-3 py-1 rounded-lg border-2 transition-colors ${
+                gameState !== 'playing' || isUnavailable
+                  ? 'bg-gray-100 border-gray-200 text-gray-400 cursor-not-allowed'
+                  : 'bg-yellow-100 border-yellow-300 text-yellow-800 hover:bg-yellow-200'
+              }`}
+            >
+              {label} <span className="text-xs opacity-75">-{HINT_COSTS[hint]}</span>
+            </button>
+          ))}
+        </div>
+        {showRule && (
+          <p className="mt-1 text-center text-sm text-purple-800 italic">{currentWord.rule}</p>
+        )}
+      </div>}
+      
       {/* Input area - make it sticky and more visible */}
       <div className="p-2 bg-white bg-opacity-90 shadow-md">
         <form onSubmit={handleSubmit} className="flex flex-col">
@@ -442,6 +1068,12 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
               <div className="text-4xl md:text-5xl font-bold text-blue-700 tracking-wide uppercase">
                 {userInput}
                 <span className={`inline-block w-1 h-[27px] md:h-[35px] bg-blue-500 ml-1 mt-[3px] ${gameState === 'playing' ? 'animate-cursor-blink' : 'opacity-0'}`}></span>
+                {/* Letters revealed by hints, shown faded in their place ahead of the cursor */}
+                {spellingOf(currentWord).slice(userInput.length, hints.lastIndexOf(true) + 1).split('').map((letter, offset) => (
+                  <span key={offset} className={hints[userInput.length + offset] ? 'text-blue-300' : 'text-blue-200'}>
+                    {hints[userInput.length + offset] ? letter : '·'}
+                  </span>
+                ))}
               </div>
             </div>
             
@@ -463,12 +1095,24 @@ const SpellingGame: React.FC<SpellingGameProps> = ({
               {!isWrongToast ? (
                 <div className="animate-float-in-up bg-green-500 text-white px-6 py-4 rounded-xl shadow-lg border-2 border-green-400">
                   <div className="text-2xl font-bold text-center">🎉 CORRECT! 🎉</div>
+                  <div className="text-center">{feedbackMessage}</div>
+                  {variantNote && <div className="text-center text-sm mt-1">{variantNote}</div>}
                   <div className="text-center text-sm">Press any key</div>
                 </div>
               ) : (
                 <div className="animate-float-in-up bg-red-500 text-white px-6 py-4 rounded-xl shadow-lg border-2 border-red-400">
                   <div className="text-2xl font-bold text-center">TRY AGAIN</div>
-                  <div className="text-center text-sm">The word is <span className="font-bold uppercase">{currentWord.word}</span></div>
+                  <div className="text-center">{feedbackMessage}</div>
+                  {diagnosis ? (
+                    <div className="flex justify-center mt-2">
+                      <SpellingDiffDisplay
+                        operations={diagnosis.operations}
+                        className="bg-white text-gray-800 text-2xl px-4 py-2 rounded-lg"
+                      />
+                    </div>
+                  ) : (
+                    <div className="text-center text-sm">The word is <span className="font-bold uppercase">{spellingOf(currentWord)}</span></div>
+                  )}
                 </div>
               )}
             </div>
@@ -0,0 +1,96 @@
+import React from 'react'
+import { TestAnswer, scoreTest } from '../utils/spellingTest'
+
+type SpellingTestResultsProps = {
+  answers: TestAnswer[]
+  learnerName?: string
+  title?: string // Word set title, printed at the top of the sheet
+  takenAt: number
+  onRestart: () => void
+  onDone: () => void
+}
+
+// The marked sheet shown at the end of a spelling test, laid out to print on one page
+const SpellingTestResults: React.FC<SpellingTestResultsProps> = ({
+  answers,
+  learnerName = '',
+  title = '',
+  takenAt,
+  onRestart,
+  onDone
+}) => {
+  const score = scoreTest(answers)
+
+  return (
+    <div className="h-full overflow-y-auto p-4 bg-white rounded-xl print:p-0 print:overflow-visible">
+      <div className="max-w-2xl mx-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h2 className="text-3xl font-bold text-purple-700 print:text-black">Spelling Test Results</h2>
+            {title && <p className="text-lg text-gray-700">{title}</p>}
+            <p className="text-gray-600">
+              {learnerName.trim() && <span className="font-medium">{learnerName.trim()} - </span>}
+              {new Date(takenAt).toLocaleDateString(undefined, { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })}
+            </p>
+          </div>
+          <div className="text-right">
+            <div className="text-4xl font-bold text-blue-600 print:text-black">{score.correct}/{score.total}</div>
+            <div className="text-gray-600">{score.percent}%</div>
+          </div>
+        </div>
+
+        <table className="w-full border-collapse mb-6">
+          <thead>
+            <tr className="border-b-2 border-gray-300 text-left text-gray-700">
+              <th className="py-2 pr-2 w-10">#</th>
+              <th className="py-2 pr-2">Word</th>
+              <th className="py-2 pr-2">Answer</th>
+              <th className="py-2 w-12 text-center">Mark</th>
+            </tr>
+          </thead>
+          <tbody>
+            {answers.map((answer, index) => {
+              const isCorrect = answer.result !== 'incorrect'
+              return (
+                <tr key={index} className="border-b border-gray-200 align-top">
+                  <td className="py-2 pr-2 text-gray-500">{index + 1}</td>
+                  <td className="py-2 pr-2 font-medium">{answer.expected}</td>
+                  <td className={`py-2 pr-2 ${isCorrect ? 'text-green-700' : 'text-red-600 line-through'} print:text-black`}>
+                    {answer.typed}
+                    {answer.note && <div className="text-xs text-gray-500 no-underline">{answer.note}</div>}
+                  </td>
+                  <td className={`py-2 text-center text-xl font-bold ${isCorrect ? 'text-green-600' : 'text-red-500'}`}>
+                    {isCorrect ? '✓' : '✗'}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+
+        <div className="flex justify-center space-x-3 print:hidden">
+          <button
+            onClick={() => window.print()}
+            className="px-6 py-3 rounded-lg border-2 border-purple-300 text-purple-700 font-bold hover:bg-purple-50"
+          >
+            Print Results
+          </button>
+          <button
+            onClick={onRestart}
+            className="px-6 py-3 rounded-lg bg-purple-600 text-white font-bold hover:bg-purple-700"
+          >
+            Take It Again
+          </button>
+          <button
+            onClick={onDone}
+            className="px-6 py-3 rounded-lg bg-gray-100 text-gray-700 font-bold hover:bg-gray-200"
+          >
+            Done
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default SpellingTestResults
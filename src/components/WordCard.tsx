@@ -1,5 +1,6 @@
 import React, { useState } from 'react'
-import { pronounceWord } from '../utils/elevenLabsService'
+import { pronounceWord, pronouncePhoneticBreakdown } from '../utils/elevenLabsService'
+import { getSyllables } from '../utils/syllables'
 
 type Word = {
   word: string
@@ -7,11 +8,12 @@ type Word = {
   rule: string
   difficulty: number
   phonetic?: string  // This will be used for syllable breakdown instead
+  pattern?: string
 }
 
 type WordCardProps = {
   word: Word
-  highlightedWord: React.ReactNode
+  highlightedWord: React.ReactNode // The word with its pattern letters highlighted
 }
 
 const WordCard: React.FC<WordCardProps> = ({
@@ -20,6 +22,13 @@ const WordCard: React.FC<WordCardProps> = ({
 }) => {
   const [isSpeaking, setIsSpeaking] = useState(false)
   const [isHovered, setIsHovered] = useState(false)
+  // Whether the syllable breakdown panel is open
+  const [isExpanded, setIsExpanded] = useState(false)
+  // The syllable chip being spoken, or 'slowly' while the whole word is read slowly
+  const [speakingChunk, setSpeakingChunk] = useState<number | 'slowly' | null>(null)
+  
+  // Syllables that spell the word, from the word or the bundled dictionary
+  const syllables = getSyllables(word.word, word.phonetic)
   
   // Function to handle pronunciation
   const handlePronounce = async (e: React.MouseEvent) => {
@@ -38,81 +47,149 @@ const WordCard: React.FC<WordCardProps> = ({
     }
   }
   
+  // Speak one syllable, or the whole breakdown slowly with pauses
+  const speakChunk = async (chunk: number | 'slowly', text: string) => {
+    if (speakingChunk !== null) return
+    
+    try {
+      setSpeakingChunk(chunk)
+      if (chunk === 'slowly') {
+        await pronouncePhoneticBreakdown(text)
+      } else {
+        await pronounceWord(text)
+      }
+    } catch (error) {
+      console.error('Error pronouncing syllables:', error)
+    } finally {
+      setSpeakingChunk(null)
+    }
+  }
+  
   return (
-    <button 
-      onClick={handlePronounce}
-      onMouseEnter={() => setIsHovered(true)}
-      onMouseLeave={() => setIsHovered(false)}
-      disabled={isSpeaking}
-      className={`
-        w-full text-left bg-white rounded-lg shadow p-4
-        transform transition-all duration-200
-        ${isHovered && !isSpeaking ? 'bg-purple-50' : ''}
-        ${isSpeaking ? 'bg-purple-100' : 'hover:bg-purple-50'}
-        cursor-pointer border-2 border-transparent
-        ${isHovered ? 'border-purple-200' : ''}
-        focus:outline-none focus:border-purple-300
-      `}
-      aria-label={`Pronounce the word ${word.word}`}
-      title="Click to hear pronunciation"
-    >
-      <div className="flex items-center justify-between mb-2 relative">
-        <h3 className="text-xl font-bold">{highlightedWord}</h3>
+    <div className="bg-white rounded-lg shadow">
+      <button 
+        onClick={handlePronounce}
+        onMouseEnter={() => setIsHovered(true)}
+        onMouseLeave={() => setIsHovered(false)}
+        disabled={isSpeaking}
+        className={`
+          w-full text-left bg-white rounded-lg p-4
+          transform transition-all duration-200
+          ${isHovered && !isSpeaking ? 'bg-purple-50' : ''}
+          ${isSpeaking ? 'bg-purple-100' : 'hover:bg-purple-50'}
+          cursor-pointer border-2 border-transparent
+          ${isHovered ? 'border-purple-200' : ''}
+          focus:outline-none focus:border-purple-300
+        `}
+        aria-label={`Pronounce the word ${word.word}`}
+        title="Click to hear pronunciation"
+      >
+        <div className="flex items-center justify-between mb-2 relative">
+          <h3 className="text-xl font-bold">{highlightedWord}</h3>
         
-        {/* Sound icon indicator */}
-        <div className="relative">
-          <div className={`
-            p-2 rounded-full relative
-            ${isSpeaking ? 'bg-purple-200' : ''}
-            group
-          `}>
-            {/* Ripple animation when speaking */}
-            {isSpeaking && (
-              <>
-                <span className="absolute inset-0 rounded-full bg-purple-400 opacity-30 animate-ping-slow"></span>
-                <span className="absolute inset-0 rounded-full bg-purple-300 opacity-40"></span>
-              </>
-            )}
+          {/* Sound icon indicator */}
+          <div className="relative">
+            <div className={`
+              p-2 rounded-full relative
+              ${isSpeaking ? 'bg-purple-200' : ''}
+              group
+            `}>
+              {/* Ripple animation when speaking */}
+              {isSpeaking && (
+                <>
+                  <span className="absolute inset-0 rounded-full bg-purple-400 opacity-30 animate-ping-slow"></span>
+                  <span className="absolute inset-0 rounded-full bg-purple-300 opacity-40"></span>
+                </>
+              )}
             
-            {isSpeaking ? (
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-purple-700 relative z-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m1-13h-5m-1 0H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V8a2 2 0 00-2-2z" />
-              </svg>
-            ) : (
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-purple-600 group-hover:text-purple-700 relative z-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
-              </svg>
-            )}
+              {isSpeaking ? (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-purple-700 relative z-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 9v6m4-6v6m1-13h-5m-1 0H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V8a2 2 0 00-2-2z" />
+                </svg>
+              ) : (
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-purple-600 group-hover:text-purple-700 relative z-10" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                </svg>
+              )}
+            </div>
           </div>
         </div>
-      </div>
       
-      {/* Minimal definition */}
-      <p className="text-gray-600 text-sm">{word.definition}</p>
+        {/* Minimal definition */}
+        <p className="text-gray-600 text-sm">{word.definition}</p>
       
-      {/* Add animation keyframes */}
-      <style>
-        {`
-          @keyframes ping-slow {
-            0% {
-              transform: scale(0.95);
-              opacity: 0.5;
-            }
-            50% {
-              transform: scale(1.1);
-              opacity: 0.3;
+        {/* Add animation keyframes */}
+        <style>
+          {`
+            @keyframes ping-slow {
+              0% {
+                transform: scale(0.95);
+                opacity: 0.5;
+              }
+              50% {
+                transform: scale(1.1);
+                opacity: 0.3;
+              }
+              100% {
+                transform: scale(0.95);
+                opacity: 0.5;
+              }
             }
-            100% {
-              transform: scale(0.95);
-              opacity: 0.5;
+            .animate-ping-slow {
+              animation: ping-slow 1.5s ease-in-out infinite;
             }
-          }
-          .animate-ping-slow {
-            animation: ping-slow 1.5s ease-in-out infinite;
-          }
-        `}
-      </style>
-    </button>
+          `}
+        </style>
+      </button>
+    
+      {/* Syllable breakdown - kept outside the card's button so each chip can be tapped */}
+      <div className="px-4 pb-4">
+        <button
+          onClick={() => setIsExpanded(prev => !prev)}
+          className="text-sm font-medium text-purple-700 hover:text-purple-900"
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? 'Hide breakdown' : 'Break it down'}
+        </button>
+      
+        {isExpanded && (
+          <div className="mt-3 p-3 bg-purple-50 rounded-lg">
+            {syllables ? (
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                {syllables.map((syllable, index) => (
+                  <button
+                    key={index}
+                    onClick={() => speakChunk(index, syllable)}
+                    className={`px-3 py-1 rounded-full text-lg font-bold transition-colors ${
+                      speakingChunk === index
+                        ? 'bg-purple-600 text-white'
+                        : 'bg-white text-purple-800 border-2 border-purple-200 hover:border-purple-400'
+                    }`}
+                    aria-label={`Hear ${syllable}`}
+                  >
+                    {syllable}
+                  </button>
+                ))}
+              </div>
+            ) : word.phonetic ? (
+              <p className="mb-3 text-gray-700">Sounds: <span className="font-medium">{word.phonetic}</span></p>
+            ) : (
+              <p className="text-sm text-gray-500">No syllable breakdown for this word yet.</p>
+            )}
+          
+            {(syllables || word.phonetic) && (
+              <button
+                onClick={() => speakChunk('slowly', syllables ? syllables.join('-') : word.phonetic || '')}
+                disabled={speakingChunk !== null}
+                className="px-3 py-1 text-sm rounded-lg bg-purple-100 text-purple-800 hover:bg-purple-200 disabled:opacity-50"
+              >
+                {speakingChunk === 'slowly' ? 'Saying it slowly...' : 'Say it slowly'}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
   )
 }
 
@@ -1,5 +1,11 @@
-import React from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import WordCard from './WordCard'
+import { canPrepareAudio } from '../utils/elevenLabsService'
+import { prepareWordSetAudio } from '../utils/audioPrefetch'
+import { Lesson } from '../utils/lesson'
+import { SpellingLocale } from '../utils/profiles'
+import LessonPage from './LessonPage'
+import HighlightedWord from './HighlightedWord'
 
 type Word = {
   word: string
@@ -7,34 +13,145 @@ type Word = {
   rule: string
   difficulty: number
   phonetic?: string  // Now used for syllable breakdown
+  variants?: string[] // Other accepted spellings, e.g. "color" for "colour"
+  pattern?: string // Letters that carry the word's spelling rule
+  sentence?: string // A sentence using the word, written by an adult for sentence practice
 }
 
 type WordListProps = {
   words: Word[]
+  learnerName?: string // Used to prepare the learner's feedback phrases
+  description?: string // The set's description, used to write its lesson
+  lesson?: Lesson // The set's saved lesson page
+  spellingLocale?: SpellingLocale
+  onLessonChange?: (lesson: Lesson) => void // Saves a newly generated lesson with the set
 }
 
-const WordList: React.FC<WordListProps> = ({ words }) => {
-  // The component no longer needs to manage expansion state
-  // or example sentences/tips as those are not part of the simplified cards
+const WordList: React.FC<WordListProps> = ({
+  words,
+  learnerName = '',
+  description = '',
+  lesson,
+  spellingLocale = 'en-GB',
+  onLessonChange = () => {}
+}) => {
+  // Word cards or the set's lesson page
+  const [tab, setTab] = useState<'cards' | 'lesson'>('cards')
+  // Progress of preparing this set's audio for offline practice
+  const [prepareStatus, setPrepareStatus] = useState<'idle' | 'preparing' | 'done'>('idle')
+  const [prepareProgress, setPrepareProgress] = useState({ done: 0, total: 0, failed: 0 })
+  const abortControllerRef = useRef<AbortController | null>(null)
 
-  // Function that no longer highlights any letters
-  const highlightPatternInWord = (word: string) => {
-    // Return the word as is without highlighting
-    return word;
-  };
+  // Stop preparing if the learner leaves this word set
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort()
+  }, [])
+
+  const handlePrepareAudio = async () => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setPrepareStatus('preparing')
+    setPrepareProgress({ done: 0, total: 0, failed: 0 })
+
+    const result = await prepareWordSetAudio(
+      words,
+      learnerName,
+      spellingLocale,
+      lesson,
+      (done, total) => setPrepareProgress(prev => ({ ...prev, done, total })),
+      controller.signal
+    )
+
+    if (!controller.signal.aborted) {
+      setPrepareProgress(prev => ({ ...prev, failed: result.failed }))
+      setPrepareStatus('done')
+    }
+  }
+
+  // Example sentences and tips live on the lesson page rather than the cards
+
+  // Highlight the letters that carry the word's rule
+  const highlightPatternInWord = (word: Word) => {
+    return <HighlightedWord word={word} />
+  }
 
   return (
     <div className="max-w-4xl mx-auto">
-      {/* Minimal header with no explanatory text */}
-      <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
-        {words.map((word) => (
-          <WordCard 
-            key={word.word} 
-            word={word}
-            highlightedWord={highlightPatternInWord(word.word)}
-          />
-        ))}
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div className="flex space-x-2">
+          {([['cards', 'Word Cards'], ['lesson', 'Lesson']] as const).map(([value, label]) => (
+            <button
+              key={value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 rounded-lg transition-colors shadow-sm font-medium ${
+                tab === value
+                  ? 'bg-purple-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Prepare the set's audio so practice works without a network */}
+        {canPrepareAudio() && (
+          <div className="flex items-center justify-end space-x-3 text-sm">
+            {prepareStatus === 'preparing' && (
+              <div className="flex-1 max-w-xs">
+                <div className="h-2 bg-purple-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-purple-500 transition-all"
+                    style={{ width: `${prepareProgress.total ? (prepareProgress.done / prepareProgress.total) * 100 : 0}%` }}
+                  />
+                </div>
+                <div className="text-gray-500 mt-1">
+                  Preparing audio {prepareProgress.done}/{prepareProgress.total}
+                </div>
+              </div>
+            )}
+            {prepareStatus === 'done' && (
+              <span className={prepareProgress.failed > 0 ? 'text-orange-600' : 'text-green-600'}>
+                {prepareProgress.failed > 0
+                  ? `${prepareProgress.failed} sounds could not be prepared`
+                  : 'Ready to practise offline'}
+              </span>
+            )}
+            <button
+              onClick={handlePrepareAudio}
+              disabled={prepareStatus === 'preparing'}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                prepareStatus === 'preparing'
+                  ? 'bg-purple-200 text-purple-400 cursor-not-allowed'
+                  : 'bg-purple-100 hover:bg-purple-200 text-purple-800'
+              }`}
+            >
+              {prepareStatus === 'done' ? 'Prepare Again' : 'Prepare for Offline'}
+            </button>
+          </div>
+        )}
       </div>
+
+      {tab === 'lesson' ? (
+        <LessonPage
+          words={words}
+          description={description}
+          lesson={lesson}
+          spellingLocale={spellingLocale}
+          onLessonChange={onLessonChange}
+        />
+      ) : (
+        // Minimal header with no explanatory text
+        <div className="grid gap-6 md:grid-cols-2 xl:grid-cols-3">
+          {words.map((word) => (
+            <WordCard 
+              key={word.word} 
+              word={word}
+              highlightedWord={highlightPatternInWord(word)}
+            />
+          ))}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,225 @@
+import React from 'react'
+import { DraftWord } from '../utils/wordSetDraft'
+import { findDefinitionLeaks, maskDefinitionLeaks } from '../utils/definitionLeaks'
+import { lookupWord, suggestCorrections } from '../utils/offlineDictionary'
+import { findPatternSpans, suggestPattern } from '../utils/graphemePatterns'
+import { getSyllables, SYLLABLE_SEPARATOR, validateSyllables } from '../utils/syllables'
+import { makeCloze } from '../utils/cloze'
+
+type WordRowEditorProps = {
+  row: DraftWord
+  onChange: (changes: Partial<DraftWord>) => void
+  onRemove: () => void
+  onRegenerate?: () => void  // Omit to hide the Regenerate button, e.g. without an API key
+  isRegenerating?: boolean
+  regenerateDisabled?: boolean
+  onMove?: (direction: -1 | 1) => void  // Omit to hide the reorder buttons
+  isFirst?: boolean
+  isLast?: boolean
+}
+
+// One word's editable fields, shared by the word set editor and the Add Words review step
+const WordRowEditor: React.FC<WordRowEditorProps> = ({
+  row,
+  onChange,
+  onRemove,
+  onRegenerate,
+  isRegenerating = false,
+  regenerateDisabled = false,
+  onMove,
+  isFirst = false,
+  isLast = false
+}) => {
+  const leaks = findDefinitionLeaks(row.word, row.definition)
+  const corrections = suggestCorrections(row.word)
+  // Offer the bundled dictionary's definition while the row has none
+  const dictionaryEntry = row.word.trim() && !row.definition.trim() ? lookupWord(row.word) : null
+  // Without a pattern of its own the word is highlighted using one suggested from its rule
+  const suggestedPattern = suggestPattern(row.word, row.rule)
+  const patternMissing = !!row.word.trim() && !!row.pattern?.trim() && findPatternSpans(row.word, row.pattern).length === 0
+  const syllableProblem = validateSyllables(row.word, row.phonetic || '')
+  const dictionarySyllables = syllableProblem ? getSyllables(row.word) : null
+  // Both locales accept both spellings, so either finds the word in the sentence
+  const sentenceMissingWord = !!row.word.trim() && !!row.sentence?.trim() && !makeCloze(row.sentence, row, 'en-GB')
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <div className="flex items-center space-x-2 mb-2">
+        <input
+          type="text"
+          className="flex-grow p-2 border border-gray-300 rounded-lg font-medium focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Word"
+          value={row.word}
+          onChange={(e) => onChange({ word: e.target.value })}
+        />
+        <select
+          className="p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          value={row.difficulty}
+          onChange={(e) => onChange({ difficulty: Number(e.target.value) })}
+          title="Difficulty"
+        >
+          <option value={1}>Easy</option>
+          <option value={2}>Medium</option>
+          <option value={3}>Hard</option>
+        </select>
+        {onRegenerate && (
+          <button
+            onClick={onRegenerate}
+            disabled={!row.word.trim() || regenerateDisabled}
+            className="px-3 py-2 text-sm rounded-md bg-purple-100 text-purple-800 hover:bg-purple-200 disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Fill in the definition, rule and sounds with AI"
+          >
+            {isRegenerating ? 'Generating...' : 'Regenerate'}
+          </button>
+        )}
+        {onMove && (
+          <>
+            <button
+              onClick={() => onMove(-1)}
+              disabled={isFirst}
+              className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Move up"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => onMove(1)}
+              disabled={isLast}
+              className="p-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+              title="Move down"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+              </svg>
+            </button>
+          </>
+        )}
+        <button
+          onClick={onRemove}
+          className="p-1 text-red-500 hover:text-red-700 hover:bg-red-50 rounded-full"
+          title="Remove word"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+          </svg>
+        </button>
+      </div>
+      {corrections.length > 0 && (
+        <div className="mb-2 text-sm text-yellow-800">
+          Not in the dictionary - did you mean
+          {corrections.map(correction => (
+            <button
+              key={correction}
+              onClick={() => onChange({ word: correction })}
+              className="ml-1 px-2 py-0.5 bg-yellow-100 hover:bg-yellow-200 rounded font-medium"
+            >
+              {correction}
+            </button>
+          ))}
+          ?
+        </div>
+      )}
+      <textarea
+        className="w-full p-2 mb-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        rows={2}
+        placeholder="Definition (shown as the clue, so don't use the word itself)"
+        value={row.definition}
+        onChange={(e) => onChange({ definition: e.target.value })}
+      />
+      {dictionaryEntry && (
+        <div className="flex items-center justify-between mb-2 px-3 py-2 bg-purple-50 text-purple-800 text-sm rounded-lg">
+          <span>Dictionary: {dictionaryEntry.definition}</span>
+          <button
+            onClick={() => onChange({
+              definition: dictionaryEntry.definition,
+              phonetic: row.phonetic || dictionaryEntry.syllables
+            })}
+            className="ml-2 px-2 py-1 bg-purple-200 hover:bg-purple-300 rounded font-medium"
+          >
+            Use it
+          </button>
+        </div>
+      )}
+      {leaks.length > 0 && (
+        <div className="flex items-center justify-between mb-2 px-3 py-2 bg-yellow-50 text-yellow-800 text-sm rounded-lg">
+          <span>
+            The clue gives the answer away: {leaks.map(leak => `"${leak.text}"`).join(', ')}
+          </span>
+          <button
+            onClick={() => onChange({ definition: maskDefinitionLeaks(row.word, row.definition) })}
+            className="ml-2 px-2 py-1 bg-yellow-200 hover:bg-yellow-300 rounded font-medium"
+          >
+            Blank it out
+          </button>
+        </div>
+      )}
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          className="flex-grow p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Spelling rule"
+          value={row.rule}
+          onChange={(e) => onChange({ rule: e.target.value })}
+        />
+        <input
+          type="text"
+          className="w-40 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Syllables, e.g. sys·tem"
+          value={row.phonetic || ''}
+          onChange={(e) => onChange({ phonetic: e.target.value })}
+        />
+        {/* Kept as typed (commas and all) while editing; trimmed when the set is saved */}
+        <input
+          type="text"
+          className="w-40 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder="Also accepted, e.g. color"
+          title="Other spellings that count as correct, separated by commas"
+          value={(row.variants || []).join(',')}
+          onChange={(e) => onChange({ variants: e.target.value ? e.target.value.split(',') : [] })}
+        />
+        <input
+          type="text"
+          className="w-32 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          placeholder={suggestedPattern ? `Pattern: ${suggestedPattern}` : 'Pattern, e.g. tion'}
+          title="The letters that show the spelling rule, highlighted on the word card. Plain letters or a regular expression such as tion$"
+          value={row.pattern || ''}
+          onChange={(e) => onChange({ pattern: e.target.value })}
+        />
+      </div>
+      <input
+        type="text"
+        className="w-full mt-2 p-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        placeholder="Sentence for sentence practice, e.g. The heating system is broken."
+        value={row.sentence || ''}
+        onChange={(e) => onChange({ sentence: e.target.value })}
+      />
+      {sentenceMissingWord && (
+        <div className="mt-2 text-sm text-yellow-800">
+          The sentence doesn't use "{row.word}", so it can't be blanked out - a lesson or Gemini sentence will be used instead.
+        </div>
+      )}
+      {syllableProblem && (
+        <div className="flex items-center justify-between mt-2 px-3 py-2 bg-yellow-50 text-yellow-800 text-sm rounded-lg">
+          <span>{syllableProblem} They won't be shown as syllables on the word card.</span>
+          {dictionarySyllables && (
+            <button
+              onClick={() => onChange({ phonetic: dictionarySyllables.join(SYLLABLE_SEPARATOR) })}
+              className="ml-2 px-2 py-1 bg-yellow-200 hover:bg-yellow-300 rounded font-medium"
+            >
+              Use {dictionarySyllables.join(SYLLABLE_SEPARATOR)}
+            </button>
+          )}
+        </div>
+      )}
+      {patternMissing && (
+        <div className="mt-2 text-sm text-yellow-800">
+          The pattern "{row.pattern}" isn't in "{row.word}", so nothing will be highlighted.
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WordRowEditor
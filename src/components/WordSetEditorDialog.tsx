@@ -0,0 +1,239 @@
+import React, { useState, useEffect } from 'react'
+import { v4 as uuidv4 } from 'uuid'
+import { isGeminiAvailable } from '../utils/geminiService'
+import {
+  DraftWord,
+  createDraftWord,
+  draftToWords,
+  validateDraftWordSet,
+  regenerateDraftWord
+} from '../utils/wordSetDraft'
+import WordRowEditor from './WordRowEditor'
+import { SpellingLocale } from '../utils/profiles'
+
+type Word = {
+  word: string
+  definition: string
+  rule: string
+  difficulty: number
+  phonetic?: string
+  variants?: string[]
+  pattern?: string
+  sentence?: string
+}
+
+type WordSet = {
+  id: string
+  title: string
+  description: string
+  words: Word[]
+  spellingLocale?: SpellingLocale // Overrides the learner's spelling locale for this set
+}
+
+type WordSetEditorDialogProps = {
+  isOpen: boolean
+  wordSet?: WordSet // Set to edit, or undefined to create one by hand
+  onClose: () => void
+  onSave: (wordSet: WordSet) => void
+  defaultSpellingLocale: SpellingLocale // The learner's locale, used when the set doesn't set one
+}
+
+const WordSetEditorDialog: React.FC<WordSetEditorDialogProps> = ({
+  isOpen,
+  wordSet,
+  onClose,
+  onSave,
+  defaultSpellingLocale
+}) => {
+  const [title, setTitle] = useState('')
+  const [description, setDescription] = useState('')
+  const [spellingLocale, setSpellingLocale] = useState<SpellingLocale | ''>('')  // '' follows the learner
+  const [rows, setRows] = useState<DraftWord[]>([])
+  const [regeneratingKey, setRegeneratingKey] = useState<string | null>(null)
+  const [errorMessage, setErrorMessage] = useState('')
+
+  // Fill the form whenever the dialog opens
+  useEffect(() => {
+    if (!isOpen) return
+    setTitle(wordSet?.title || '')
+    setDescription(wordSet?.description || '')
+    setSpellingLocale(wordSet?.spellingLocale || '')
+    setRows(wordSet ? wordSet.words.map(word => createDraftWord(word)) : [createDraftWord()])
+    setErrorMessage('')
+  }, [isOpen, wordSet])
+
+  const updateRow = (key: string, changes: Partial<DraftWord>) => {
+    setRows(prev => prev.map(row => row.key === key ? { ...row, ...changes } : row))
+  }
+
+  const removeRow = (key: string) => {
+    setRows(prev => prev.filter(row => row.key !== key))
+  }
+
+  const moveRow = (index: number, direction: -1 | 1) => {
+    const target = index + direction
+    if (target < 0 || target >= rows.length) return
+    setRows(prev => {
+      const next = [...prev]
+      const [moved] = next.splice(index, 1)
+      next.splice(target, 0, moved)
+      return next
+    })
+  }
+
+  // Ask Gemini for fresh fields for one word, keeping the word itself
+  const handleRegenerate = async (row: DraftWord) => {
+    try {
+      setRegeneratingKey(row.key)
+      setErrorMessage('')
+      updateRow(row.key, await regenerateDraftWord(row, spellingLocale || defaultSpellingLocale))
+    } catch (error) {
+      if (error instanceof Error) {
+        setErrorMessage(`Regeneration failed: ${error.message}`)
+      } else {
+        setErrorMessage('An unexpected error occurred during regeneration.')
+      }
+    } finally {
+      setRegeneratingKey(null)
+    }
+  }
+
+  const handleSave = () => {
+    const words = draftToWords(rows)
+    const problem = validateDraftWordSet(title, words)
+    if (problem) {
+      setErrorMessage(problem)
+      return
+    }
+
+    onSave({
+      ...wordSet,
+      id: wordSet?.id || uuidv4(),
+      title: title.trim(),
+      description: description.trim(),
+      words,
+      spellingLocale: spellingLocale || undefined
+    })
+  }
+
+  const canRegenerate = isGeminiAvailable()
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col">
+        <div className="p-6 border-b border-gray-200">
+          <div className="flex justify-between items-center">
+            <h2 className="text-2xl font-bold text-purple-800">
+              {wordSet ? 'Edit Word Set' : 'Create Word Set'}
+            </h2>
+            <button
+              onClick={onClose}
+              className="text-gray-500 hover:text-gray-700"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <label className="block">
+            <span className="text-gray-700 font-medium">Title</span>
+            <input
+              type="text"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="e.g. Week 3: silent k"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-gray-700 font-medium">Description</span>
+            <input
+              type="text"
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              placeholder="What the set practises"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </label>
+
+          <label className="block">
+            <span className="text-gray-700 font-medium">Spelling</span>
+            <select
+              className="mt-1 w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              value={spellingLocale}
+              onChange={(e) => setSpellingLocale(e.target.value as SpellingLocale | '')}
+            >
+              <option value="">Use the learner's setting</option>
+              <option value="en-GB">UK spelling (colour) - US spelling accepted with a note</option>
+              <option value="en-US">US spelling (color) - UK spelling accepted with a note</option>
+            </select>
+          </label>
+
+          <div>
+            <span className="block text-gray-700 font-medium mb-2">Words</span>
+            <ul className="space-y-3">
+              {rows.map((row, index) => (
+                <li key={row.key}>
+                  <WordRowEditor
+                    row={row}
+                    onChange={(changes) => updateRow(row.key, changes)}
+                    onRemove={() => removeRow(row.key)}
+                    onRegenerate={canRegenerate ? () => handleRegenerate(row) : undefined}
+                    isRegenerating={regeneratingKey === row.key}
+                    regenerateDisabled={regeneratingKey !== null}
+                    onMove={(direction) => moveRow(index, direction)}
+                    isFirst={index === 0}
+                    isLast={index === rows.length - 1}
+                  />
+                </li>
+              ))}
+            </ul>
+            <button
+              onClick={() => setRows(prev => [...prev, createDraftWord()])}
+              className="mt-3 px-4 py-2 text-green-600 hover:bg-green-50 rounded-md font-medium flex items-center"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+              </svg>
+              Add Word
+            </button>
+          </div>
+
+          {errorMessage && (
+            <div className="p-3 bg-red-100 text-red-700 rounded-lg">
+              {errorMessage}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 border-t border-gray-200 flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-600 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={regeneratingKey !== null}
+            className={`px-6 py-2 rounded-md text-white font-medium ${
+              regeneratingKey !== null
+                ? 'bg-purple-400 cursor-not-allowed'
+                : 'bg-purple-600 hover:bg-purple-700'
+            }`}
+          >
+            Save Word Set
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default WordSetEditorDialog
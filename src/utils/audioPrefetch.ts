@@ -0,0 +1,117 @@
+import { ClozeSentence, prepareClozeSentences } from './cloze';
+import { Utterance, prepareUtterances } from './elevenLabsService';
+import { getFeedbackMessages } from './feedbackMessages';
+import { generateDictationSentences, isGeminiAvailable } from './geminiService';
+import { LETTER_BY_LETTER_HINT_LENGTH } from './hints';
+import { Lesson } from './lesson';
+import { SpellingLocale } from './profiles';
+import { getRequiredSpelling } from './spellingVariants';
+
+type PrefetchWord = {
+  word: string;
+  rule: string;
+  phonetic?: string;
+  variants?: string[];
+  sentence?: string;
+}
+
+// The sentences a test and sentence practice would read for the set
+export type PrefetchSentences = {
+  dictation: Record<string, string>;      // Keyed by lower-case required spelling
+  cloze: Record<string, ClozeSentence>;   // Keyed by lower-case word
+}
+
+/**
+ * List everything a practice session on a word set might say aloud:
+ * each word, its spelling sentence, hint audio, dictation and practice
+ * sentence, plus every feedback phrase
+ *
+ * @param words The words in the set
+ * @param learnerName The active learner's name, used in feedback phrases
+ * @param locale The spelling the learner uses
+ * @param sentences The test and practice sentences found for the words
+ * @returns The utterances to prepare, without duplicates
+ */
+export function buildWordSetUtterances(
+  words: PrefetchWord[],
+  learnerName: string,
+  locale: SpellingLocale = 'en-GB',
+  sentences: PrefetchSentences = { dictation: {}, cloze: {} }
+): Utterance[] {
+  const utterances: Utterance[] = [];
+
+  words.forEach(word => {
+    const spelling = getRequiredSpelling(word, locale);
+    utterances.push({ kind: 'word', text: word.word });
+    utterances.push({ kind: 'spelling', text: spelling });
+    utterances.push({ kind: 'letter-by-letter', text: spelling.slice(0, LETTER_BY_LETTER_HINT_LENGTH) });
+    if (word.phonetic) {
+      utterances.push({ kind: 'phonetic', text: word.phonetic });
+    }
+    utterances.push({ kind: 'dictation', text: spelling, sentence: sentences.dictation[spelling.toLowerCase()] });
+    const cloze = sentences.cloze[word.word.toLowerCase()];
+    if (cloze) {
+      utterances.push({ kind: 'sentence', text: cloze.sentence });
+    }
+  });
+
+  [...getFeedbackMessages(true, learnerName), ...getFeedbackMessages(false, learnerName)]
+    .forEach(message => utterances.push({ kind: 'word', text: message }));
+
+  const seen = new Set<string>();
+  return utterances.filter(utterance => {
+    const key = `${utterance.kind}:${utterance.text}:${utterance.sentence || ''}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Find the sentences a test and sentence practice would read for a word set
+ * Practice reuses sentences Gemini writes here, so their audio is prepared too;
+ * if none can be found the words are read on their own, as in practice.
+ *
+ * @param words The words in the set
+ * @param lesson The set's lesson, whose example sentences practice uses
+ * @param locale The spelling the learner uses
+ */
+export async function findWordSetSentences(
+  words: PrefetchWord[],
+  lesson: Lesson | undefined,
+  locale: SpellingLocale
+): Promise<PrefetchSentences> {
+  const dictation = isGeminiAvailable()
+    ? await generateDictationSentences(words.map(word => getRequiredSpelling(word, locale)), locale)
+      .catch(error => {
+        console.warn('No test sentences could be prepared:', error);
+        return {};
+      })
+    : {};
+  const cloze = await prepareClozeSentences(words, lesson, locale);
+  return { dictation, cloze };
+}
+
+/**
+ * Synthesize and cache all the audio for a word set so practice works offline
+ *
+ * @param words The words in the set
+ * @param learnerName The active learner's name, used in feedback phrases
+ * @param locale The spelling the learner uses
+ * @param lesson The set's lesson, whose example sentences practice uses
+ * @param onProgress Called after each utterance with the number done so far
+ * @param signal Optional signal to stop part way through
+ * @returns Promise resolving to how many utterances were prepared and how many failed
+ */
+export async function prepareWordSetAudio(
+  words: PrefetchWord[],
+  learnerName: string,
+  locale: SpellingLocale,
+  lesson: Lesson | undefined,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<{ prepared: number; failed: number }> {
+  const sentences = await findWordSetSentences(words, lesson, locale);
+  if (signal?.aborted) return { prepared: 0, failed: 0 };
+  return prepareUtterances(buildWordSetUtterances(words, learnerName, locale, sentences), onProgress, signal);
+}
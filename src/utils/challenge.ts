@@ -0,0 +1,134 @@
+// "Beat the clock" challenge: words are spelled against a timer, correct
+// answers in a row build a combo that multiplies the points, and the best
+// runs on each word set are kept as a personal-best table.
+
+// Local storage key for personal bests (kept alongside learn2spell_word_sets)
+export const PERSONAL_BESTS_STORAGE_KEY = 'learn2spell_personal_bests';
+
+// 'word' gives a fixed time for each word; 'session' one clock for the whole set
+export type ChallengeTimer = 'word' | 'session';
+
+export const SECONDS_PER_WORD = 15;
+
+// The whole-set clock allows this much per word in the set
+export const SESSION_SECONDS_PER_WORD = 8;
+
+// Points for a correct word before the combo multiplier
+export const CHALLENGE_WORD_POINTS = 10;
+
+// Correct answers in a row needed for each step up in the multiplier
+const COMBO_STEP = 3;
+
+const MAX_MULTIPLIER = 4;
+
+// Runs kept in the personal-best table for each word set and timer
+export const MAX_PERSONAL_BESTS = 5;
+
+export type ChallengeRun = {
+  timer: ChallengeTimer;
+  score: number;
+  correct: number;
+  total: number;
+  bestStreak: number;
+  achievedAt: number;
+}
+
+// Personal-best runs keyed by word set id, best first for each timer
+export type PersonalBests = Record<string, ChallengeRun[]>;
+
+/**
+ * Get the time allowed for a challenge
+ *
+ * @param timer The kind of timer
+ * @param wordCount The number of words in the challenge
+ * @returns Seconds allowed for each word, or for the whole set
+ */
+export function getTimeLimit(timer: ChallengeTimer, wordCount: number): number {
+  return timer === 'word' ? SECONDS_PER_WORD : wordCount * SESSION_SECONDS_PER_WORD;
+}
+
+/**
+ * Get the points multiplier for a run of correct answers
+ *
+ * @param streak Correct answers in a row, including the current one
+ * @returns 1 for a short streak, rising every few words up to a cap
+ */
+export function getComboMultiplier(streak: number): number {
+  return Math.min(MAX_MULTIPLIER, 1 + Math.floor(streak / COMBO_STEP));
+}
+
+/**
+ * Work out the points for a correct answer in a challenge
+ *
+ * @param streak Correct answers in a row, including this one
+ */
+export function calculateChallengePoints(streak: number): number {
+  return CHALLENGE_WORD_POINTS * getComboMultiplier(streak);
+}
+
+/**
+ * Sort runs best first and keep the top of the table
+ * Ties go to the run that got there first.
+ */
+export function rankRuns(runs: ChallengeRun[]): ChallengeRun[] {
+  return [...runs]
+    .sort((a, b) => b.score - a.score || a.achievedAt - b.achievedAt)
+    .slice(0, MAX_PERSONAL_BESTS);
+}
+
+/**
+ * Get the personal-best table for a word set and timer
+ *
+ * @param runs The word set's saved runs
+ * @param timer Only include runs against this timer
+ */
+export function getBestRuns(runs: ChallengeRun[], timer: ChallengeTimer): ChallengeRun[] {
+  return rankRuns(runs.filter(run => run.timer === timer));
+}
+
+/**
+ * Add a finished run to a word set's personal bests
+ *
+ * @param bests The current personal bests
+ * @param wordSetId The word set the challenge was played on
+ * @param run The finished run
+ * @returns A new personal bests object; the run is dropped if it doesn't make the table
+ */
+export function recordChallengeRun(bests: PersonalBests, wordSetId: string, run: ChallengeRun): PersonalBests {
+  const runs = bests[wordSetId] || [];
+  const otherTimer = runs.filter(saved => saved.timer !== run.timer);
+  return {
+    ...bests,
+    [wordSetId]: [...otherTimer, ...getBestRuns([...runs, run], run.timer)]
+  };
+}
+
+/**
+ * Load personal bests from local storage
+ *
+ * @param storageKey The local storage key to read from
+ * @returns The saved personal bests, or an empty object if none are saved
+ */
+export function loadPersonalBests(storageKey: string = PERSONAL_BESTS_STORAGE_KEY): PersonalBests {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    return saved ? JSON.parse(saved) as PersonalBests : {};
+  } catch (error) {
+    console.error('Error loading personal bests from local storage:', error);
+    return {};
+  }
+}
+
+/**
+ * Save personal bests to local storage
+ *
+ * @param bests The personal bests to save
+ * @param storageKey The local storage key to write to
+ */
+export function savePersonalBests(bests: PersonalBests, storageKey: string = PERSONAL_BESTS_STORAGE_KEY): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(bests));
+  } catch (error) {
+    console.error('Error saving personal bests to local storage:', error);
+  }
+}
@@ -0,0 +1,108 @@
+import { generateSpellingHelp, isGeminiAvailable } from './geminiService';
+import { Lesson } from './lesson';
+import { SpellingLocale } from './profiles';
+import { getAcceptedSpellings } from './spellingVariants';
+
+// Sentence practice reads a whole sentence aloud and shows it with the word
+// blanked out, so the word is spelled in context. Sentences come from the word
+// itself (written by an adult), then the set's lesson, then Gemini.
+
+export const CLOZE_BLANK = '_____';
+
+export type ClozeSentence = {
+  sentence: string;  // The whole sentence, as read aloud
+  before: string;    // The text shown before the blank
+  after: string;     // The text shown after the blank
+}
+
+// Sentences Gemini wrote this visit, keyed by locale and lower-case word, so
+// practice uses the same sentences its audio was prepared with
+const generatedSentences = new Map<string, ClozeSentence>();
+
+type ClozeWord = {
+  word: string;
+  rule: string;
+  variants?: string[];
+  sentence?: string;  // A sentence written for the word by an adult
+}
+
+/**
+ * Blank a word out of a sentence
+ * Any accepted spelling of the word counts, as a whole word (or with 's) and ignoring case;
+ * only the first time it appears is blanked.
+ *
+ * @param sentence The sentence to blank the word out of
+ * @param word The word, with any other accepted spellings
+ * @param locale The spelling the learner uses
+ * @returns The sentence split around the blank, or null if the word isn't in it
+ */
+export function makeCloze(sentence: string, word: ClozeWord, locale: SpellingLocale): ClozeSentence | null {
+  const trimmed = sentence.trim();
+  const spellings = getAcceptedSpellings(word, locale)
+    .map(spelling => spelling.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (!trimmed || spellings.length === 0) return null;
+
+  const match = new RegExp(`(?<![a-z'])(${spellings.join('|')})(?![a-z])`, 'i').exec(trimmed);
+  if (!match) return null;
+
+  return {
+    sentence: trimmed,
+    before: trimmed.slice(0, match.index),
+    after: trimmed.slice(match.index + match[0].length)
+  };
+}
+
+/**
+ * Choose the first sentence that can be blanked for a word
+ *
+ * @param candidates Sentences in order of preference
+ * @returns The blanked sentence, or null if none of them use the word
+ */
+export function pickClozeSentence(candidates: string[], word: ClozeWord, locale: SpellingLocale): ClozeSentence | null {
+  for (const candidate of candidates) {
+    const cloze = makeCloze(candidate, word, locale);
+    if (cloze) return cloze;
+  }
+  return null;
+}
+
+/**
+ * Find a sentence for every word before sentence practice starts
+ * Gemini is only asked about words with no usable sentence of their own, in
+ * the lesson or from earlier this visit; a word it can't help with is left out
+ * and practised without one.
+ *
+ * @param words The words to practise
+ * @param lesson The set's lesson, whose example sentences are used next
+ * @param locale The spelling the learner uses
+ * @returns Sentences keyed by lower-case word
+ */
+export async function prepareClozeSentences(
+  words: ClozeWord[],
+  lesson: Lesson | undefined,
+  locale: SpellingLocale
+): Promise<Record<string, ClozeSentence>> {
+  const sentences: Record<string, ClozeSentence> = {};
+
+  for (const word of words) {
+    const key = word.word.toLowerCase();
+    const lessonWord = lesson?.words.find(entry => entry.word.toLowerCase() === key);
+    let cloze = pickClozeSentence([word.sentence || '', ...(lessonWord?.sentences || [])], word, locale)
+      || generatedSentences.get(`${locale}:${key}`)
+      || null;
+
+    if (!cloze && isGeminiAvailable()) {
+      try {
+        const help = await generateSpellingHelp(word.word, word.rule, locale);
+        cloze = pickClozeSentence(help.sentences, word, locale);
+        if (cloze) generatedSentences.set(`${locale}:${key}`, cloze);
+      } catch (error) {
+        console.warn(`No sentence could be generated for "${word.word}":`, error);
+      }
+    }
+
+    if (cloze) sentences[key] = cloze;
+  }
+
+  return sentences;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getInflections, getStem, getUndoubledBase, hasDefinitionLeak, maskDefinitionLeaks } from './definitionLeaks';
+
+describe('getInflections', () => {
+  it('doubles the final consonant of a short word', () => {
+    expect(getInflections('run')).toEqual(expect.arrayContaining(['runs', 'running', 'runner']));
+    expect(getInflections('hop')).toEqual(expect.arrayContaining(['hopped', 'hopping']));
+  });
+
+  it('drops a final e and turns a final y into i', () => {
+    expect(getInflections('make')).toEqual(expect.arrayContaining(['making', 'maker', 'makes']));
+    expect(getInflections('carry')).toEqual(expect.arrayContaining(['carries', 'carried']));
+  });
+});
+
+describe('getUndoubledBase', () => {
+  it.each([
+    ['running', 'run'],
+    ['stopped', 'stop'],
+    ['bigger', 'big'],
+    ['travelling', 'travel']
+  ])('finds %s came from %s', (word, base) => {
+    expect(getUndoubledBase(word)).toBe(base);
+  });
+
+  it.each(['system', 'seed', 'added', 'feeling'])('finds no doubled consonant in %s', word => {
+    expect(getUndoubledBase(word)).toBeNull();
+  });
+});
+
+describe('getStem', () => {
+  it('strips a common ending from a long enough word', () => {
+    expect(getStem('systems')).toBe('system');
+    expect(getStem('station')).toBe('station');
+  });
+
+  it('gives no stem for a short word', () => {
+    expect(getStem('run')).toBeNull();
+  });
+});
+
+describe('finding leaks', () => {
+  it('catches other forms of a word with a doubled final consonant', () => {
+    expect(hasDefinitionLeak('running', 'How fast someone runs')).toBe(true);
+    expect(hasDefinitionLeak('running', 'Moving fast on foot')).toBe(false);
+    expect(maskDefinitionLeaks('stopped', 'Came to a stop')).toBe('Came to a ____');
+  });
+
+  it('catches the word, its inflections and words sharing its stem', () => {
+    expect(maskDefinitionLeaks('system', 'Systems are systematic')).toBe('____ are ____');
+    expect(hasDefinitionLeak('happy', 'Feeling glad')).toBe(false);
+  });
+});
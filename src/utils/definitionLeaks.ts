@@ -0,0 +1,147 @@
+// Finds the answer hidden in a clue. Definitions are shown on screen while the
+// learner spells the word, so "A system of connected parts" for "system" gives
+// the answer away - as do "systems", "systematic" and friends.
+
+// Shown in place of a leaked word
+export const LEAK_MASK = '____';
+
+// Stems shorter than this are too likely to match unrelated words, so short
+// words are only matched in full or with regular endings
+const MIN_STEM_LENGTH = 4;
+
+// Endings stripped to find a word's stem, longest first
+const STEM_SUFFIXES = [
+  'ations', 'ation', 'itions', 'ition', 'tions', 'tion', 'sions', 'sion',
+  'ments', 'ment', 'ness', 'ings', 'ing', 'ical', 'ally', 'ers', 'est', 'ied', 'ies',
+  'al', 'er', 'ed', 'es', 'ly', 'e', 's', 'y'
+];
+
+const VOWELS = 'aeiou';
+
+export type DefinitionLeak = {
+  start: number;  // Index of the first character in the text
+  end: number;    // Index after the last character
+  text: string;   // The leaked word as it appears in the text
+}
+
+/**
+ * List the regular inflections of a word: plurals, past tense, -ing, comparatives and -ly
+ *
+ * @param word The word
+ * @returns Lower-case forms, including the word itself
+ */
+export function getInflections(word: string): string[] {
+  const lower = word.toLowerCase();
+  const forms = new Set([lower, ...['s', 'es', 'ed', 'ing', 'er', 'est', 'ly'].map(ending => lower + ending)]);
+
+  const last = lower[lower.length - 1];
+  const beforeLast = lower[lower.length - 2];
+  const base = lower.slice(0, -1);
+
+  // make -> making, maker
+  if (last === 'e') {
+    ['d', 'r', 'st'].forEach(ending => forms.add(lower + ending));
+    ['ing', 'ed', 'er', 'est'].forEach(ending => forms.add(base + ending));
+  }
+
+  // carry -> carries, carried, happily
+  if (last === 'y' && beforeLast && !VOWELS.includes(beforeLast)) {
+    ['ies', 'ied', 'ier', 'iest', 'ily'].forEach(ending => forms.add(base + ending));
+  }
+
+  // hop -> hopping, hopped
+  const beforeBeforeLast = lower[lower.length - 3];
+  if (
+    last && !VOWELS.includes(last) && !'wxy'.includes(last) &&
+    beforeLast && VOWELS.includes(beforeLast) &&
+    (!beforeBeforeLast || !VOWELS.includes(beforeBeforeLast))
+  ) {
+    ['ed', 'ing', 'er', 'est'].forEach(ending => forms.add(lower + last + ending));
+  }
+
+  return Array.from(forms);
+}
+
+/**
+ * Find the word an inflection with a doubled final consonant came from, e.g. running -> run
+ * Such bases are often too short to have a stem, so their inflections are matched instead.
+ *
+ * @param word The word
+ * @returns The lower-case base, or null if the word doesn't double its final consonant
+ */
+export function getUndoubledBase(word: string): string | null {
+  const lower = word.toLowerCase();
+  const match = /^(.+)(ing|ed|er|est)$/.exec(lower);
+  if (!match) return null;
+
+  const doubled = match[1];
+  const last = doubled[doubled.length - 1];
+  if (VOWELS.includes(last) || doubled[doubled.length - 2] !== last) return null;
+
+  // Two-letter bases ("added" -> "ad") are more likely to be words of their own
+  const base = doubled.slice(0, -1);
+  return base.length > 2 && getInflections(base).includes(lower) ? base : null;
+}
+
+/**
+ * Get the stem of a word by stripping a common ending, e.g. physical -> physic
+ *
+ * @param word The word
+ * @returns The lower-case stem, or null if the word is too short to have a useful one
+ */
+export function getStem(word: string): string | null {
+  const lower = word.toLowerCase();
+  const suffix = STEM_SUFFIXES.find(ending =>
+    lower.endsWith(ending) && lower.length - ending.length >= MIN_STEM_LENGTH
+  );
+  const stem = suffix ? lower.slice(0, -suffix.length) : lower;
+  return stem.length >= MIN_STEM_LENGTH ? stem : null;
+}
+
+/**
+ * Find every place a text gives away the target word
+ * A leak is the word itself, one of its inflections (or those of the word it
+ * was inflected from, e.g. "runs" for "running"), or any word starting with its stem.
+ *
+ * @param word The target word
+ * @param text The definition or sentence to check
+ * @returns The leaks in order of appearance
+ */
+export function findDefinitionLeaks(word: string, text: string): DefinitionLeak[] {
+  if (!word.trim() || !text) return [];
+
+  const base = getUndoubledBase(word.trim());
+  const forms = new Set([...getInflections(word.trim()), ...(base ? getInflections(base) : [])]);
+  const stem = getStem(word.trim());
+  const leaks: DefinitionLeak[] = [];
+
+  for (const match of text.matchAll(/[a-zA-Z]+(?:'[a-zA-Z]+)?/g)) {
+    const token = match[0].toLowerCase();
+    if (forms.has(token) || (stem && token.startsWith(stem))) {
+      leaks.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+    }
+  }
+
+  return leaks;
+}
+
+/**
+ * Check whether a text gives away the target word
+ */
+export function hasDefinitionLeak(word: string, text: string): boolean {
+  return findDefinitionLeaks(word, text).length > 0;
+}
+
+/**
+ * Replace every leak of the target word in a text with a blank
+ *
+ * @param word The target word
+ * @param text The definition or sentence to mask
+ * @param mask What to show instead of each leak
+ * @returns The masked text
+ */
+export function maskDefinitionLeaks(word: string, text: string, mask: string = LEAK_MASK): string {
+  return findDefinitionLeaks(word, text)
+    .reverse()
+    .reduce((masked, leak) => masked.slice(0, leak.start) + mask + masked.slice(leak.end), text);
+}
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  buildCacheKey,
+  getSpeechProvider,
+  pronounceDictation,
+  pronounceSpelling,
+  pronounceWord,
+  setPreferredVoice,
+  setSpeechLocale,
+  setSpeechProvider
+} from './elevenLabsService';
+import { MockSpeechProvider, SpeechProvider } from './speechProviders';
+
+const SETTINGS = { stability: 0.8, similarity_boost: 0.7 };
+
+describe('buildCacheKey', () => {
+  it('gives the same key for the same utterance', () => {
+    expect(buildCacheKey('cat', 'alice', SETTINGS, 'model')).toBe(buildCacheKey('cat', 'alice', { ...SETTINGS }, 'model'));
+  });
+
+  it('gives a different key when anything that changes the audio changes', () => {
+    const key = buildCacheKey('cat', 'alice', SETTINGS, 'model');
+
+    expect(buildCacheKey('Cat', 'alice', SETTINGS, 'model')).not.toBe(key);
+    expect(buildCacheKey('cat', 'bella', SETTINGS, 'model')).not.toBe(key);
+    expect(buildCacheKey('cat', 'alice', { ...SETTINGS, stability: 0.5 }, 'model')).not.toBe(key);
+    expect(buildCacheKey('cat', 'alice', SETTINGS, 'other-model')).not.toBe(key);
+  });
+});
+
+describe('speech through the active provider', () => {
+  let originalProvider: SpeechProvider;
+  let provider: MockSpeechProvider;
+
+  beforeEach(() => {
+    originalProvider = getSpeechProvider();
+    provider = new MockSpeechProvider();
+    setSpeechProvider(provider);
+    setPreferredVoice(undefined);
+    setSpeechLocale('en-GB');
+  });
+
+  afterEach(() => {
+    setSpeechProvider(originalProvider);
+    setPreferredVoice(undefined);
+    setSpeechLocale('en-GB');
+    vi.restoreAllMocks();
+  });
+
+  it('speaks words with the locale and voice', async () => {
+    await pronounceWord('colour');
+
+    expect(provider.spoken).toHaveLength(1);
+    expect(provider.spoken[0].text).toContain('colour');
+    expect(provider.spoken[0].options?.lang).toBe('en-GB');
+  });
+
+  it('switches voice with the spelling locale unless a voice is preferred', async () => {
+    await pronounceWord('colour');
+    setSpeechLocale('en-US');
+    await pronounceWord('color');
+    setPreferredVoice('my-voice');
+    await pronounceWord('color');
+
+    const [british, american, preferred] = provider.spoken.map(entry => entry.options);
+    expect(american?.lang).toBe('en-US');
+    expect(american?.voiceId).not.toBe(british?.voiceId);
+    expect(preferred?.voiceId).toBe('my-voice');
+  });
+
+  it('reads a dictation as the word, the sentence, then the word again', async () => {
+    await pronounceDictation('ship', 'The ship sailed away.');
+    await pronounceDictation('ship');
+
+    const [withSentence, withoutSentence] = provider.spoken.map(entry => entry.text);
+    expect(withSentence.split(' ... ')).toHaveLength(3);
+    expect(withSentence).toContain('The ship sailed away.');
+    expect(withoutSentence.split(' ... ')).toHaveLength(2);
+    expect(provider.spoken[0].options?.rate).toBe(0.9);
+  });
+
+  it('passes provider failures on to the caller', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setSpeechProvider(new MockSpeechProvider({ fail: true }));
+
+    await expect(pronounceSpelling('ship')).rejects.toThrow('Mock speech provider failure');
+  });
+});
@@ -1,3 +1,12 @@
+import {
+  SpeechProvider,
+  SpeakOptions,
+  SpeechVoice,
+  WebSpeechProvider,
+  FallbackSpeechProvider
+} from './speechProviders';
+import { SpellingLocale } from './profiles';
+
 // Initialize the ElevenLabs API
 const API_KEY = import.meta.env.VITE_ELEVENLABS_API_KEY || '';
 
@@ -9,6 +18,42 @@ const hasValidApiKey = () => {
 // Alice's voice ID - the ONLY voice we'll use
 const ALICE_VOICE_ID = import.meta.env.VITE_ALICE_VOICE_ID || "Xb7hH8MSUJpSbSDYk0k2";
 
+// Default voice for American spelling, used instead of Alice when no voice is preferred
+const US_VOICE_ID = import.meta.env.VITE_US_VOICE_ID || "21m00Tcm4TlvDq8ikWAM";
+
+// The active learner profile's preferred voice, if any
+let preferredVoiceId: string | undefined;
+
+// Accent words are spoken in - follows the learner's or word set's spelling locale
+let speechLocale: SpellingLocale = 'en-GB';
+
+// Voice used for all speech - the preferred voice, or the default for the spelling locale
+let activeVoiceId = ALICE_VOICE_ID;
+
+const updateActiveVoice = () => {
+  activeVoiceId = preferredVoiceId || (speechLocale === 'en-US' ? US_VOICE_ID : ALICE_VOICE_ID);
+};
+
+/**
+ * Set the voice used for all speech
+ * 
+ * @param voiceId ElevenLabs voice id, or undefined to go back to the locale's default voice
+ */
+export function setPreferredVoice(voiceId?: string): void {
+  preferredVoiceId = voiceId || undefined;
+  updateActiveVoice();
+}
+
+/**
+ * Set the accent used for speech, so words are read the way they are spelled
+ * 
+ * @param locale The spelling locale of the words being practised
+ */
+export function setSpeechLocale(locale: SpellingLocale): void {
+  speechLocale = locale;
+  updateActiveVoice();
+}
+
 // Voice settings configuration - ONLY normal speed
 const VOICE_SETTINGS = {
   normal: {
@@ -19,15 +64,70 @@ const VOICE_SETTINGS = {
   }
 };
 
-// In-memory cache for audio during the current session
-const sessionAudioCache = new Map<string, string>();
+// Model used for every request - part of the cache key
+const MODEL_ID = 'eleven_monolingual_v1';
+
+// Limits for the persistent cache; least recently played audio is evicted first
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 2000;
+
+// Object URLs kept alive for the current session
+const MAX_SESSION_CACHE_ENTRIES = 200;
+
+/**
+ * Build the cache key for an utterance
+ * Anything that changes the audio (text, voice, settings, model) is part of the key.
+ */
+export function buildCacheKey(text: string, voiceId: string, settings: object, modelId: string): string {
+  return `${modelId}|${voiceId}|${JSON.stringify(settings)}|${text}`;
+}
+
+// In-memory cache of object URLs for audio played during the current session.
+// Map keeps insertion order, so re-inserting on use makes the first key the least recently used.
+class SessionAudioCache {
+  private urls = new Map<string, string>();
+
+  get(key: string): string | undefined {
+    const url = this.urls.get(key);
+    if (url) {
+      this.urls.delete(key);
+      this.urls.set(key, url);
+    }
+    return url;
+  }
+
+  set(key: string, blob: Blob): string {
+    const url = URL.createObjectURL(blob);
+    this.urls.set(key, url);
+    
+    // Release the least recently used URLs beyond the limit
+    while (this.urls.size > MAX_SESSION_CACHE_ENTRIES) {
+      const [oldestKey, oldestUrl] = this.urls.entries().next().value as [string, string];
+      URL.revokeObjectURL(oldestUrl);
+      this.urls.delete(oldestKey);
+    }
+    return url;
+  }
+}
+
+const sessionAudioCache = new SessionAudioCache();
+
+type CachedAudio = {
+  id: string;
+  blob: Blob;
+  size: number;
+  createdAt: number;
+  lastAccessedAt: number;
+}
 
 // IndexedDB for persistent storage
 class AudioCache {
   private db: IDBDatabase | null = null;
   private readonly DB_NAME = 'learn2spell_audio_cache';
   private readonly STORE_NAME = 'audio_data';
-  private readonly DB_VERSION = 1;
+  private readonly LAST_ACCESSED_INDEX = 'lastAccessedAt';
+  // Version 2 stores Blobs instead of base64 data URLs
+  private readonly DB_VERSION = 2;
   private dbInitPromise: Promise<boolean>;
 
   constructor() {
@@ -35,8 +135,8 @@ class AudioCache {
   }
 
   private async initDB(): Promise<boolean> {
-    return new Promise((resolve, reject) => {
-      if (!window.indexedDB) {
+    return new Promise((resolve) => {
+      if (typeof window === 'undefined' || !window.indexedDB) {
         console.warn('IndexedDB not supported. Audio will not be cached between sessions.');
         resolve(false);
         return;
@@ -56,27 +156,33 @@ class AudioCache {
 
       request.onupgradeneeded = (event) => {
         const db = (event.target as IDBOpenDBRequest).result;
-        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
-          db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+        // Entries from version 1 used a different format and key, so start afresh
+        if (db.objectStoreNames.contains(this.STORE_NAME)) {
+          db.deleteObjectStore(this.STORE_NAME);
         }
+        const store = db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+        store.createIndex(this.LAST_ACCESSED_INDEX, 'lastAccessedAt', { unique: false });
       };
     });
   }
 
-  async get(key: string): Promise<string | null> {
+  async get(key: string): Promise<Blob | null> {
     // Wait for DB initialization
     const isInitialized = await this.dbInitPromise;
     if (!isInitialized || !this.db) return null;
 
     return new Promise((resolve) => {
       try {
-        const transaction = this.db!.transaction([this.STORE_NAME], 'readonly');
+        const transaction = this.db!.transaction([this.STORE_NAME], 'readwrite');
         const store = transaction.objectStore(this.STORE_NAME);
         const request = store.get(key);
 
         request.onsuccess = () => {
-          if (request.result) {
-            resolve(request.result.audioData);
+          const entry = request.result as CachedAudio | undefined;
+          if (entry) {
+            // Mark as recently used so it survives eviction
+            store.put({ ...entry, lastAccessedAt: Date.now() });
+            resolve(entry.blob);
           } else {
             resolve(null);
           }
@@ -98,35 +204,102 @@ class AudioCache {
     const isInitialized = await this.dbInitPromise;
     if (!isInitialized || !this.db) return false;
 
-    return new Promise((resolve) => {
+    const stored = await new Promise<boolean>((resolve) => {
       try {
-        const reader = new FileReader();
-        reader.readAsDataURL(audioBlob);
+        const transaction = this.db!.transaction([this.STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(this.STORE_NAME);
+        const now = Date.now();
         
-        reader.onloadend = () => {
-          const base64data = reader.result as string;
-          
-          const transaction = this.db!.transaction([this.STORE_NAME], 'readwrite');
-          const store = transaction.objectStore(this.STORE_NAME);
-          
-          // Store the audio data
-          const request = store.put({
-            id: key,
-            audioData: base64data,
-            timestamp: Date.now()
-          });
-          
-          request.onsuccess = () => resolve(true);
-          request.onerror = () => {
-            console.error('Error storing audio in cache', request.error);
-            resolve(false);
-          };
+        // Store the audio data
+        const entry: CachedAudio = {
+          id: key,
+          blob: audioBlob,
+          size: audioBlob.size,
+          createdAt: now,
+          lastAccessedAt: now
+        };
+        const request = store.put(entry);
+        
+        request.onsuccess = () => resolve(true);
+        request.onerror = () => {
+          console.error('Error storing audio in cache', request.error);
+          resolve(false);
         };
       } catch (error) {
         console.error('Error writing to IndexedDB:', error);
         resolve(false);
       }
     });
+
+    if (stored) {
+      await this.evictLeastRecentlyUsed();
+    }
+    return stored;
+  }
+
+  async has(key: string): Promise<boolean> {
+    const isInitialized = await this.dbInitPromise;
+    if (!isInitialized || !this.db) return false;
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = this.db!.transaction([this.STORE_NAME], 'readonly');
+        const request = transaction.objectStore(this.STORE_NAME).count(key);
+        request.onsuccess = () => resolve(request.result > 0);
+        request.onerror = () => resolve(false);
+      } catch {
+        resolve(false);
+      }
+    });
+  }
+
+  // Delete least recently used entries until the cache is within its size limits
+  async evictLeastRecentlyUsed(
+    maxBytes: number = MAX_CACHE_BYTES,
+    maxEntries: number = MAX_CACHE_ENTRIES
+  ): Promise<void> {
+    const isInitialized = await this.dbInitPromise;
+    if (!isInitialized || !this.db) return;
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = this.db!.transaction([this.STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(this.STORE_NAME);
+        const countRequest = store.count();
+        const entries: Array<{ id: string; size: number }> = [];
+        let totalBytes = 0;
+
+        // Collect every entry, least recently used first
+        const cursorRequest = store.index(this.LAST_ACCESSED_INDEX).openCursor();
+        cursorRequest.onsuccess = (event) => {
+          const cursor = (event.target as IDBRequest).result as IDBCursorWithValue;
+          if (cursor) {
+            const entry = cursor.value as CachedAudio;
+            entries.push({ id: entry.id, size: entry.size });
+            totalBytes += entry.size;
+            cursor.continue();
+            return;
+          }
+
+          let entryCount = countRequest.result;
+          for (const entry of entries) {
+            if (totalBytes <= maxBytes && entryCount <= maxEntries) break;
+            store.delete(entry.id);
+            totalBytes -= entry.size;
+            entryCount -= 1;
+          }
+        };
+
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => {
+          console.error('Error evicting cache entries', transaction.error);
+          resolve();
+        };
+      } catch (error) {
+        console.error('Error evicting cache entries:', error);
+        resolve();
+      }
+    });
   }
 
   async clearOldEntries(maxAgeMs: number = 30 * 24 * 60 * 60 * 1000): Promise<void> {
@@ -144,7 +317,7 @@ class AudioCache {
       request.onsuccess = (event) => {
         const cursor = (event.target as IDBRequest).result as IDBCursorWithValue;
         if (cursor) {
-          if (cursor.value.timestamp < cutoffTime) {
+          if (cursor.value.createdAt < cutoffTime) {
             cursor.delete();
           }
           cursor.continue();
@@ -225,39 +398,79 @@ export async function getAllVoices(): Promise<ElevenLabsVoice[]> {
 }
 
 /**
- * Generate speech for a word using Alice's voice at normal speed
- * 
- * @param word The word to generate speech for
- * @returns Promise resolving to the URL of the audio
+ * Text-to-speech using the ElevenLabs API
+ * Every utterance goes through the same cached pipeline: the in-memory session
+ * cache, then IndexedDB, and only then the network.
  */
-export async function generateSpeech(word: string): Promise<string> {
-  try {
-    // Check if API key is valid
-    if (!hasValidApiKey()) {
-      throw new Error("No ElevenLabs API key provided. Set VITE_ELEVENLABS_API_KEY in your .env file.");
+export class ElevenLabsSpeechProvider implements SpeechProvider {
+  readonly name = 'ElevenLabs';
+
+  isAvailable(): boolean {
+    return hasValidApiKey();
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    const audioUrl = await this.getAudioUrl(text, options);
+    const audio = new Audio(audioUrl);
+    await audio.play();
+  }
+
+  async synthesize(text: string, options: SpeakOptions = {}): Promise<Blob> {
+    const voiceId = options.voiceId || activeVoiceId;
+    const cacheKey = buildCacheKey(text, voiceId, VOICE_SETTINGS.normal, MODEL_ID);
+    
+    // Check persistent cache before going to the network
+    const cachedAudio = await audioCache.get(cacheKey);
+    if (cachedAudio) {
+      return cachedAudio;
     }
     
-    // Format the word for consistent pronunciation
-    const formattedWord = formatForConsistentPronunciation(word);
+    const audioBlob = await this.fetchSpeech(text, voiceId);
     
-    // Create a unique cache key
-    const cacheKey = `${formattedWord}-${ALICE_VOICE_ID}-normal`;
+    // Store in persistent cache (don't await to not block)
+    audioCache.set(cacheKey, audioBlob).catch(err => 
+      console.warn('Failed to store audio in persistent cache:', err)
+    );
+    
+    return audioBlob;
+  }
+
+  async listVoices(): Promise<SpeechVoice[]> {
+    const voices = await getAllVoices();
+    return voices.map(voice => ({ id: voice.voice_id, name: voice.name, lang: voice.labels?.accent }));
+  }
+
+  /**
+   * Check whether text is already cached, so it can be played without the network
+   */
+  async isCached(text: string, options: SpeakOptions = {}): Promise<boolean> {
+    const cacheKey = buildCacheKey(text, options.voiceId || activeVoiceId, VOICE_SETTINGS.normal, MODEL_ID);
+    return audioCache.has(cacheKey);
+  }
+
+  /**
+   * Get a playable URL for text, reusing this session's URL when there is one
+   */
+  async getAudioUrl(text: string, options: SpeakOptions = {}): Promise<string> {
+    const cacheKey = buildCacheKey(text, options.voiceId || activeVoiceId, VOICE_SETTINGS.normal, MODEL_ID);
     
     // Check session cache first (fastest)
-    if (sessionAudioCache.has(cacheKey)) {
-      return sessionAudioCache.get(cacheKey)!;
+    const sessionUrl = sessionAudioCache.get(cacheKey);
+    if (sessionUrl) {
+      return sessionUrl;
     }
     
-    // Then check persistent cache
-    const cachedAudio = await audioCache.get(cacheKey);
-    if (cachedAudio) {
-      // Store in session cache for faster access
-      sessionAudioCache.set(cacheKey, cachedAudio);
-      return cachedAudio;
+    const audioBlob = await this.synthesize(text, options);
+    return sessionAudioCache.set(cacheKey, audioBlob);
+  }
+
+  private async fetchSpeech(text: string, voiceId: string): Promise<Blob> {
+    // Check if API key is valid
+    if (!hasValidApiKey()) {
+      throw new Error("No ElevenLabs API key provided. Set VITE_ELEVENLABS_API_KEY in your .env file.");
     }
     
-    // If not in cache, fetch from API
-    const url = `https://api.elevenlabs.io/v1/text-to-speech/${ALICE_VOICE_ID}`;
+    const url = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`;
     
     const response = await fetch(url, {
       method: 'POST',
@@ -267,8 +480,8 @@ export async function generateSpeech(word: string): Promise<string> {
         'xi-api-key': API_KEY
       },
       body: JSON.stringify({
-        text: formattedWord,
-        model_id: 'eleven_monolingual_v1',
+        text,
+        model_id: MODEL_ID,
         voice_settings: VOICE_SETTINGS.normal
       })
     });
@@ -278,21 +491,88 @@ export async function generateSpeech(word: string): Promise<string> {
       throw new Error(`ElevenLabs API error: ${response.status} ${errorText}`);
     }
     
-    // Get the audio data
-    const audioBlob = await response.blob();
-    
-    // Create URL for session cache
-    const audioUrl = URL.createObjectURL(audioBlob);
-    
-    // Store in session cache
-    sessionAudioCache.set(cacheKey, audioUrl);
-    
-    // Store in persistent cache (don't await to not block)
-    audioCache.set(cacheKey, audioBlob).catch(err => 
-      console.warn('Failed to store audio in persistent cache:', err)
-    );
-    
-    return audioUrl;
+    return response.blob();
+  }
+}
+
+const elevenLabsProvider = new ElevenLabsSpeechProvider();
+
+// ElevenLabs when there is a key and network, otherwise the browser's own voice
+let speechProvider: SpeechProvider = new FallbackSpeechProvider(elevenLabsProvider, new WebSpeechProvider());
+
+/**
+ * Replace the provider used for all speech, e.g. with a MockSpeechProvider in tests
+ * 
+ * @param provider The provider to use
+ */
+export function setSpeechProvider(provider: SpeechProvider): void {
+  speechProvider = provider;
+}
+
+/**
+ * Get the provider used for all speech
+ */
+export function getSpeechProvider(): SpeechProvider {
+  return speechProvider;
+}
+
+/**
+ * Speak text with the active provider and voice
+ * 
+ * @param text The text to speak
+ * @param options Extra options such as speaking rate
+ */
+async function speakText(text: string, options: SpeakOptions = {}): Promise<void> {
+  await speechProvider.speak(text, { voiceId: activeVoiceId, lang: speechLocale, ...options });
+}
+
+/**
+ * Format a phonetic breakdown with pauses between each sound
+ */
+function formatPhoneticBreakdown(phoneticBreakdown: string): string {
+  // Format the phonetic breakdown for clearer pronunciation
+  // Add more space and periods to force deliberate speech
+  const formattedBreakdown = phoneticBreakdown
+    .replace(/-/g, '. ') // Replace hyphens with period and space
+    .replace(/\s+/g, '. '); // Replace spaces with period and space
+  
+  // Add more deliberate pauses between sounds
+  return `"${formattedBreakdown}".`;
+}
+
+/**
+ * Format a word to be spelled out letter-by-letter with pauses
+ */
+function formatLetterByLetter(word: string): string {
+  // Simple approach: just add spaces and pauses between each letter
+  const letters = word.split('');
+  // Add space and pause after each letter
+  const simpleSpellOut = letters.join(' . ');
+  
+  // Format for consistent pronunciation
+  return `"${simpleSpellOut}".`;
+}
+
+/**
+ * Join a test word and its sentence the way a dictation is read: the word,
+ * the sentence, then the word again, with the full stops giving the pauses
+ */
+function formatDictation(word: string, sentence?: string): string {
+  const parts = [formatForConsistentPronunciation(word), sentence, formatForConsistentPronunciation(word)];
+  return parts.filter(Boolean).join(' ... ');
+}
+
+/**
+ * Generate speech for a word using Alice's voice at normal speed
+ * 
+ * @param word The word to generate speech for
+ * @returns Promise resolving to the URL of the audio
+ */
+export async function generateSpeech(word: string): Promise<string> {
+  try {
+    // Format the word for consistent pronunciation
+    const formattedWord = formatForConsistentPronunciation(word);
+    return await elevenLabsProvider.getAudioUrl(formattedWord, { voiceId: activeVoiceId });
   } catch (error) {
     console.error('Error generating speech with ElevenLabs:', error);
     throw error;
@@ -306,9 +586,7 @@ export async function generateSpeech(word: string): Promise<string> {
  */
 export async function pronounceWord(word: string): Promise<void> {
   try {
-    const audioUrl = await generateSpeech(word);
-    const audio = new Audio(audioUrl);
-    await audio.play();
+    await speakText(formatForConsistentPronunciation(word));
   } catch (error) {
     console.error('Error pronouncing word:', error);
     throw error;
@@ -325,11 +603,7 @@ export async function pronounceSpelling(word: string): Promise<void> {
   try {
     // Format specifically for spelling pronunciation
     // This ensures consistent voice characteristics
-    const formattedText = `The word is spelled ${word}`;
-    
-    const audioUrl = await generateSpeech(formattedText);
-    const audio = new Audio(audioUrl);
-    await audio.play();
+    await speakText(formatForConsistentPronunciation(`The word is spelled ${word}`));
   } catch (error) {
     console.error('Error pronouncing spelling:', error);
     throw error;
@@ -341,57 +615,18 @@ export async function pronounceSpelling(word: string): Promise<void> {
  * Using Alice's voice at normal speed with added pauses
  * 
  * @param phoneticBreakdown The phonetic breakdown to pronounce
- * @returns Promise that resolves when audio finishes
+ * @returns Promise that resolves when audio starts playing
  */
 export async function pronouncePhoneticBreakdown(phoneticBreakdown: string): Promise<void> {
   try {
-    if (!hasValidApiKey()) {
-      throw new Error("No ElevenLabs API key provided. Set VITE_ELEVENLABS_API_KEY in your .env file.");
-    }
-    
     // Check if phoneticBreakdown is empty or undefined
     if (!phoneticBreakdown || phoneticBreakdown.trim() === '') {
       console.error('Error: Empty phonetic breakdown provided');
       throw new Error('No phonetic breakdown provided');
     }
     
-    // Format the phonetic breakdown for clearer pronunciation
-    // Add more space and periods to force deliberate speech
-    let formattedBreakdown = phoneticBreakdown
-      .replace(/-/g, '. ') // Replace hyphens with period and space
-      .replace(/\s+/g, '. '); // Replace spaces with period and space
-    
-    // Add more deliberate pauses between sounds
-    formattedBreakdown = `"${formattedBreakdown}".`;
-    
-    // Use Alice's voice at normal speed with the formatted text
-    const url = `https://api.elevenlabs.io/v1/text-to-speech/${ALICE_VOICE_ID}`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': API_KEY
-      },
-      body: JSON.stringify({
-        text: formattedBreakdown,
-        model_id: 'eleven_monolingual_v1',
-        voice_settings: VOICE_SETTINGS.normal
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`ElevenLabs API error: ${response.status}`, errorText);
-      throw new Error(`ElevenLabs API error: ${response.status} ${errorText}`);
-    }
-    
-    // Play the audio
-    const audioBlob = await response.blob();
-    const audioUrl = URL.createObjectURL(audioBlob);
-    const audio = new Audio(audioUrl);
-    await audio.play();
+    // Slow the browser voice down; ElevenLabs gets its pauses from the punctuation
+    await speakText(formatPhoneticBreakdown(phoneticBreakdown), { rate: 0.7 });
   } catch (error) {
     console.error('Error pronouncing phonetic breakdown:', error);
     throw error;
@@ -403,59 +638,125 @@ export async function pronouncePhoneticBreakdown(phoneticBreakdown: string): Pro
  * Using Alice's voice at normal speed with added pauses
  * 
  * @param word The word to pronounce letter-by-letter
- * @returns Promise that resolves when audio finishes
+ * @returns Promise that resolves when audio starts playing
  */
 export async function pronounceLetterByLetter(word: string): Promise<void> {
   try {
-    if (!hasValidApiKey()) {
-      throw new Error("No ElevenLabs API key provided. Set VITE_ELEVENLABS_API_KEY in your .env file.");
-    }
-    
     // Check if word is empty or undefined
     if (!word || word.trim() === '') {
       console.error('Error: Empty word provided');
       throw new Error('No word provided');
     }
     
-    // Simple approach: just add spaces and pauses between each letter
-    const letters = word.split('');
-    // Add space and pause after each letter
-    const simpleSpellOut = letters.join(' . ');
-    
-    // Format for consistent pronunciation
-    const formattedSpellOut = `"${simpleSpellOut}".`;
-    
-    // Use Alice's voice at normal speed with the formatted text
-    const url = `https://api.elevenlabs.io/v1/text-to-speech/${ALICE_VOICE_ID}`;
-    
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'Accept': 'audio/mpeg',
-        'Content-Type': 'application/json',
-        'xi-api-key': API_KEY
-      },
-      body: JSON.stringify({
-        text: formattedSpellOut,
-        model_id: 'eleven_monolingual_v1',
-        voice_settings: VOICE_SETTINGS.normal
-      })
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`ElevenLabs API error: ${response.status}`, errorText);
-      throw new Error(`ElevenLabs API error: ${response.status} ${errorText}`);
-    }
-    
-    // Play the audio
-    const audioBlob = await response.blob();
-    const audioUrl = URL.createObjectURL(audioBlob);
-    const audio = new Audio(audioUrl);
-    
-    await audio.play();
+    // Slow the browser voice down; ElevenLabs gets its pauses from the punctuation
+    await speakText(formatLetterByLetter(word), { rate: 0.7 });
   } catch (error) {
     console.error('Error pronouncing word letter-by-letter:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Read a word for a spelling test the way teachers do: the word, a sentence
+ * using it, then the word again
+ * Spoken as one utterance so the three parts can't overlap; the full stops
+ * give the pauses.
+ * 
+ * @param word The word being tested
+ * @param sentence A sentence using the word, or undefined to just repeat the word
+ * @returns Promise that resolves when audio starts playing
+ */
+export async function pronounceDictation(word: string, sentence?: string): Promise<void> {
+  try {
+    await speakText(formatDictation(word, sentence), { rate: 0.9 });
+  } catch (error) {
+    console.error('Error reading dictation:', error);
+    throw error;
+  }
+}
+
+/**
+ * Read a whole sentence aloud, a little slower than normal speech
+ * 
+ * @param sentence The sentence to read
+ * @returns Promise that resolves when audio starts playing
+ */
+export async function pronounceSentence(sentence: string): Promise<void> {
+  try {
+    await speakText(sentence, { rate: 0.9 });
+  } catch (error) {
+    console.error('Error reading sentence:', error);
+    throw error;
+  }
+}
+
+// The kinds of utterance the pronounce functions above produce
+export type UtteranceKind = 'word' | 'spelling' | 'phonetic' | 'letter-by-letter' | 'dictation' | 'sentence';
+
+export type Utterance = {
+  kind: UtteranceKind;
+  text: string;       // The word, message, breakdown or sentence as passed to the pronounce function
+  sentence?: string;  // The sentence read between the two readings of a dictation word
+}
+
+/**
+ * Format an utterance exactly as its pronounce function would,
+ * so prepared audio lands under the same cache key
+ */
+function formatUtterance(utterance: Utterance): string {
+  switch (utterance.kind) {
+    case 'word':
+      return formatForConsistentPronunciation(utterance.text);
+    case 'spelling':
+      return formatForConsistentPronunciation(`The word is spelled ${utterance.text}`);
+    case 'phonetic':
+      return formatPhoneticBreakdown(utterance.text);
+    case 'letter-by-letter':
+      return formatLetterByLetter(utterance.text);
+    case 'dictation':
+      return formatDictation(utterance.text, utterance.sentence);
+    case 'sentence':
+      return utterance.text;
+  }
+}
+
+/**
+ * Whether audio can be prepared ahead of time
+ * Only ElevenLabs audio can be cached; the browser voice needs no preparation.
+ */
+export function canPrepareAudio(): boolean {
+  return elevenLabsProvider.isAvailable();
+}
+
+/**
+ * Synthesize and cache utterances in the background without playing them
+ * 
+ * @param utterances The utterances to prepare
+ * @param onProgress Called after each utterance with the number done so far
+ * @param signal Optional signal to stop part way through
+ * @returns Promise resolving to how many utterances were prepared and how many failed
+ */
+export async function prepareUtterances(
+  utterances: Utterance[],
+  onProgress: (done: number, total: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<{ prepared: number; failed: number }> {
+  let prepared = 0;
+  let failed = 0;
+  
+  // One request at a time keeps us well inside the API rate limits
+  for (const utterance of utterances) {
+    if (signal?.aborted) break;
+    
+    try {
+      await elevenLabsProvider.synthesize(formatUtterance(utterance), { voiceId: activeVoiceId });
+      prepared++;
+    } catch (error) {
+      console.warn(`Failed to prepare audio for "${utterance.text}":`, error);
+      failed++;
+    }
+    onProgress(prepared + failed, utterances.length);
+  }
+  
+  return { prepared, failed };
+}
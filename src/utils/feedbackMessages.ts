@@ -0,0 +1,76 @@
+// Feedback templates spoken and shown after each answer.
+// {name} is replaced with the active learner's name.
+const CORRECT_TEMPLATES = [
+  `Well done, {name}!`,
+  `Great job, {name}!`,
+  `Perfect, {name}!`,
+  `Excellent, {name}!`,
+  `That's right, {name}!`,
+  `Amazing spelling, {name}!`,
+  `Wonderful job, {name}!`,
+  `You're doing great, {name}!`,
+  `Fantastic spelling, {name}!`,
+  `Brilliant work, {name}!`,
+  `Super job, {name}!`,
+  `You're a spelling star, {name}!`,
+  `Magnificent, {name}!`,
+  `Spectacular spelling, {name}!`,
+  `You've got it, {name}!`,
+  `You're so clever, {name}!`,
+  `Terrific job, {name}!`,
+  `You're getting so good at this, {name}!`,
+  `Keep up the great work, {name}!`,
+  `You're making wonderful progress, {name}!`
+];
+
+const INCORRECT_TEMPLATES = [
+  `Try again {name}`,
+  `Not quite {name}`,
+  `Almost {name}`,
+  `Keep trying {name}`,
+  `Don't worry {name}`,
+  `That was a tricky one {name}`,
+  `Nice effort {name}`,
+  `Let's try another one {name}`,
+  `You'll get it next time {name}`,
+  `Let me help you {name}`
+];
+
+/**
+ * Fill in a feedback template for a learner
+ * When the learner has no name the placeholder and its leading
+ * comma or space are dropped, so "Well done, {name}!" becomes "Well done!".
+ *
+ * @param template The template containing {name}
+ * @param name The learner's name
+ * @returns The message to speak or show
+ */
+export function formatFeedback(template: string, name: string): string {
+  const trimmedName = name.trim();
+  if (!trimmedName) {
+    return template.replace(/,?\s*\{name\}/g, '');
+  }
+  return template.replace(/\{name\}/g, trimmedName);
+}
+
+/**
+ * Get every feedback message for a learner
+ *
+ * @param isCorrect Whether to return messages for correct or incorrect answers
+ * @param name The learner's name
+ */
+export function getFeedbackMessages(isCorrect: boolean, name: string): string[] {
+  const templates = isCorrect ? CORRECT_TEMPLATES : INCORRECT_TEMPLATES;
+  return templates.map(template => formatFeedback(template, name));
+}
+
+/**
+ * Pick a random feedback message for a learner
+ *
+ * @param isCorrect Whether the answer was correct
+ * @param name The learner's name
+ */
+export function pickFeedbackMessage(isCorrect: boolean, name: string): string {
+  const messages = getFeedbackMessages(isCorrect, name);
+  return messages[Math.floor(Math.random() * messages.length)];
+}
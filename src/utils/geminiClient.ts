@@ -0,0 +1,71 @@
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+
+// The calls geminiService makes to Gemini. Swap in MockGeminiClient to run
+// the generation code without a network or API key.
+export interface GeminiClient {
+  // Whether requests can be made right now (API key present, ...)
+  isAvailable(): boolean;
+  // Free-form text, e.g. markdown
+  generateText(prompt: string): Promise<string>;
+  // JSON constrained to a response schema, already parsed
+  generateJson(prompt: string, schema: ResponseSchema): Promise<unknown>;
+}
+
+/**
+ * Gemini through Google's SDK, using structured output for JSON requests
+ */
+export class GoogleGeminiClient implements GeminiClient {
+  constructor(private genAI: GoogleGenerativeAI, private modelName: string, private hasApiKey: boolean) {}
+
+  isAvailable(): boolean {
+    return this.hasApiKey;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: this.modelName });
+    const result = await model.generateContent(prompt);
+    return result.response.text();
+  }
+
+  async generateJson(prompt: string, schema: ResponseSchema): Promise<unknown> {
+    const model = this.genAI.getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: schema
+      }
+    });
+    const result = await model.generateContent(prompt);
+    const text = result.response.text();
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      console.error('Gemini returned invalid JSON:', text, error);
+      throw new Error('Failed to parse Gemini API response. Please try again.');
+    }
+  }
+}
+
+/**
+ * Offline client that answers from a handler function and records every prompt, for tests
+ */
+export class MockGeminiClient implements GeminiClient {
+  readonly prompts: string[] = [];
+
+  constructor(private respond: (prompt: string) => unknown, private available: boolean = true) {}
+
+  isAvailable(): boolean {
+    return this.available;
+  }
+
+  async generateText(prompt: string): Promise<string> {
+    this.prompts.push(prompt);
+    return String(this.respond(prompt));
+  }
+
+  async generateJson(prompt: string): Promise<unknown> {
+    this.prompts.push(prompt);
+    return this.respond(prompt);
+  }
+}
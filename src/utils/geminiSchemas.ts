@@ -0,0 +1,190 @@
+import { ResponseSchema, SchemaType } from '@google/generative-ai';
+import { GeneratedContent, WordDefinition } from './geminiService';
+
+// Response schemas sent to Gemini's structured output, plus runtime checks of
+// what comes back - the schema makes valid JSON likely, not guaranteed.
+
+export const WORD_DEFINITIONS_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      word: { type: SchemaType.STRING },
+      definition: { type: SchemaType.STRING },
+      difficulty: { type: SchemaType.INTEGER },
+      rule: { type: SchemaType.STRING },
+      phonetic: { type: SchemaType.STRING },
+      variants: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+      pattern: { type: SchemaType.STRING }
+    },
+    required: ['word', 'definition', 'difficulty']
+  }
+};
+
+export const GENERATED_CONTENT_SCHEMA: ResponseSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    sentences: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    memoryTips: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    etymology: { type: SchemaType.STRING }
+  },
+  required: ['sentences', 'memoryTips']
+};
+
+export const DICTATION_SENTENCES_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: {
+    type: SchemaType.OBJECT,
+    properties: {
+      word: { type: SchemaType.STRING },
+      sentence: { type: SchemaType.STRING }
+    },
+    required: ['word', 'sentence']
+  }
+};
+
+export const WORD_LIST_SCHEMA: ResponseSchema = {
+  type: SchemaType.ARRAY,
+  items: { type: SchemaType.STRING }
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Check one entry of a word definitions response
+ *
+ * @param raw An item from the parsed response
+ * @returns The definition with its fields trimmed, or null if it is unusable
+ */
+export function validateWordDefinition(raw: unknown): WordDefinition | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+
+  if (!isNonEmptyString(entry.word) || !isNonEmptyString(entry.definition)) return null;
+
+  const difficulty = Number(entry.difficulty);
+  if (!Number.isInteger(difficulty) || difficulty < 1 || difficulty > 3) return null;
+
+  const word = entry.word.trim();
+  const variants = Array.isArray(entry.variants)
+    ? validateWordList(entry.variants).filter(variant => variant !== word.toLowerCase())
+    : [];
+  // Only letters that actually appear in the word can be highlighted
+  const pattern = isNonEmptyString(entry.pattern) && /^[a-z]+$/i.test(entry.pattern.trim())
+    && word.toLowerCase().includes(entry.pattern.trim().toLowerCase())
+    ? entry.pattern.trim().toLowerCase()
+    : undefined;
+
+  return {
+    word,
+    definition: entry.definition.trim(),
+    difficulty,
+    ...(isNonEmptyString(entry.rule) ? { rule: entry.rule.trim() } : {}),
+    ...(isNonEmptyString(entry.phonetic) ? { phonetic: entry.phonetic.trim() } : {}),
+    ...(variants.length > 0 ? { variants } : {}),
+    ...(pattern ? { pattern } : {})
+  };
+}
+
+/**
+ * Match a word definitions response to the words that were asked for
+ * Entries are matched on their "word" field rather than their position,
+ * so a reordered, missing or extra entry can't attach to the wrong word.
+ *
+ * @param raw The parsed response
+ * @param words The words that were requested
+ * @returns Valid definitions keyed by lower-case word, and the requested words without one
+ */
+export function matchWordDefinitions(
+  raw: unknown,
+  words: string[]
+): { matched: Record<string, WordDefinition>; missing: string[] } {
+  const requested = new Set(words.map(word => word.trim().toLowerCase()));
+  const matched: Record<string, WordDefinition> = {};
+
+  if (Array.isArray(raw)) {
+    raw.forEach(item => {
+      const definition = validateWordDefinition(item);
+      if (!definition) return;
+      const key = definition.word.toLowerCase();
+      // Keep the first valid entry for each requested word and ignore anything unrequested
+      if (requested.has(key) && !matched[key]) {
+        matched[key] = definition;
+      }
+    });
+  }
+
+  const missing = words.filter(word => !matched[word.trim().toLowerCase()]);
+  return { matched, missing };
+}
+
+/**
+ * Check a spelling help response
+ *
+ * @param raw The parsed response
+ * @returns The content with empty entries dropped, or null if it is unusable
+ */
+export function validateGeneratedContent(raw: unknown): GeneratedContent | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const entry = raw as Record<string, unknown>;
+
+  if (!Array.isArray(entry.sentences) || !Array.isArray(entry.memoryTips)) return null;
+
+  const sentences = entry.sentences.filter(isNonEmptyString).map(sentence => sentence.trim());
+  const memoryTips = entry.memoryTips.filter(isNonEmptyString).map(tip => tip.trim());
+  if (sentences.length === 0) return null;
+
+  return {
+    sentences,
+    memoryTips,
+    ...(isNonEmptyString(entry.etymology) ? { etymology: entry.etymology.trim() } : {})
+  };
+}
+
+/**
+ * Check a word list response
+ *
+ * @param raw The parsed response
+ * @returns The single words in it, lower-cased and without duplicates; anything else is dropped
+ */
+export function validateWordList(raw: unknown): string[] {
+  if (!Array.isArray(raw)) return [];
+
+  const words = raw
+    .filter(isNonEmptyString)
+    .map(word => word.trim().toLowerCase())
+    .filter(word => /^[a-z]+$/.test(word));
+  return Array.from(new Set(words));
+}
+
+/**
+ * Match a dictation sentences response to the words that were asked for
+ * A sentence is only kept if it contains its word exactly, since it is read
+ * aloud between two readings of the word.
+ *
+ * @param raw The parsed response
+ * @param words The words that were requested
+ * @returns Sentences keyed by lower-case word; words without a usable sentence are left out
+ */
+export function matchDictationSentences(raw: unknown, words: string[]): Record<string, string> {
+  const requested = new Set(words.map(word => word.trim().toLowerCase()));
+  const sentences: Record<string, string> = {};
+  if (!Array.isArray(raw)) return sentences;
+
+  raw.forEach(item => {
+    if (typeof item !== 'object' || item === null) return;
+    const entry = item as Record<string, unknown>;
+    if (!isNonEmptyString(entry.word) || !isNonEmptyString(entry.sentence)) return;
+
+    const key = entry.word.trim().toLowerCase();
+    if (!requested.has(key) || sentences[key]) return;
+
+    const escaped = key.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`\\b${escaped}\\b`, 'i').test(entry.sentence)) {
+      sentences[key] = entry.sentence.trim();
+    }
+  });
+
+  return sentences;
+}
@@ -0,0 +1,101 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiClient, MockGeminiClient } from './geminiClient';
+import {
+  generateDefinitionsForWords,
+  generateDictationSentences,
+  generateLesson,
+  generateSpellingHelp,
+  generateWordsForRule,
+  getGeminiClient,
+  isGeminiAvailable,
+  setGeminiClient
+} from './geminiService';
+
+describe('MockGeminiClient', () => {
+  it('answers from its handler and records every prompt', async () => {
+    const client = new MockGeminiClient(prompt => prompt.length);
+
+    expect(await client.generateText('hello')).toBe('5');
+    expect(await client.generateJson('hi')).toBe(2);
+    expect(client.prompts).toEqual(['hello', 'hi']);
+  });
+});
+
+describe('generation through the Gemini client', () => {
+  let originalClient: GeminiClient;
+
+  beforeEach(() => {
+    originalClient = getGeminiClient();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setGeminiClient(originalClient);
+    vi.restoreAllMocks();
+  });
+
+  it('refuses to make requests when the client is unavailable', async () => {
+    const client = new MockGeminiClient(() => 'A lesson', false);
+    setGeminiClient(client);
+
+    expect(isGeminiAvailable()).toBe(false);
+    await expect(generateLesson(['system'], 'y as i')).rejects.toThrow('No Gemini API key provided');
+    expect(client.prompts).toEqual([]);
+  });
+
+  it('asks for the learner\'s spelling and checks the response', async () => {
+    const client = new MockGeminiClient(() => ({
+      sentences: [' The colour is red. ', ''],
+      memoryTips: ['Our colour has "our" in it.']
+    }));
+    setGeminiClient(client);
+
+    const help = await generateSpellingHelp('colour', 'our endings', 'en-GB');
+
+    expect(help).toEqual({ sentences: ['The colour is red.'], memoryTips: ['Our colour has "our" in it.'] });
+    expect(client.prompts[0]).toContain('British English');
+  });
+
+  it('rejects a response without sentences', async () => {
+    setGeminiClient(new MockGeminiClient(() => ({ sentences: [], memoryTips: [] })));
+
+    await expect(generateSpellingHelp('colour', 'our endings')).rejects.toThrow('Failed to parse Gemini API response');
+  });
+
+  it('asks again for definitions that are missing or give the word away, then masks the leak', async () => {
+    const client = new MockGeminiClient(prompt => prompt.includes('system, happy')
+      ? [{ word: 'system', definition: 'A group of parts that work together', difficulty: 2 }]
+      : [{ word: 'happy', definition: 'Feeling happy and glad', difficulty: 1 }]);
+    setGeminiClient(client);
+
+    const definitions = await generateDefinitionsForWords(['system', 'happy']);
+
+    expect(definitions.map(definition => definition.word)).toEqual(['system', 'happy']);
+    expect(definitions[1].definition).toBe('Feeling ____ and glad');
+    // The first request, then both retries for the leaking word
+    expect(client.prompts).toHaveLength(3);
+  });
+
+  it('rejects proposed words that are not real words', async () => {
+    setGeminiClient(new MockGeminiClient(() => ['system', 'zorblax', 'System', 'two words']));
+
+    const proposal = await generateWordsForRule('y making an i sound', '7-9', 5);
+
+    expect(proposal).toEqual({ words: ['system'], rejected: ['zorblax'] });
+  });
+
+  it('only asks for dictation sentences it has not already been given', async () => {
+    const client = new MockGeminiClient(() => [
+      { word: 'myth', sentence: 'The story was a myth.' },
+      { word: 'gym', sentence: 'This sentence leaves the word out.' }
+    ]);
+    setGeminiClient(client);
+
+    expect(await generateDictationSentences(['myth', 'gym'])).toEqual({ myth: 'The story was a myth.' });
+    expect(await generateDictationSentences(['myth', 'gym'])).toEqual({ myth: 'The story was a myth.' });
+    expect(client.prompts).toHaveLength(2);
+    expect(client.prompts[1]).toContain('Words: gym');
+    expect(client.prompts[1]).not.toContain('myth');
+  });
+});
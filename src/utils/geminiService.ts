@@ -1,4 +1,20 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GeminiClient, GoogleGeminiClient } from './geminiClient';
+import {
+  WORD_DEFINITIONS_SCHEMA,
+  GENERATED_CONTENT_SCHEMA,
+  WORD_LIST_SCHEMA,
+  DICTATION_SENTENCES_SCHEMA,
+  matchDictationSentences,
+  matchWordDefinitions,
+  validateGeneratedContent,
+  validateWordList
+} from './geminiSchemas';
+import { hasDefinitionLeak, maskDefinitionLeaks } from './definitionLeaks';
+import { SpellingRule, followsRule } from './spellingRules';
+import { isRecognisedWord } from './offlineDictionary';
+import { AgeBand, SpellingLocale } from './profiles';
+import { LOCALE_NAMES } from './spellingVariants';
 
 // Initialize the Gemini API
 // In a real application, get this from environment variables
@@ -8,18 +24,66 @@ const API_KEY = import.meta.env.VITE_GEMINI_API_KEY || '';
 const MODEL_NAME = import.meta.env.VITE_GEMINI_MODEL || 'gemini-2.0-flash';
 export const genAI = new GoogleGenerativeAI(API_KEY);
 
+// How many times to ask again, one word at a time, for a word whose definition was missing or invalid
+const MAX_WORD_RETRIES = 2;
+
+// Extra words to ask for when generating from a rule, since some proposals are rejected
+const RULE_WORD_SURPLUS = 1.5;
+
+// Dictation sentences written so far this visit, keyed by locale and lower-case word,
+// so a test reads the same sentences its audio was prepared with
+const dictationSentenceCache = new Map<string, string>();
+
+// The client every generation function goes through; replace it with setGeminiClient for tests
+let geminiClient: GeminiClient = new GoogleGeminiClient(genAI, MODEL_NAME, Boolean(API_KEY));
+
+/**
+ * Replace the client used for Gemini requests, e.g. with a MockGeminiClient in tests
+ */
+export function setGeminiClient(client: GeminiClient): void {
+  geminiClient = client;
+}
+
+export function getGeminiClient(): GeminiClient {
+  return geminiClient;
+}
+
+/**
+ * Check whether Gemini can be used, so AI features can be offered
+ */
+export function isGeminiAvailable(): boolean {
+  return geminiClient.isAvailable();
+}
+
+/**
+ * Get the client, failing with a helpful message if there is no API key
+ */
+function requireClient(): GeminiClient {
+  if (!geminiClient.isAvailable()) {
+    throw new Error("No Gemini API key provided. Set VITE_GEMINI_API_KEY in your .env file.");
+  }
+  return geminiClient;
+}
+
 export type GeneratedContent = {
   sentences: string[];
   memoryTips: string[];
   etymology?: string;
 }
 
+export type RuleWordProposal = {
+  words: string[];     // Real words that follow the rule, at most the number asked for
+  rejected: string[];  // Proposals that aren't in the word list or don't follow the rule
+}
+
 export type WordDefinition = {
   word: string;
   definition: string;
   difficulty: number;
   rule?: string;
-  phonetic?: string; // UK English phonetic breakdown like "kuh ah tuh" for "cat"
+  phonetic?: string; // The word split into syllables with '·', like "sys·tem" for "system"
+  variants?: string[]; // Other accepted spellings, e.g. the American spelling of a British word
+  pattern?: string; // The letters in the word that show its spelling rule, e.g. "tion" in "station"
 }
 
 /**
@@ -27,17 +91,16 @@ export type WordDefinition = {
  * 
  * @param word The word to generate content for
  * @param rule The spelling rule that applies to this word
+ * @param locale The spelling the learner uses
  * @returns Object containing sentences, tips, and optional etymology
  */
-export async function generateSpellingHelp(word: string, rule: string): Promise<GeneratedContent> {
+export async function generateSpellingHelp(
+  word: string,
+  rule: string,
+  locale: SpellingLocale = 'en-GB'
+): Promise<GeneratedContent> {
   try {
-    // Check if API key is valid for making real calls
-    if (!API_KEY) {
-      throw new Error("No Gemini API key provided. Set VITE_GEMINI_API_KEY in your .env file.");
-    }
-    
-    // Make a real API call
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
+    const client = requireClient();
     
     const prompt = `
       I need help teaching children how to spell the word "${word}".
@@ -48,89 +111,99 @@ export async function generateSpellingHelp(word: string, rule: string): Promise<
       2. Two memory tips to help remember the spelling.
       3. A brief, simple etymology of the word if relevant.
       
-      Format your response as JSON with these keys:
-      {
-        "sentences": ["sentence1", "sentence2", "sentence3"],
-        "memoryTips": ["tip1", "tip2"],
-        "etymology": "brief etymology if available"
-      }
+      Use ${LOCALE_NAMES[locale]} spelling throughout.
     `;
     
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
-    // Parse the JSON response
-    try {
-      const jsonStart = text.indexOf('{');
-      const jsonEnd = text.lastIndexOf('}') + 1;
-      const jsonString = text.substring(jsonStart, jsonEnd);
-      
-      return JSON.parse(jsonString) as GeneratedContent;
-    } catch (error) {
-      console.error('Error parsing Gemini response:', error);
+    const content = validateGeneratedContent(await client.generateJson(prompt, GENERATED_CONTENT_SCHEMA));
+    if (!content) {
       throw new Error('Failed to parse Gemini API response. Please try again.');
     }
+    return content;
   } catch (error) {
     console.error('Error generating spelling help with Gemini:', error);
     throw error;
   }
 }
 
+/**
+ * Request definitions for a list of words, matching the results by word
+ * Any word whose entry is missing, invalid or gives the word away is asked for
+ * again on its own; leaks that survive the retries are masked.
+ * 
+ * @param words The words to define
+ * @param buildPrompt Builds the prompt for a list of words
+ * @returns Definitions in the same order as the words, leaving out any that still failed
+ */
+async function requestWordDefinitions(
+  words: string[],
+  buildPrompt: (words: string[]) => string
+): Promise<WordDefinition[]> {
+  const client = requireClient();
+  const keyFor = (word: string) => word.trim().toLowerCase();
+  
+  const { matched } = matchWordDefinitions(
+    await client.generateJson(buildPrompt(words), WORD_DEFINITIONS_SCHEMA),
+    words
+  );
+  
+  const needsRetry = (word: string) => {
+    const definition = matched[keyFor(word)];
+    return !definition || hasDefinitionLeak(word, definition.definition);
+  };
+  
+  for (const word of words.filter(needsRetry)) {
+    for (let attempt = 0; attempt < MAX_WORD_RETRIES && needsRetry(word); attempt++) {
+      try {
+        const retry = matchWordDefinitions(
+          await client.generateJson(buildPrompt([word]), WORD_DEFINITIONS_SCHEMA),
+          [word]
+        ).matched[keyFor(word)];
+        // A leaking retry is only better than having no definition at all
+        if (retry && (!hasDefinitionLeak(word, retry.definition) || !matched[keyFor(word)])) {
+          matched[keyFor(word)] = retry;
+        }
+      } catch (error) {
+        console.warn(`Retrying definition for "${word}" failed:`, error);
+      }
+    }
+  }
+  
+  return words
+    .filter(word => matched[keyFor(word)])
+    .map(word => {
+      const definition = matched[keyFor(word)];
+      return { ...definition, word, definition: maskDefinitionLeaks(word, definition.definition) };
+    });
+}
+
 /**
  * Generate definitions for multiple words
  * 
  * @param words Array of words to generate definitions for
  * @param rule The spelling rule these words follow
- * @returns Array of word objects with definitions
+ * @param locale The spelling the learner uses
+ * @returns Array of word objects with definitions, in the order of words; words
+ *          Gemini couldn't define even after retrying are left out
  */
 export async function generateWordDefinitions(
   words: string[], 
-  rule: string
+  rule: string,
+  locale: SpellingLocale = 'en-GB'
 ): Promise<WordDefinition[]> {
   try {
-    // Check if API key is valid for making real calls
-    if (!API_KEY) {
-      throw new Error("No Gemini API key provided. Set VITE_GEMINI_API_KEY in your .env file.");
-    }
-    
-    // Make a real API call
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    
-    const prompt = `
+    return await requestWordDefinitions(words, (requested) => `
       I need child-friendly definitions for the following words that follow the spelling rule: "${rule}".
-      Words: ${words.join(', ')}
+      Words: ${requested.join(', ')}
       
       For each word, provide:
-      1. A simple definition suitable for elementary school children (3rd-5th grade level)
-      2. A difficulty rating (1 for easier words, 2 for more challenging words)
+      1. The word exactly as given
+      2. A simple definition suitable for elementary school children (3rd-5th grade level)
+      3. A difficulty rating (1 for easier words, 2 for more challenging words)
+      4. Any other accepted spellings of the word, such as its British or American spelling
+      5. The letters in the word that show the spelling rule, exactly as they appear in the word (e.g. "tion" in "station")
       
-      Format your response as JSON with this structure:
-      [
-        {
-          "word": "word1",
-          "definition": "simple definition",
-          "difficulty": 1
-        },
-        // more words...
-      ]
-    `;
-    
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
-    
-    // Parse the JSON response
-    try {
-      const jsonStart = text.indexOf('[');
-      const jsonEnd = text.lastIndexOf(']') + 1;
-      const jsonString = text.substring(jsonStart, jsonEnd);
-      
-      return JSON.parse(jsonString) as WordDefinition[];
-    } catch (error) {
-      console.error('Error parsing Gemini response:', error);
-      throw new Error('Failed to parse Gemini API response. Please try again.');
-    }
+      Write the definitions in ${LOCALE_NAMES[locale]}.
+    `);
   } catch (error) {
     console.error('Error generating definitions with Gemini:', error);
     throw error;
@@ -142,17 +215,16 @@ export async function generateWordDefinitions(
  * 
  * @param words Array of words that follow a common spelling rule
  * @param rule The spelling rule these words follow
+ * @param locale The spelling the learner uses
  * @returns A structured lesson with examples and activities
  */
-export async function generateLesson(words: string[], rule: string): Promise<string> {
+export async function generateLesson(
+  words: string[],
+  rule: string,
+  locale: SpellingLocale = 'en-GB'
+): Promise<string> {
   try {
-    // Check if API key is valid for making real calls
-    if (!API_KEY) {
-      throw new Error("No Gemini API key provided. Set VITE_GEMINI_API_KEY in your .env file.");
-    }
-    
-    // Make a real API call
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
+    const client = requireClient();
     
     const prompt = `
       Create a short, engaging lesson for elementary school children about the spelling rule:
@@ -166,11 +238,10 @@ export async function generateLesson(words: string[], rule: string): Promise<str
       3. A simple activity idea
       
       Format as markdown and keep it brief, positive and encouraging.
+      Use ${LOCALE_NAMES[locale]} spelling throughout.
     `;
     
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    return response.text();
+    return await client.generateText(prompt);
   } catch (error) {
     console.error('Error generating lesson with Gemini:', error);
     throw error;
@@ -182,63 +253,124 @@ export async function generateLesson(words: string[], rule: string): Promise<str
  * Specifically designed for quick word set generation with date in name
  * 
  * @param words Array of words to generate definitions for
- * @returns Array of word objects with definitions, rules, and difficulty
+ * @param locale The spelling and pronunciation the learner uses
+ * @returns Array of word objects with definitions, rules, and difficulty, in the
+ *          order of words; words Gemini couldn't define even after retrying are left out
  */
 export async function generateDefinitionsForWords(
-  words: string[]
+  words: string[],
+  locale: SpellingLocale = 'en-GB'
 ): Promise<WordDefinition[]> {
+  const language = LOCALE_NAMES[locale];
   try {
-    // Check if API key is valid for making real calls
-    if (!API_KEY) {
-      throw new Error("No Gemini API key provided. Set VITE_GEMINI_API_KEY in your .env file.");
-    }
-    
-    // Make a real API call
-    const model = genAI.getGenerativeModel({ model: MODEL_NAME });
-    
-    const prompt = `
-      I need child-friendly definitions and UK English phonetic breakdowns for these words: ${words.join(', ')}
+    return await requestWordDefinitions(words, (requested) => `
+      I need child-friendly definitions and ${language} syllable breakdowns for these words: ${requested.join(', ')}
       
       For each word, provide:
-      1. A simple definition suitable for elementary school children (ages 7-11) in British English.
+      1. The word exactly as given
+      2. A simple definition suitable for elementary school children (ages 7-11) in ${language}.
          IMPORTANT: Do NOT include the word itself in the definition - define it without using the actual word.
-      2. A difficulty rating (1 for easier words, 2 for medium, 3 for challenging)
-      3. A phonetic breakdown that spells out each sound in the word using UK English pronunciation
-         (e.g., "cat" would be "k-a-t" or similar, using UK English sounds)
-      4. If the word contains the letter 'y' that makes the short 'i' sound (/I/), note this in the rule field
+      3. A difficulty rating (1 for easier words, 2 for medium, 3 for challenging)
+      4. The word split into its syllables with the '·' character, using the word's exact letters
+         so the syllables spell the word when joined (e.g., "system" would be "sys·tem", "cat" would be "cat")
+      5. If the word contains the letter 'y' that makes the short 'i' sound (/I/), note this in the rule field
+      6. Any other accepted spellings of the word, such as its British or American spelling (leave empty if there are none)
+      7. The letters in the word that show its spelling rule, exactly as they appear in the word (e.g. "y" in "system", "tion" in "station")
       
-      Use British English spelling conventions and pronunciation in all your responses.
+      Use ${language} spelling conventions and pronunciation in all your responses.
+    `);
+  } catch (error) {
+    console.error('Error generating definitions with Gemini:', error);
+    throw error;
+  }
+}
+
+/**
+ * Propose spelling words that follow a rule
+ * Proposals are checked against the local word list so invented words are
+ * rejected, and against the rule's pattern when it is a curriculum rule.
+ * 
+ * @param rule A curriculum rule, or a rule typed in by the parent
+ * @param ageBand The age of the learner, to pitch the words at
+ * @param count How many words to propose
+ * @param locale The spelling the learner uses
+ * @returns The accepted words, in the order Gemini gave them, and the rejected ones
+ */
+export async function generateWordsForRule(
+  rule: SpellingRule | string,
+  ageBand: AgeBand,
+  count: number,
+  locale: SpellingLocale = 'en-GB'
+): Promise<RuleWordProposal> {
+  try {
+    const client = requireClient();
+    const ruleText = typeof rule === 'string' ? rule : `${rule.name}: ${rule.description}`;
+    const examples = typeof rule === 'string' ? [] : rule.examples;
+    
+    const prompt = `
+      I need spelling words for children aged ${ageBand} that follow this spelling rule:
+      "${ruleText}"
+      ${examples.length > 0 ? `For example: ${examples.join(', ')}` : ''}
       
-      Format your response as JSON with this structure:
-      [
-        {
-          "word": "word1",
-          "definition": "simple definition using British English WITHOUT using the word itself",
-          "difficulty": 1,
-          "phonetic": "British English phonetic breakdown of sounds",
-          "rule": "This word has the /I/ sound spelled with 'y'" (only if applicable)
-        },
-        // more words...
-      ]
+      List ${Math.ceil(count * RULE_WORD_SURPLUS)} different real English words that clearly follow the rule.
+      Choose words a child of this age would know or be learning, using ${LOCALE_NAMES[locale]} spelling.
+      Give single words only, in lower case, with no names or abbreviations.
     `;
     
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const proposals = validateWordList(await client.generateJson(prompt, WORD_LIST_SCHEMA));
+    const isAccepted = (word: string) =>
+      isRecognisedWord(word) && (typeof rule === 'string' || followsRule(word, rule));
     
-    // Parse the JSON response
-    try {
-      const jsonStart = text.indexOf('[');
-      const jsonEnd = text.lastIndexOf(']') + 1;
-      const jsonString = text.substring(jsonStart, jsonEnd);
+    return {
+      words: proposals.filter(isAccepted).slice(0, count),
+      rejected: proposals.filter(word => !isAccepted(word))
+    };
+  } catch (error) {
+    console.error('Error generating words for rule with Gemini:', error);
+    throw error;
+  }
+}
+
+/**
+ * Generate one sentence per word for reading aloud in a spelling test
+ * Words given a sentence earlier this visit keep it and aren't asked about again.
+ * 
+ * @param words The words in the test
+ * @param locale The spelling the learner uses
+ * @returns Sentences keyed by lower-case word; words without a usable sentence are left out
+ */
+export async function generateDictationSentences(
+  words: string[],
+  locale: SpellingLocale = 'en-GB'
+): Promise<Record<string, string>> {
+  const cacheKey = (word: string) => `${locale}:${word.trim().toLowerCase()}`;
+  const missing = words.filter(word => !dictationSentenceCache.has(cacheKey(word)));
+
+  try {
+    if (missing.length > 0) {
+      const client = requireClient();
       
-      return JSON.parse(jsonString) as WordDefinition[];
-    } catch (error) {
-      console.error('Error parsing Gemini response:', error);
-      throw new Error('Failed to parse Gemini API response. Please try again.');
+      const prompt = `
+        I am giving children a spelling test. For each of these words, write one short sentence
+        that uses the word exactly as given, to be read aloud between two readings of the word.
+        Words: ${missing.join(', ')}
+        
+        Keep each sentence simple and under 12 words, so the meaning of the word is clear.
+        Use ${LOCALE_NAMES[locale]}.
+      `;
+      
+      const generated = matchDictationSentences(await client.generateJson(prompt, DICTATION_SENTENCES_SCHEMA), missing);
+      Object.entries(generated).forEach(([word, sentence]) => dictationSentenceCache.set(cacheKey(word), sentence));
     }
+
+    const sentences: Record<string, string> = {};
+    words.forEach(word => {
+      const sentence = dictationSentenceCache.get(cacheKey(word));
+      if (sentence) sentences[word.trim().toLowerCase()] = sentence;
+    });
+    return sentences;
   } catch (error) {
-    console.error('Error generating definitions with Gemini:', error);
+    console.error('Error generating dictation sentences with Gemini:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+import { CURRICULUM_RULES } from './spellingRules';
+
+// A word's grapheme pattern marks the letters that carry its spelling rule -
+// the 'y' in "system", the 'tion' in "station". It is stored on the word as
+// the source of a regular expression, plain letters being the simplest case,
+// and turned into letter spans for highlighting, hints and error diagnosis.
+
+export type PatternSpan = {
+  start: number;  // Position of the first letter in the pattern
+  end: number;    // Position just after the last letter
+}
+
+// A run of the word's letters, either inside the pattern or not
+export type PatternSegment = {
+  text: string;
+  highlighted: boolean;
+}
+
+type PatternWord = {
+  word: string;
+  rule: string;
+  pattern?: string;
+}
+
+/**
+ * Turn a stored pattern into a regular expression
+ * A pattern that isn't a valid expression is matched as plain letters.
+ */
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern, 'gi');
+  } catch {
+    return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+  }
+}
+
+/**
+ * Find every place a grapheme pattern matches a word
+ *
+ * @param word The word as it is spelled
+ * @param pattern A regular expression source or plain letters, e.g. "tion$" or "y"
+ * @returns The matched spans in order; empty if there is no pattern or it doesn't match
+ */
+export function findPatternSpans(word: string, pattern: string | undefined): PatternSpan[] {
+  if (!pattern?.trim()) return [];
+
+  const regex = compilePattern(pattern.trim());
+  const spans: PatternSpan[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(word)) !== null) {
+    if (match[0].length === 0) {
+      // Skip empty matches so patterns like "x*" can't loop forever
+      regex.lastIndex++;
+      continue;
+    }
+    spans.push({ start: match.index, end: match.index + match[0].length });
+  }
+  return spans;
+}
+
+/**
+ * Check whether a letter position falls inside any of the spans
+ */
+export function isInPattern(spans: PatternSpan[], index: number): boolean {
+  return spans.some(span => index >= span.start && index < span.end);
+}
+
+/**
+ * Split a word into highlighted and plain runs of letters
+ *
+ * @param word The word as it is spelled
+ * @param spans The spans to highlight, from findPatternSpans
+ * @returns The runs in order; joined together they give back the word
+ */
+export function splitByPattern(word: string, spans: PatternSpan[]): PatternSegment[] {
+  const segments: PatternSegment[] = [];
+  let position = 0;
+  spans.forEach(span => {
+    if (span.start > position) {
+      segments.push({ text: word.slice(position, span.start), highlighted: false });
+    }
+    segments.push({ text: word.slice(span.start, span.end), highlighted: true });
+    position = span.end;
+  });
+  if (position < word.length) {
+    segments.push({ text: word.slice(position), highlighted: false });
+  }
+  return segments;
+}
+
+/**
+ * Suggest a grapheme pattern for a word from its spelling rule
+ * A curriculum rule gives the letters it highlights. Any other rule is searched
+ * for quoted letters ('kn', '-tion', 'un-') that appear in the word, preferring
+ * the longest; a hyphen ties the letters to the end or start of the word.
+ *
+ * @param word The word as it is spelled
+ * @param rule The word's spelling rule, as stored on the word
+ * @returns A pattern that matches the word, or undefined if the rule doesn't suggest one
+ */
+export function suggestPattern(word: string, rule: string): string | undefined {
+  const lowerWord = word.toLowerCase();
+  const trimmedRule = rule.trim();
+
+  const curriculumRule = CURRICULUM_RULES.find(
+    candidate => candidate.description === trimmedRule || candidate.name === trimmedRule
+  );
+  const rulePattern = curriculumRule?.grapheme || curriculumRule?.pattern;
+  if (rulePattern) {
+    return findPatternSpans(lowerWord, rulePattern.source).length > 0 ? rulePattern.source : undefined;
+  }
+
+  const candidates = Array.from(trimmedRule.toLowerCase().matchAll(/'(-?[a-z]+-?)'/g))
+    .map(([, quoted]) => {
+      const letters = quoted.replace(/-/g, '');
+      if (quoted.startsWith('-')) return `${letters}$`;
+      if (quoted.endsWith('-')) return `^${letters}`;
+      return letters;
+    })
+    .filter(candidate => findPatternSpans(lowerWord, candidate).length > 0)
+    .sort((a, b) => b.replace(/[$^]/g, '').length - a.replace(/[$^]/g, '').length);
+
+  return candidates[0];
+}
+
+/**
+ * Find the pattern letters in a word, falling back to a suggestion from its rule
+ *
+ * @param word The word, with its rule and any saved pattern
+ * @param spelling The spelling to search, when it isn't the word as stored (e.g. another locale's)
+ * @returns The spans to highlight, empty if the word has no pattern
+ */
+export function getWordPatternSpans(word: PatternWord, spelling: string = word.word): PatternSpan[] {
+  const pattern = word.pattern?.trim() || suggestPattern(word.word, word.rule);
+  return findPatternSpans(spelling, pattern);
+}
@@ -0,0 +1,77 @@
+import { PatternSpan, isInPattern } from './graphemePatterns';
+
+// Hints available while spelling a word in the practice game
+export type HintKind = 'reveal-letter' | 'pattern' | 'rule' | 'phonetic' | 'letter-by-letter';
+
+// Points for a word spelled correctly without any help
+export const WORD_POINTS = 10;
+
+// Points taken off the word for each hint used
+export const HINT_COSTS: Record<HintKind, number> = {
+  'reveal-letter': 2,
+  'pattern': 3,
+  'rule': 1,
+  'phonetic': 2,
+  'letter-by-letter': 3
+};
+
+// How many letters the letter-by-letter hint spells out
+export const LETTER_BY_LETTER_HINT_LENGTH = 3;
+
+// A correct answer is always worth at least this much, however many hints were used
+const MIN_WORD_POINTS = 1;
+
+/**
+ * Work out the points for a correctly spelled word
+ *
+ * @param hintsUsed Every hint used on the word, in order (repeats allowed)
+ * @returns The points to award
+ */
+export function calculateWordPoints(hintsUsed: HintKind[]): number {
+  const cost = hintsUsed.reduce((total, hint) => total + HINT_COSTS[hint], 0);
+  return Math.max(MIN_WORD_POINTS, WORD_POINTS - cost);
+}
+
+/**
+ * Find the position of the next letter to reveal
+ * This is the first letter the learner hasn't got right yet that
+ * hasn't already been revealed.
+ *
+ * @param word The correct spelling
+ * @param typed What the learner has typed so far
+ * @param revealed Which positions of the word have already been revealed
+ * @returns The position to reveal, or null if there is nothing left to reveal
+ */
+export function getNextRevealPosition(word: string, typed: string, revealed: boolean[]): number | null {
+  const lowerWord = word.toLowerCase();
+  const lowerTyped = typed.toLowerCase();
+  for (let i = 0; i < lowerWord.length; i++) {
+    if (lowerTyped[i] !== lowerWord[i] && !revealed[i]) {
+      return i;
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the letters of the word's pattern that still need revealing
+ * Pattern letters the learner has already typed correctly are left out.
+ *
+ * @param word The correct spelling
+ * @param typed What the learner has typed so far
+ * @param revealed Which positions of the word have already been revealed
+ * @param patternSpans The word's grapheme pattern, from getWordPatternSpans
+ * @returns The positions to reveal; empty if the whole pattern is showing
+ */
+export function getPatternRevealPositions(
+  word: string,
+  typed: string,
+  revealed: boolean[],
+  patternSpans: PatternSpan[]
+): number[] {
+  const lowerWord = word.toLowerCase();
+  const lowerTyped = typed.toLowerCase();
+  return lowerWord.split('')
+    .map((_, index) => index)
+    .filter(index => isInPattern(patternSpans, index) && lowerTyped[index] !== lowerWord[index] && !revealed[index]);
+}
@@ -0,0 +1,81 @@
+import { GeneratedContent, generateLesson, generateSpellingHelp } from './geminiService';
+import { SpellingLocale } from './profiles';
+
+// A word set's lesson page: an overview of the set's spelling rule plus
+// sentences, memory tips and a little history for each word. It is generated
+// once and saved with the set so it can be read offline afterwards.
+
+export type WordLesson = GeneratedContent & {
+  word: string;
+}
+
+export type Lesson = {
+  overview: string;  // Markdown explaining the rule, from generateLesson
+  words: WordLesson[];
+  locale: SpellingLocale;
+  generatedAt: number;
+}
+
+type LessonWord = {
+  word: string;
+  rule: string;
+}
+
+/**
+ * Find the rule a set is built around
+ * This is the rule most of its words share, falling back to the set's
+ * description when the words don't give one.
+ *
+ * @param words The words in the set
+ * @param description The set's description
+ */
+export function getSetRule(words: LessonWord[], description: string): string {
+  const counts = new Map<string, number>();
+  words.forEach(word => {
+    const rule = word.rule.trim();
+    if (rule) counts.set(rule, (counts.get(rule) || 0) + 1);
+  });
+
+  const [mostCommon] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  return mostCommon ? mostCommon[0] : description.trim();
+}
+
+/**
+ * Generate a lesson for a word set with Gemini
+ * The overview must succeed; a word whose help can't be generated is left out
+ * so the rest of the lesson is still saved, and can be filled in by
+ * regenerating later.
+ *
+ * @param words The words in the set
+ * @param description The set's description, used when the words have no rule
+ * @param locale The spelling the learner uses
+ * @param onProgress Called after each word with the number done so far
+ * @returns The finished lesson
+ */
+export async function createLesson(
+  words: LessonWord[],
+  description: string,
+  locale: SpellingLocale,
+  onProgress?: (done: number, total: number) => void
+): Promise<Lesson> {
+  const setRule = getSetRule(words, description);
+  const overview = await generateLesson(words.map(word => word.word), setRule, locale);
+
+  const wordLessons: WordLesson[] = [];
+  for (const [index, word] of words.entries()) {
+    try {
+      const help = await generateSpellingHelp(word.word, word.rule || setRule, locale);
+      wordLessons.push({ ...help, word: word.word });
+    } catch (error) {
+      console.warn(`Lesson content for "${word.word}" could not be generated:`, error);
+    }
+    onProgress?.(index + 1, words.length);
+  }
+
+  return {
+    overview,
+    words: wordLessons,
+    locale,
+    generatedAt: Date.now()
+  };
+}
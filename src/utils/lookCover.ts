@@ -0,0 +1,67 @@
+// Look, Say, Cover, Write, Check - the way spellings are learnt in UK primary
+// schools. The learner looks at the word and says it, it is covered after a
+// few seconds, they write it from memory and then check it against the word.
+
+// Local storage key for the learner's chosen cover delay
+export const COVER_DELAY_STORAGE_KEY = 'learn2spell_cover_delay';
+
+// Each word goes through these steps in turn; looking covers saying it too
+export type LookCoverStep = 'look' | 'write' | 'check';
+
+// Seconds the word can be studied before it is covered
+export const COVER_DELAY_CHOICES = [3, 5, 8, 10];
+export const DEFAULT_COVER_DELAY_SECONDS = 5;
+
+export type LookCoverResult = {
+  word: string;
+  tries: number;      // Writes needed to get the word right, counting the last
+  correct: boolean;   // False if the learner moved on without getting it right
+}
+
+/**
+ * Record one write of a word, adding to its result if it was already tried
+ *
+ * @param results The results so far this session
+ * @param word The word written
+ * @param correct Whether it was written correctly
+ * @returns The updated results, in the order words were first tried
+ */
+export function recordLookCoverTry(results: LookCoverResult[], word: string, correct: boolean): LookCoverResult[] {
+  const existing = results.find(result => result.word === word);
+  if (!existing) {
+    return [...results, { word, tries: 1, correct }];
+  }
+  return results.map(result => result === existing
+    ? { ...result, tries: result.tries + 1, correct }
+    : result);
+}
+
+/**
+ * Load the cover delay from local storage
+ *
+ * @param storageKey The local storage key to read from
+ * @returns The saved delay in seconds, or the default if none is saved
+ */
+export function loadCoverDelay(storageKey: string = COVER_DELAY_STORAGE_KEY): number {
+  try {
+    const saved = Number(localStorage.getItem(storageKey));
+    return COVER_DELAY_CHOICES.includes(saved) ? saved : DEFAULT_COVER_DELAY_SECONDS;
+  } catch (error) {
+    console.error('Error loading cover delay from local storage:', error);
+    return DEFAULT_COVER_DELAY_SECONDS;
+  }
+}
+
+/**
+ * Save the cover delay to local storage
+ *
+ * @param seconds The delay to save
+ * @param storageKey The local storage key to write to
+ */
+export function saveCoverDelay(seconds: number, storageKey: string = COVER_DELAY_STORAGE_KEY): void {
+  try {
+    localStorage.setItem(storageKey, String(seconds));
+  } catch (error) {
+    console.error('Error saving cover delay to local storage:', error);
+  }
+}
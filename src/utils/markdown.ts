@@ -0,0 +1,115 @@
+// A small Markdown reader for the lessons Gemini writes. It covers the parts
+// lessons use - headings, paragraphs, lists, rules and bold/italic/code text -
+// and turns them into plain data, so nothing from the response is ever
+// inserted into the page as HTML.
+
+export type MarkdownInline = {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: MarkdownInline[] }
+  | { type: 'paragraph'; content: MarkdownInline[] }
+  | { type: 'list'; ordered: boolean; items: MarkdownInline[][] }
+  | { type: 'quote'; content: MarkdownInline[] }
+  | { type: 'rule' };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*\d+[.)]\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+const HORIZONTAL_RULE = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const CODE_FENCE = /^\s*```/;
+
+// Bold, italic and code spans; links keep only their text
+const INLINE_TOKEN = /(\*\*[^*]+\*\*|__[^_]+__|\*[^*\s][^*]*\*|_[^_\s][^_]*_|`[^`]+`|\[[^\]]+\]\([^)]*\))/;
+
+/**
+ * Split a line of Markdown into plain and styled runs of text
+ *
+ * @param text One line or paragraph of Markdown
+ * @returns The runs in order; unmatched markers are left as plain text
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  return text
+    .split(INLINE_TOKEN)
+    .filter(part => part !== '')
+    .map(part => {
+      if (/^(\*\*|__).+\1$/.test(part)) return { text: part.slice(2, -2), bold: true };
+      if (/^`.+`$/.test(part)) return { text: part.slice(1, -1), code: true };
+      if (/^\[.+\]\(.*\)$/.test(part)) return { text: part.slice(1, part.indexOf('](')) };
+      if (/^([*_]).+\1$/.test(part)) return { text: part.slice(1, -1), italic: true };
+      return { text: part };
+    });
+}
+
+/**
+ * Read Markdown into blocks ready to render
+ *
+ * @param markdown The Markdown text, optionally wrapped in a code fence
+ * @returns The blocks in order
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: MarkdownInline[][] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+  const flushList = () => {
+    if (list) {
+      blocks.push({ type: 'list', ...list });
+      list = null;
+    }
+  };
+
+  // Models often wrap the whole answer in ```markdown fences
+  const lines = markdown.split(/\r?\n/).filter(line => !CODE_FENCE.test(line));
+
+  lines.forEach(line => {
+    const heading = line.match(HEADING);
+    const unordered = line.match(UNORDERED_ITEM);
+    const listItem = unordered || line.match(ORDERED_ITEM);
+    const quote = line.match(QUOTE);
+
+    if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+    } else if (HORIZONTAL_RULE.test(line)) {
+      flushParagraph();
+      flushList();
+      blocks.push({ type: 'rule' });
+    } else if (heading) {
+      flushParagraph();
+      flushList();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2]) });
+    } else if (listItem) {
+      flushParagraph();
+      const isOrdered = !unordered;
+      if (list && list.ordered !== isOrdered) flushList();
+      if (!list) list = { ordered: isOrdered, items: [] };
+      list.items.push(parseInline(listItem[1]));
+    } else if (quote) {
+      flushParagraph();
+      flushList();
+      blocks.push({ type: 'quote', content: parseInline(quote[1]) });
+    } else if (list && /^\s+/.test(line)) {
+      // An indented line carries on the last list item
+      list.items[list.items.length - 1].push({ text: ` ${line.trim()}` });
+    } else {
+      flushList();
+      paragraph.push(line.trim());
+    }
+  });
+
+  flushParagraph();
+  flushList();
+  return blocks;
+}
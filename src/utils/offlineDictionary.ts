@@ -0,0 +1,802 @@
+import { WordDefinition } from './geminiService';
+import { alignSpelling } from './spellingDiff';
+import { getKnownWords, isKnownWord } from './wordList';
+
+// A small bundled dictionary of common primary-school words, so word sets can
+// be checked and filled in without a Gemini API key. Each entry is the word
+// split into syllables with '·' and a short child-friendly definition that
+// doesn't use the word itself. Headwords use British spelling; American
+// spellings are found through SPELLING_VARIANTS.
+
+const DICTIONARY_ENTRIES: Array<[string, string]> = [
+  // The default word set and other 'y' words
+  ['ox·y·gen', 'The gas in the air that people and animals need to breathe.'],
+  ['lyr·ic', 'The words of a song.'],
+  ['sys·tem', 'A group of parts that work together, or a planned way of doing something.'],
+  ['syr·up', 'A thick, sweet, sticky liquid, often poured on pancakes.'],
+  ['phys·i·cal', 'To do with your body, or with things you can touch and see.'],
+  ['crypt', 'An underground room beneath a church.'],
+  ['crys·tal', 'A clear, sparkly stone or a piece of very fine glass.'],
+  ['cym·bal', 'A round metal plate that makes a crashing sound when it is hit.'],
+  ['typ·i·cal', 'Just as you would expect something of its kind to be.'],
+  ['myth', 'An old story about gods, heroes or magical creatures.'],
+  ['gym', 'A room or building with equipment for exercise.'],
+  ['pyr·a·mid', 'A shape with a square base and triangle sides that meet at a point.'],
+  ['mys·ter·y', 'Something strange that nobody can explain.'],
+  ['sym·bol', 'A sign or picture that stands for something else.'],
+  ['rhythm', 'A regular beat in music, poems or movement.'],
+  ['bi·cy·cle', 'A machine with two wheels that you ride by pushing pedals.'],
+  ['cyl·in·der', 'A solid shape with two round ends and straight sides, like a tin can.'],
+  ['syl·la·ble', 'A part of a word with one vowel sound, like the beats you clap.'],
+
+  // Year 1 and 2 common exception words
+  ['friend', 'Someone you like and who likes you.'],
+  ['school', 'A place where children go to learn.'],
+  ['house', 'A building where people live.'],
+  ['be·cause', 'For the reason that.'],
+  ['child', 'A young boy or girl.'],
+  ['chil·dren', 'Young boys and girls - more than one.'],
+  ['climb', 'To go up something using your hands and feet.'],
+  ['ev·er·y', 'Each one, without leaving any out.'],
+  ['great', 'Very big, or very good.'],
+  ['break', 'To make something go into pieces.'],
+  ['pret·ty', 'Nice to look at.'],
+  ['beau·ti·ful', 'Very lovely to look at or listen to.'],
+  ['fa·ther', 'A dad.'],
+  ['hour', 'Sixty minutes.'],
+  ['move', 'To go from one place to another.'],
+  ['sure', 'Certain that something is true.'],
+  ['sug·ar', 'A sweet food made from plants, used in cakes and drinks.'],
+  ['eye', 'The part of your body that you see with.'],
+  ['could', 'Was able to.'],
+  ['peo·ple', 'Men, women and children.'],
+  ['wa·ter', 'The clear liquid in rivers, rain and the sea.'],
+  ['a·gain', 'One more time.'],
+  ['mon·ey', 'Coins and notes used to buy things.'],
+  ['par·ents', 'A mother and father.'],
+  ['christ·mas', 'A festival on 25th December when many people give presents.'],
+  ['bus·y', 'Having lots of things to do.'],
+  ['clothes', 'Things you wear, like shirts, trousers and dresses.'],
+  ['whole', 'All of something, with nothing missing.'],
+  ['an·y', 'One or some, it does not matter which.'],
+  ['ma·ny', 'A lot of.'],
+
+  // Year 3 and 4 statutory words
+  ['ac·ci·dent', 'Something that happens by mistake, sometimes causing harm.'],
+  ['ac·tu·al·ly', 'Really; in fact.'],
+  ['ad·dress', 'The details of where someone lives, such as the house number and street.'],
+  ['an·swer', 'What you say or write when someone asks a question.'],
+  ['ap·pear', 'To come into sight.'],
+  ['ar·rive', 'To get to a place.'],
+  ['be·lieve', 'To think that something is true.'],
+  ['breath', 'The air that goes in and out of your lungs.'],
+  ['breathe', 'To take air into your lungs and let it out again.'],
+  ['build', 'To make something by putting parts together.'],
+  ['bus·i·ness', 'Work that people do to earn money, or a company.'],
+  ['cal·en·dar', 'A chart showing the days, weeks and months of the year.'],
+  ['caught', 'Took hold of something that was moving.'],
+  ['cen·tre', 'The middle of something.'],
+  ['cen·tu·ry', 'One hundred years.'],
+  ['cer·tain', 'Completely sure.'],
+  ['cir·cle', 'A perfectly round shape.'],
+  ['com·plete', 'Finished, with nothing missing.'],
+  ['con·sid·er', 'To think carefully about something.'],
+  ['con·tin·ue', 'To keep going.'],
+  ['de·cide', 'To make up your mind.'],
+  ['de·scribe', 'To say what something or someone is like.'],
+  ['dif·fer·ent', 'Not the same.'],
+  ['dif·fi·cult', 'Hard to do or understand.'],
+  ['dis·ap·pear', 'To go out of sight.'],
+  ['ear·ly', 'Before the usual or expected time.'],
+  ['earth', 'The planet we live on, or the soil plants grow in.'],
+  ['eight', 'The number 8.'],
+  ['e·nough', 'As much as you need.'],
+  ['ex·er·cise', 'Moving your body to keep fit and healthy.'],
+  ['ex·pe·ri·ence', 'Something that happens to you, or knowing how to do something from practice.'],
+  ['ex·per·i·ment', 'A test to find out what happens.'],
+  ['fa·mous', 'Known by lots of people.'],
+  ['fa·vour·ite', 'The one you like best.'],
+  ['feb·ru·ar·y', 'The second month of the year.'],
+  ['fruit', 'The sweet part of a plant that holds its seeds, like an apple.'],
+  ['gram·mar', 'The rules for putting words together in sentences.'],
+  ['group', 'A number of people or things together.'],
+  ['guard', 'To keep someone or something safe.'],
+  ['guide', 'Someone who shows you the way.'],
+  ['heard', 'Noticed a sound with your ears.'],
+  ['heart', 'The part of your body that pumps blood.'],
+  ['height', 'How tall something is.'],
+  ['his·to·ry', 'Everything that happened in the past.'],
+  ['im·ag·ine', 'To make a picture of something in your mind.'],
+  ['in·crease', 'To make or become bigger.'],
+  ['im·por·tant', 'Mattering a lot.'],
+  ['in·ter·est', 'A wish to find out more about something.'],
+  ['is·land', 'A piece of land with water all around it.'],
+  ['knowl·edge', 'Everything you have learnt and understand.'],
+  ['learn', 'To find out about something or how to do it.'],
+  ['length', 'How long something is.'],
+  ['li·brar·y', 'A place with lots of books that you can borrow.'],
+  ['ma·te·ri·al', 'What something is made of, like wood, plastic or cloth.'],
+  ['med·i·cine', 'Something you take to help you get better when you are ill.'],
+  ['men·tion', 'To talk about something briefly.'],
+  ['min·ute', 'Sixty seconds.'],
+  ['nat·u·ral', 'Made by the world around us, not by people.'],
+  ['naugh·ty', 'Behaving badly.'],
+  ['no·tice', 'To see or become aware of something.'],
+  ['oc·ca·sion', 'A special event, or a time when something happens.'],
+  ['of·ten', 'Many times.'],
+  ['op·po·site', 'As different as possible, like hot and cold.'],
+  ['or·di·nar·y', 'Normal; not special.'],
+  ['par·tic·u·lar', 'One certain thing and not any other.'],
+  ['pe·cu·liar', 'Strange or unusual.'],
+  ['per·haps', 'Maybe.'],
+  ['pop·u·lar', 'Liked by lots of people.'],
+  ['po·si·tion', 'The place where something is.'],
+  ['pos·sess', 'To own or have something.'],
+  ['pos·si·ble', 'Able to happen or be done.'],
+  ['po·ta·to', 'A vegetable that grows under the ground, used to make chips.'],
+  ['pres·sure', 'The force of pushing on something.'],
+  ['prob·a·bly', 'Very likely.'],
+  ['prom·ise', 'To say that you will certainly do something.'],
+  ['pur·pose', 'The reason for doing something.'],
+  ['quar·ter', 'One of four equal parts.'],
+  ['ques·tion', 'Something you ask to find out an answer.'],
+  ['re·cent', 'Happening not long ago.'],
+  ['reg·u·lar', 'Happening at the same time again and again.'],
+  ['reign', 'To rule as a king or queen.'],
+  ['re·mem·ber', 'To keep something in your mind, or bring it back to mind.'],
+  ['sen·tence', 'A group of words that makes sense on its own.'],
+  ['sep·a·rate', 'Apart; not joined together.'],
+  ['spe·cial', 'Better or different from the usual.'],
+  ['straight', 'Not bent or curved.'],
+  ['strange', 'Unusual or odd.'],
+  ['strength', 'How strong someone or something is.'],
+  ['sup·pose', 'To think something is probably true.'],
+  ['sur·prise', 'Something you did not expect.'],
+  ['there·fore', 'For that reason; so.'],
+  ['though', 'Even if; despite the fact that.'],
+  ['thought', 'An idea in your mind.'],
+  ['through', 'In one side and out of the other.'],
+  ['var·i·ous', 'Several different kinds.'],
+  ['weight', 'How heavy something is.'],
+  ['wom·an', 'A grown-up female person.'],
+
+  // Year 5 and 6 statutory words
+  ['ac·com·mo·date', 'To give someone a place to stay or make room for something.'],
+  ['ac·com·pa·ny', 'To go somewhere with someone.'],
+  ['a·chieve', 'To manage to do something after trying hard.'],
+  ['am·a·teur', 'Someone who does something for fun rather than as a job.'],
+  ['an·cient', 'Very, very old.'],
+  ['ap·pre·ci·ate', 'To be thankful for something, or to understand its value.'],
+  ['a·vail·a·ble', 'Ready to be used or got.'],
+  ['av·er·age', 'Usual or ordinary; in maths, the middle amount.'],
+  ['awk·ward', 'Clumsy, or uncomfortable and embarrassing.'],
+  ['bar·gain', 'Something bought for less than it is worth.'],
+  ['bruise', 'A dark mark on your skin where you have been hit.'],
+  ['cat·e·go·ry', 'A group of things that are alike.'],
+  ['cem·e·ter·y', 'A place where dead people are buried.'],
+  ['com·mit·tee', 'A group of people chosen to make decisions.'],
+  ['com·mu·ni·cate', 'To share information, for example by talking or writing.'],
+  ['com·mu·ni·ty', 'The people who live in one place.'],
+  ['com·pe·ti·tion', 'An event where people try to win.'],
+  ['con·science', 'The feeling inside you that tells you what is right and wrong.'],
+  ['con·scious', 'Awake and aware of what is happening.'],
+  ['cu·ri·os·i·ty', 'Wanting to know about things.'],
+  ['def·i·nite', 'Certain; fixed and clear.'],
+  ['des·per·ate', 'Wanting something very badly.'],
+  ['de·ter·mined', 'Having made up your mind and not giving up.'],
+  ['de·vel·op', 'To grow or change over time.'],
+  ['dic·tion·ar·y', 'A book that lists words in alphabetical order and tells you what they mean.'],
+  ['em·bar·rass', 'To make someone feel shy or silly in front of others.'],
+  ['en·vi·ron·ment', 'The world around us - the land, air, water, plants and animals.'],
+  ['e·quip·ment', 'The things you need for a job or activity.'],
+  ['es·pe·cial·ly', 'More than usual; particularly.'],
+  ['ex·ag·ger·ate', 'To make something sound bigger or better than it really is.'],
+  ['ex·cel·lent', 'Very, very good.'],
+  ['ex·ist·ence', 'Being real or alive.'],
+  ['ex·pla·na·tion', 'Words that make something clear or give a reason.'],
+  ['fa·mil·iar', 'Well known to you.'],
+  ['for·eign', 'From another country.'],
+  ['for·ty', 'The number 40.'],
+  ['fre·quent·ly', 'Often.'],
+  ['gov·ern·ment', 'The group of people who run a country.'],
+  ['guar·an·tee', 'A promise that something will happen or work.'],
+  ['i·den·ti·ty', 'Who someone is.'],
+  ['im·me·di·ate·ly', 'Straight away.'],
+  ['in·di·vid·u·al', 'One single person or thing.'],
+  ['in·ter·fere', 'To get involved in something that is not your business.'],
+  ['in·ter·rupt', 'To stop someone while they are speaking or doing something.'],
+  ['lan·guage', 'The words people use to speak and write, like English or French.'],
+  ['lei·sure', 'Free time for doing things you enjoy.'],
+  ['light·ning', 'A flash of bright light in the sky during a storm.'],
+  ['mar·vel·lous', 'Wonderful.'],
+  ['mis·chie·vous', 'Playfully naughty.'],
+  ['mus·cle', 'A part of your body that tightens and relaxes to make you move.'],
+  ['nec·es·sar·y', 'Needed.'],
+  ['neigh·bour', 'Someone who lives next door or nearby.'],
+  ['nui·sance', 'Someone or something that is annoying.'],
+  ['oc·cur', 'To happen.'],
+  ['op·por·tu·ni·ty', 'A chance to do something.'],
+  ['par·lia·ment', 'The group of people who make the laws of a country.'],
+  ['per·suade', 'To get someone to agree or do something by giving good reasons.'],
+  ['priv·i·lege', 'A special right or advantage.'],
+  ['pro·fes·sion', 'A job that needs special training, like a doctor or teacher.'],
+  ['pro·gramme', 'A show on television or radio.'],
+  ['pro·nun·ci·a·tion', 'The way a word is said.'],
+  ['queue', 'A line of people waiting their turn.'],
+  ['rec·og·nise', 'To know someone or something because you have seen them before.'],
+  ['rec·om·mend', 'To suggest that something is good.'],
+  ['rel·e·vant', 'Connected to what is being talked about.'],
+  ['res·tau·rant', 'A place where you pay to eat a meal.'],
+  ['rhyme', 'Words that end with the same sound, like cat and hat.'],
+  ['sac·ri·fice', 'To give up something you care about for something more important.'],
+  ['sec·re·tar·y', 'Someone whose job is to type letters, answer phones and keep records.'],
+  ['shoul·der', 'The part of your body where your arm joins it.'],
+  ['sig·na·ture', 'Your name written in your own special way.'],
+  ['sin·cere', 'Honest and meaning what you say.'],
+  ['sol·dier', 'A person in an army.'],
+  ['stom·ach', 'The part inside your body where food goes after you swallow it.'],
+  ['suf·fi·cient', 'Enough.'],
+  ['sug·gest', 'To put forward an idea.'],
+  ['tem·per·a·ture', 'How hot or cold something is.'],
+  ['thor·ough', 'Careful and complete, missing nothing out.'],
+  ['twelfth', 'Number 12 in order.'],
+  ['va·ri·e·ty', 'Lots of different kinds.'],
+  ['veg·e·ta·ble', 'A plant or part of a plant that you can eat, like a carrot.'],
+  ['ve·hi·cle', 'Something that carries people or things, like a car or bus.'],
+  ['yacht', 'A boat with sails, used for racing or holidays.'],
+
+  // Silent letters
+  ['knee', 'The joint in the middle of your leg where it bends.'],
+  ['knife', 'A tool with a sharp blade for cutting.'],
+  ['knight', 'A soldier in armour who rode a horse, long ago.'],
+  ['knock', 'To hit a door to let people know you are there.'],
+  ['knot', 'A tie made in string or rope.'],
+  ['know', 'To have something in your mind as a fact.'],
+  ['write', 'To put words on paper or a screen.'],
+  ['wrong', 'Not right or correct.'],
+  ['wrap', 'To cover something in paper or cloth.'],
+  ['wrist', 'The joint between your hand and your arm.'],
+  ['lamb', 'A young sheep.'],
+  ['thumb', 'The short, thick finger on the side of your hand.'],
+  ['comb', 'A tool with teeth for tidying your hair.'],
+  ['doubt', 'To not be sure about something.'],
+  ['cas·tle', 'A large, strong building with thick walls and towers.'],
+  ['lis·ten', 'To pay attention to sounds.'],
+  ['whis·tle', 'A high sound made by blowing through your lips.'],
+  ['au·tumn', 'The season after summer when leaves fall from the trees.'],
+  ['gnome', 'A small, bearded creature from stories who lives underground.'],
+  ['hon·est', 'Telling the truth.'],
+  ['ghost', 'The spirit of a dead person in stories.'],
+  ['half', 'One of two equal parts.'],
+  ['talk', 'To say things out loud to someone.'],
+  ['walk', 'To move along on your feet.'],
+
+  // 'ph', 'ch' and soft 'c' and 'g'
+  ['phone', 'A device for talking to people who are far away.'],
+  ['pho·to·graph', 'A picture taken with a camera.'],
+  ['al·pha·bet', 'All the letters used to write a language, in order.'],
+  ['dol·phin', 'A clever sea animal that breathes air and likes to play.'],
+  ['el·e·phant', 'A huge grey animal with a long trunk and big ears.'],
+  ['graph', 'A diagram that shows numbers or information.'],
+  ['sphere', 'A round solid shape, like a ball.'],
+  ['tro·phy', 'A cup or prize for winning.'],
+  ['neph·ew', 'The son of your brother or sister.'],
+  ['cho·rus', 'The part of a song that is repeated.'],
+  ['chem·ist', 'A shop that sells medicines.'],
+  ['ech·o', 'A sound that bounces back so you hear it again.'],
+  ['ache', 'A pain that goes on for a while.'],
+  ['an·chor', 'A heavy metal hook dropped from a ship to stop it drifting.'],
+  ['or·ches·tra', 'A large group of musicians playing together.'],
+  ['ma·chine', 'Something with moving parts that does a job.'],
+  ['chef', 'A cook in a restaurant.'],
+  ['cit·y', 'A very large town.'],
+  ['cir·cus', 'A show with acrobats and clowns, often in a big tent.'],
+  ['pen·cil', 'A wooden tool for writing and drawing.'],
+  ['fan·cy', 'Decorated; not plain.'],
+  ['ice', 'Frozen water.'],
+  ['prince', 'The son of a king or queen.'],
+  ['juice', 'A drink made from fruit.'],
+  ['badge', 'A small sign you pin onto your clothes.'],
+  ['bridge', 'Something built over a river or road so you can cross it.'],
+  ['edge', 'The outside line or end of something.'],
+  ['hedge', 'A row of bushes growing close together.'],
+  ['fudge', 'A soft, sweet toffee.'],
+  ['judge', 'The person in charge of a court, or who decides who wins.'],
+  ['large', 'Big.'],
+  ['huge', 'Very, very big.'],
+  ['cage', 'A box with bars to keep an animal in.'],
+  ['stage', 'A raised floor where people perform.'],
+  ['change', 'To make or become different.'],
+  ['or·ange', 'A round, juicy fruit, or the colour between red and yellow.'],
+  ['vil·lage', 'A small group of houses in the countryside.'],
+  ['cab·bage', 'A round vegetable made of tightly packed green leaves.'],
+  ['gi·raffe', 'A very tall African animal with a long neck.'],
+  ['gen·tle', 'Kind and soft, not rough.'],
+  ['mag·ic', 'Tricks that seem impossible, or special powers in stories.'],
+  ['en·er·gy', 'The power to move, work or make things happen.'],
+
+  // -le, -el, -al and -il endings
+  ['ta·ble', 'A piece of furniture with a flat top and legs.'],
+  ['ap·ple', 'A round fruit with red or green skin.'],
+  ['lit·tle', 'Small.'],
+  ['mid·dle', 'The centre of something.'],
+  ['bot·tle', 'A glass or plastic container for drinks.'],
+  ['pud·dle', 'A small pool of rainwater on the ground.'],
+  ['bub·ble', 'A ball of air inside a thin skin of liquid.'],
+  ['can·dle', 'A stick of wax with a wick that you light.'],
+  ['un·cle', 'The brother of your mum or dad.'],
+  ['pur·ple', 'The colour you get by mixing red and blue.'],
+  ['jun·gle', 'A thick tropical forest.'],
+  ['puz·zle', 'A game or problem that you have to work out.'],
+  ['cam·el', 'A desert animal with one or two humps.'],
+  ['tun·nel', 'A passage under the ground.'],
+  ['squir·rel', 'A small animal with a bushy tail that lives in trees.'],
+  ['trav·el', 'To go from one place to another, especially far away.'],
+  ['tow·el', 'A soft cloth for drying yourself.'],
+  ['vow·el', 'One of the letters a, e, i, o and u.'],
+  ['jew·el', 'A precious stone, like a diamond.'],
+  ['lev·el', 'Flat and even.'],
+  ['hot·el', 'A building where you pay to stay the night.'],
+  ['par·cel', 'Something wrapped up to be posted.'],
+  ['la·bel', 'A piece of paper stuck on something with information about it.'],
+  ['met·al', 'A hard, shiny material like iron, gold or silver.'],
+  ['ped·al', 'The part of a bike you push with your foot.'],
+  ['cap·i·tal', 'The most important city in a country, or a big letter.'],
+  ['an·i·mal', 'A living creature that can move about, like a dog or a fish.'],
+  ['hos·pi·tal', 'A building where sick or hurt people are looked after.'],
+  ['pet·al', 'One of the coloured parts of a flower.'],
+  ['to·tal', 'The amount you get when everything is added together.'],
+  ['med·al', 'A metal disc given as a prize.'],
+  ['fos·sil', 'The remains of an ancient plant or animal, turned to stone.'],
+  ['nos·tril', 'One of the two holes in your nose.'],
+  ['pu·pil', 'A child at school, or the black centre of your eye.'],
+
+  // Words with 'a' after 'w', ey, ou and ough
+  ['want', 'To wish to have something.'],
+  ['wash', 'To clean something with water.'],
+  ['wasp', 'A black and yellow flying insect that can sting.'],
+  ['watch', 'To look at something for a while, or a small clock worn on your wrist.'],
+  ['swan', 'A large white bird with a long neck that lives on rivers.'],
+  ['squash', 'To press something flat.'],
+  ['word', 'A group of letters that means something.'],
+  ['work', 'A job, or something that takes effort.'],
+  ['world', 'The Earth and everyone on it.'],
+  ['worm', 'A long, thin animal with no legs that lives in soil.'],
+  ['key', 'A piece of metal for opening a lock.'],
+  ['don·key', 'An animal like a small horse with long ears.'],
+  ['mon·key', 'A clever animal with a long tail that climbs trees.'],
+  ['val·ley', 'Low land between hills or mountains.'],
+  ['chim·ney', 'A tall pipe that takes smoke away from a fire.'],
+  ['hon·ey', 'A sweet, sticky food made by bees.'],
+  ['jour·ney', 'A trip from one place to another.'],
+  ['young', 'Not old.'],
+  ['touch', 'To feel something with your hand.'],
+  ['dou·ble', 'Twice as much.'],
+  ['trou·ble', 'A problem or difficulty.'],
+  ['coun·try', 'A land with its own government, like France, or the land outside towns.'],
+  ['cous·in', 'A child of your aunt or uncle.'],
+  ['tough', 'Strong and hard to break, or difficult.'],
+  ['rough', 'Not smooth.'],
+  ['cough', 'To push air out of your throat with a loud sound.'],
+  ['bought', 'Paid money for something.'],
+  ['brought', 'Carried something to a place.'],
+  ['dough', 'A thick mixture of flour and water used to make bread.'],
+
+  // ie and ei words
+  ['field', 'An area of land covered in grass, often with a fence around it.'],
+  ['piece', 'A part of something.'],
+  ['chief', 'The leader of a group.'],
+  ['thief', 'Someone who steals.'],
+  ['niece', 'The daughter of your brother or sister.'],
+  ['shield', 'Something held up to protect you.'],
+  ['priest', 'A person who leads services in a church.'],
+  ['re·ceive', 'To be given something.'],
+  ['ceil·ing', 'The inside top of a room.'],
+  ['weigh', 'To find out how heavy something is.'],
+  ['sleigh', 'A sledge pulled by animals over snow.'],
+  ['vein', 'A tube that carries blood back to your heart.'],
+  ['grey', 'The colour between black and white.'],
+  ['prey', 'An animal hunted by another animal for food.'],
+  ['weird', 'Very strange.'],
+  ['seize', 'To grab something suddenly.'],
+
+  // Suffixes: -tion, -sion, -cian, -ture, -sure, -ous
+  ['sta·tion', 'A place where trains or buses stop.'],
+  ['ac·tion', 'Something that is done.'],
+  ['fic·tion', 'Stories that are made up.'],
+  ['na·tion', 'A country and its people.'],
+  ['mo·tion', 'Movement.'],
+  ['po·tion', 'A magic drink in stories.'],
+  ['in·ven·tion', 'Something new that someone has made up or designed.'],
+  ['ad·di·tion', 'Putting numbers together to find the total.'],
+  ['sub·trac·tion', 'Taking one number away from another.'],
+  ['mul·ti·pli·ca·tion', 'Adding the same number many times, like 3 lots of 4.'],
+  ['pol·lu·tion', 'Dirt and poison in the air, water or land.'],
+  ['cel·e·bra·tion', 'A party or special event for a happy occasion.'],
+  ['dec·o·ra·tion', 'Something that makes a place or thing look nicer.'],
+  ['im·ag·i·na·tion', 'The ability to make up pictures and ideas in your mind.'],
+  ['con·ver·sa·tion', 'A talk between people.'],
+  ['in·for·ma·tion', 'Facts about something.'],
+  ['ed·u·ca·tion', 'Teaching and learning.'],
+  ['at·ten·tion', 'Listening or looking carefully.'],
+  ['tel·e·vi·sion', 'A screen for watching programmes.'],
+  ['di·vi·sion', 'Sharing a number into equal groups.'],
+  ['vi·sion', 'The ability to see.'],
+  ['de·ci·sion', 'A choice you make.'],
+  ['ex·plo·sion', 'A sudden loud burst, like a bomb going off.'],
+  ['con·fu·sion', 'Not understanding what is happening.'],
+  ['mis·sion', 'An important job or trip.'],
+  ['per·mis·sion', 'Being allowed to do something.'],
+  ['ex·pres·sion', 'The look on your face, or a saying.'],
+  ['dis·cus·sion', 'A talk about something to share ideas.'],
+  ['mu·si·cian', 'Someone who plays or writes music.'],
+  ['ma·gi·cian', 'Someone who does magic tricks.'],
+  ['e·lec·tri·cian', 'Someone whose job is fixing wires and lights.'],
+  ['pol·i·ti·cian', 'Someone who works in government.'],
+  ['pic·ture', 'A drawing, painting or photograph.'],
+  ['ad·ven·ture', 'An exciting journey or experience.'],
+  ['na·ture', 'Plants, animals and everything not made by people.'],
+  ['crea·ture', 'Any living animal.'],
+  ['fu·ture', 'The time that is still to come.'],
+  ['fur·ni·ture', 'Things like tables, chairs and beds.'],
+  ['mix·ture', 'Different things stirred or put together.'],
+  ['sculp·ture', 'A shape carved or made out of stone, wood or clay.'],
+  ['vul·ture', 'A large bird that eats dead animals.'],
+  ['meas·ure', 'To find out the size or amount of something.'],
+  ['treas·ure', 'Gold, jewels and other precious things.'],
+  ['pleas·ure', 'A feeling of happiness and enjoyment.'],
+  ['dan·ger·ous', 'Likely to hurt you.'],
+  ['nerv·ous', 'Worried and a bit scared.'],
+  ['e·nor·mous', 'Very, very big.'],
+  ['jeal·ous', 'Wanting what someone else has.'],
+  ['cu·ri·ous', 'Wanting to know or find out about things.'],
+  ['fu·ri·ous', 'Very angry.'],
+  ['gen·er·ous', 'Happy to give and share.'],
+  ['poi·son·ous', 'Able to make you very ill if you eat or touch it.'],
+  ['mys·te·ri·ous', 'Strange and hard to explain.'],
+  ['ob·vi·ous', 'Easy to see or understand.'],
+  ['se·ri·ous', 'Not joking, or very bad.'],
+  ['pre·cious', 'Worth a lot, or very much loved.'],
+  ['de·li·cious', 'Tasting very good.'],
+  ['vi·cious', 'Fierce and cruel.'],
+  ['spa·cious', 'Having lots of room.'],
+  ['cau·tious', 'Careful to avoid danger.'],
+  ['am·bi·tious', 'Wanting very much to do well.'],
+  ['nu·tri·tious', 'Full of goodness that helps you grow and stay healthy.'],
+  ['of·fi·cial', 'Approved by someone in charge.'],
+  ['so·cial', 'To do with people spending time together.'],
+  ['es·sen·tial', 'Absolutely needed.'],
+  ['par·tial', 'Only part of something.'],
+
+  // Other suffixes and prefixes
+  ['care·ful', 'Taking care not to make mistakes or get hurt.'],
+  ['help·ful', 'Giving help or being useful.'],
+  ['play·ful', 'Full of fun and wanting to play.'],
+  ['hope·ful', 'Thinking that something good will happen.'],
+  ['thank·ful', 'Glad and grateful.'],
+  ['col·our·ful', 'Bright, with lots of shades.'],
+  ['won·der·ful', 'Amazing and very good.'],
+  ['peace·ful', 'Calm and quiet.'],
+  ['kind·ness', 'Being friendly, caring and generous.'],
+  ['dark·ness', 'Having no light.'],
+  ['hap·pi·ness', 'Feeling glad and cheerful.'],
+  ['ill·ness', 'Being sick.'],
+  ['en·joy·ment', 'Having a good time.'],
+  ['move·ment', 'Changing place or position.'],
+  ['ar·gu·ment', 'An angry disagreement.'],
+  ['a·gree·ment', 'When people think the same about something.'],
+  ['ex·cite·ment', 'A happy, eager feeling.'],
+  ['com·fort·a·ble', 'Relaxed and cosy.'],
+  ['en·joy·a·ble', 'Fun to do.'],
+  ['val·u·a·ble', 'Worth a lot of money, or very useful.'],
+  ['mis·er·a·ble', 'Very unhappy.'],
+  ['ter·ri·ble', 'Very bad.'],
+  ['hor·ri·ble', 'Very nasty.'],
+  ['vis·i·ble', 'Able to be seen.'],
+  ['sen·si·ble', 'Showing good sense; wise.'],
+  ['in·cred·i·ble', 'Amazing and hard to believe.'],
+  ['dis·tance', 'How far it is between two places.'],
+  ['bal·ance', 'To stay steady without falling over.'],
+  ['en·trance', 'The way in.'],
+  ['con·fi·dence', 'Believing that you can do something.'],
+  ['dif·fer·ence', 'The way in which things are not the same.'],
+  ['si·lence', 'No sound at all.'],
+  ['pa·tience', 'Being able to wait calmly.'],
+  ['sci·ence', 'Finding out about the world by watching and testing.'],
+  ['un·hap·py', 'Sad.'],
+  ['un·kind', 'Mean; not nice.'],
+  ['un·lock', 'To open with a key.'],
+  ['un·tie', 'To undo a knot or bow.'],
+  ['dis·a·gree', 'To have a different opinion.'],
+  ['dis·o·bey', 'To not do what you are told.'],
+  ['dis·like', 'To not like something.'],
+  ['mis·be·have', 'To behave badly.'],
+  ['mis·take', 'Something done wrong by accident.'],
+  ['re·turn', 'To come or go back.'],
+  ['re·cy·cle', 'To use something again or make it into something new.'],
+  ['in·cor·rect', 'Wrong.'],
+  ['im·pos·si·ble', 'Not able to happen or be done.'],
+  ['im·pa·tient', 'Not able to wait calmly.'],
+  ['il·le·gal', 'Against the law.'],
+  ['ir·reg·u·lar', 'Not even or not happening at the same times.'],
+  ['sub·ma·rine', 'A ship that can travel under the water.'],
+  ['su·per·mar·ket', 'A big shop that sells food and other things.'],
+  ['au·to·graph', 'A famous person\'s name written by them.'],
+
+  // Homophones and everyday words
+  ['there', 'In or to that place.'],
+  ['their', 'Belonging to them.'],
+  ['hear', 'To notice sounds with your ears.'],
+  ['here', 'In or to this place.'],
+  ['where', 'In or to which place.'],
+  ['wear', 'To have clothes on your body.'],
+  ['night', 'The time when it is dark outside.'],
+  ['right', 'Correct, or the side opposite to left.'],
+  ['knew', 'Had something in your mind as a fact.'],
+  ['blue', 'The colour of a clear sky.'],
+  ['blew', 'Pushed air out, or moved in the wind.'],
+  ['flour', 'A powder made from wheat, used for baking.'],
+  ['flow·er', 'The colourful part of a plant that has petals.'],
+  ['meet', 'To come together with someone.'],
+  ['meat', 'Food that comes from animals.'],
+  ['peace', 'A time with no fighting; calm and quiet.'],
+  ['plain', 'Simple, with nothing added.'],
+  ['plane', 'A machine with wings that flies.'],
+  ['weath·er', 'How hot, cold, wet or windy it is outside.'],
+  ['wheth·er', 'If; used when there is a choice.'],
+  ['which', 'What one.'],
+  ['witch', 'A woman with magic powers in stories.'],
+  ['ac·cept', 'To take something that is offered.'],
+  ['ex·cept', 'Not including.'],
+  ['ber·ry', 'A small, juicy fruit, like a strawberry.'],
+  ['bur·y', 'To put something under the ground.'],
+  ['guest', 'Someone who is visiting.'],
+  ['scene', 'A place where something happens, or part of a play.'],
+  ['tale', 'A story.'],
+  ['tail', 'The part at the back end of an animal.'],
+
+  // Nature, science and topic words
+  ['plan·et', 'A large round object that travels around a star, like Earth.'],
+  ['vol·ca·no', 'A mountain that can erupt with hot melted rock.'],
+  ['des·ert', 'A very dry place with little rain.'],
+  ['for·est', 'A large area covered with trees.'],
+  ['o·cean', 'A very large sea.'],
+  ['moun·tain', 'A very high hill.'],
+  ['riv·er', 'A large stream of water that flows to the sea.'],
+  ['rain·bow', 'An arc of colours in the sky when the sun shines through rain.'],
+  ['thun·der', 'The loud noise that comes after lightning.'],
+  ['sea·son', 'One of the four parts of the year: spring, summer, autumn or winter.'],
+  ['skel·e·ton', 'All the bones in a body.'],
+  ['hab·i·tat', 'The natural home of a plant or animal.'],
+  ['mag·net', 'A piece of metal that pulls iron towards it.'],
+  ['e·lec·tric·i·ty', 'Power that lights lamps and makes machines work.'],
+  ['grav·i·ty', 'The force that pulls things towards the ground.'],
+  ['shad·ow', 'A dark shape made when something blocks the light.'],
+  ['liq·uid', 'Something runny that you can pour, like water.'],
+  ['sol·id', 'Hard and firm, keeping its own shape.'],
+  ['in·sect', 'A small creature with six legs, like an ant or a bee.'],
+  ['mam·mal', 'An animal that feeds its babies with milk.'],
+  ['rep·tile', 'A cold-blooded animal with scaly skin, like a snake.'],
+  ['di·no·saur', 'A reptile that lived millions of years ago.'],
+  ['cat·er·pil·lar', 'A small, worm-like creature that turns into a butterfly.'],
+  ['but·ter·fly', 'An insect with large, colourful wings.'],
+  ['pen·guin', 'A black and white sea bird that swims but cannot fly.'],
+  ['cro·co·dile', 'A large reptile with sharp teeth that lives in rivers.'],
+  ['oc·to·pus', 'A sea animal with eight arms.'],
+  ['ro·bot', 'A machine that can do jobs by itself.'],
+  ['rock·et', 'A vehicle that flies into space.'],
+  ['as·tro·naut', 'Someone who travels into space.'],
+  ['choc·o·late', 'A sweet brown food made from cocoa beans.'],
+  ['sand·wich', 'Two slices of bread with a filling between them.'],
+  ['break·fast', 'The first meal of the day.'],
+  ['birth·day', 'The day of the year when you were born.'],
+  ['hol·i·day', 'A time off school or work, sometimes spent travelling.'],
+  ['teach·er', 'Someone whose job is to help people learn.'],
+  ['doc·tor', 'Someone whose job is to help sick people get better.'],
+  ['fam·i·ly', 'A group of people who are related, like parents and children.'],
+  ['hap·py', 'Feeling glad.'],
+  ['brave', 'Not afraid to do something frightening.'],
+  ['clev·er', 'Quick to learn and understand.'],
+  ['qui·et', 'Making very little noise.'],
+  ['col·our', 'Red, blue and yellow are examples of this.'],
+  ['hon·our', 'Great respect, or a special award.'],
+  ['hu·mour', 'Being funny.'],
+  ['fla·vour', 'The taste of something.'],
+  ['be·hav·iour', 'The way someone acts.'],
+  ['ru·mour', 'A story passed around that might not be true.'],
+  ['the·a·tre', 'A building where plays and shows are performed.'],
+  ['me·tre', 'A measure of length, one hundred centimetres.'],
+  ['jew·el·ler·y', 'Rings, necklaces and bracelets.'],
+  ['py·ja·mas', 'Loose clothes you wear in bed.'],
+  ['tyre', 'A rubber ring around a wheel.'],
+  ['grey·hound', 'A thin dog that can run very fast.'],
+  ['cheque', 'A paper form for paying money from a bank.'],
+  ['cat·a·logue', 'A list of things to choose from, often with pictures.'],
+  ['di·a·logue', 'Talk between characters in a story or play.'],
+  ['de·fence', 'Protecting against attack.'],
+  ['li·cence', 'A paper that says you are allowed to do something.'],
+  ['prac·tise', 'To do something again and again to get better at it.'],
+  ['a·pol·o·gise', 'To say sorry.'],
+  ['re·al·ise', 'To suddenly understand or notice something.'],
+  ['or·gan·ise', 'To plan and arrange things.'],
+  ['crit·i·cise', 'To say what is wrong with something.'],
+  ['trav·el·ler', 'Someone who goes on journeys.'],
+  ['can·celled', 'Called off so it will not happen.'],
+  ['a·lu·mi·ni·um', 'A light, silvery metal used to make cans and foil.'],
+  ['moult', 'To lose feathers, fur or skin.'],
+  ['plough', 'A farm tool that turns over the soil.'],
+  ['mous·tache', 'Hair growing above the top lip.'],
+  ['man·oeu·vre', 'A careful movement.'],
+  ['to·wards', 'In the direction of.']
+];
+
+// British spellings and their American equivalents, split into syllables
+const SPELLING_VARIANTS: Array<[string, string]> = [
+  ['col·our', 'col·or'],
+  ['col·our·ful', 'col·or·ful'],
+  ['fa·vour·ite', 'fa·vor·ite'],
+  ['neigh·bour', 'neigh·bor'],
+  ['hon·our', 'hon·or'],
+  ['hu·mour', 'hu·mor'],
+  ['fla·vour', 'fla·vor'],
+  ['be·hav·iour', 'be·hav·ior'],
+  ['ru·mour', 'ru·mor'],
+  ['cen·tre', 'cen·ter'],
+  ['the·a·tre', 'the·a·ter'],
+  ['me·tre', 'me·ter'],
+  ['mar·vel·lous', 'mar·vel·ous'],
+  ['trav·el·ler', 'trav·el·er'],
+  ['can·celled', 'can·celed'],
+  ['jew·el·ler·y', 'jew·el·ry'],
+  ['pro·gramme', 'pro·gram'],
+  ['grey', 'gray'],
+  ['grey·hound', 'gray·hound'],
+  ['py·ja·mas', 'pa·ja·mas'],
+  ['tyre', 'tire'],
+  ['cheque', 'check'],
+  ['cat·a·logue', 'cat·a·log'],
+  ['di·a·logue', 'di·a·log'],
+  ['de·fence', 'de·fense'],
+  ['li·cence', 'li·cense'],
+  ['prac·tise', 'prac·tice'],
+  ['a·pol·o·gise', 'a·pol·o·gize'],
+  ['rec·og·nise', 'rec·og·nize'],
+  ['re·al·ise', 're·al·ize'],
+  ['or·gan·ise', 'or·gan·ize'],
+  ['crit·i·cise', 'crit·i·cize'],
+  ['a·lu·mi·ni·um', 'a·lu·mi·num'],
+  ['moult', 'molt'],
+  ['plough', 'plow'],
+  ['mous·tache', 'mus·tache'],
+  ['man·oeu·vre', 'ma·neu·ver'],
+  ['to·wards', 'to·ward']
+];
+
+// How far a typo can be from a word, in letters, for the word to be suggested
+const MAX_CORRECTION_DISTANCE = 2;
+
+export type DictionaryEntry = {
+  word: string;        // The word as looked up, in whichever spelling was given
+  definition: string;
+  syllables: string;   // e.g. "sys·tem", the format used for Word.phonetic
+}
+
+export type SpellingVariants = {
+  uk: string;
+  us: string;
+}
+
+const unsplit = (syllables: string) => syllables.replace(/·/g, '');
+
+const ENTRIES_BY_WORD = new Map(
+  DICTIONARY_ENTRIES.map(([syllables, definition]) => [unsplit(syllables), { syllables, definition }])
+);
+
+const VARIANTS_BY_WORD = new Map<string, SpellingVariants>();
+SPELLING_VARIANTS.forEach(([uk, us]) => {
+  const variants = { uk, us };
+  VARIANTS_BY_WORD.set(unsplit(uk), variants);
+  VARIANTS_BY_WORD.set(unsplit(us), variants);
+});
+
+/**
+ * Look a word up in the bundled dictionary
+ * American spellings are found through their British headword.
+ *
+ * @param word The word to look up, in either spelling
+ * @returns The entry, with syllables in the spelling given, or null if the word isn't in the dictionary
+ */
+export function lookupWord(word: string): DictionaryEntry | null {
+  const lower = word.trim().toLowerCase();
+  const variants = VARIANTS_BY_WORD.get(lower);
+  const isAmerican = variants !== undefined && unsplit(variants.us) === lower && unsplit(variants.uk) !== lower;
+  const entry = ENTRIES_BY_WORD.get(variants ? unsplit(variants.uk) : lower);
+  if (!entry) return null;
+
+  return {
+    word: lower,
+    definition: entry.definition,
+    syllables: isAmerican && variants ? variants.us : entry.syllables
+  };
+}
+
+/**
+ * Get the British and American spellings of a word that is spelled differently in each
+ *
+ * @param word The word, in either spelling
+ * @returns Both spellings without syllable marks, or null if the word is spelled the same everywhere
+ */
+export function getSpellingVariants(word: string): SpellingVariants | null {
+  const variants = VARIANTS_BY_WORD.get(word.trim().toLowerCase());
+  return variants ? { uk: unsplit(variants.uk), us: unsplit(variants.us) } : null;
+}
+
+/**
+ * Check whether a word is spelled correctly, as far as the bundled lists know
+ * Accepts British and American spellings.
+ */
+export function isRecognisedWord(word: string): boolean {
+  const lower = word.trim().toLowerCase();
+  return isKnownWord(lower) || ENTRIES_BY_WORD.has(lower) || VARIANTS_BY_WORD.has(lower);
+}
+
+// Every spelling corrections can be drawn from, built on first use
+let correctionCandidates: string[] | null = null;
+
+/**
+ * Suggest correctly spelled words close to a typo
+ *
+ * @param word The word as typed
+ * @param limit The most suggestions to return
+ * @returns The closest recognised words, nearest first; empty if the word is recognised or nothing is close
+ */
+export function suggestCorrections(word: string, limit: number = 3): string[] {
+  const lower = word.trim().toLowerCase();
+  if (!lower || isRecognisedWord(lower)) return [];
+
+  if (!correctionCandidates) {
+    correctionCandidates = Array.from(new Set([
+      ...getKnownWords(),
+      ...ENTRIES_BY_WORD.keys(),
+      ...VARIANTS_BY_WORD.keys()
+    ]));
+  }
+
+  return correctionCandidates
+    .filter(candidate => Math.abs(candidate.length - lower.length) <= MAX_CORRECTION_DISTANCE)
+    .map(candidate => ({ candidate, distance: alignSpelling(candidate, lower).distance }))
+    .filter(({ distance }) => distance <= MAX_CORRECTION_DISTANCE)
+    // Typos rarely change the first letter, so prefer words that share it
+    .sort((a, b) =>
+      a.distance - b.distance ||
+      Number(b.candidate[0] === lower[0]) - Number(a.candidate[0] === lower[0]) ||
+      a.candidate.localeCompare(b.candidate)
+    )
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Fill in definitions from the bundled dictionary, for use without Gemini
+ * Difficulty is estimated from the number of syllables.
+ *
+ * @param words The words to define
+ * @returns Definitions in the same order as the words, leaving out any not in the dictionary
+ */
+export function lookupDefinitions(words: string[]): WordDefinition[] {
+  return words.flatMap(word => {
+    const entry = lookupWord(word);
+    if (!entry) return [];
+
+    const syllableCount = entry.syllables.split('·').length;
+    const variants = getSpellingVariants(word);
+    const otherSpelling = variants && (variants.uk === entry.word ? variants.us : variants.uk);
+    return [{
+      word,
+      definition: entry.definition,
+      difficulty: syllableCount <= 2 ? 1 : syllableCount === 3 ? 2 : 3,
+      phonetic: entry.syllables,
+      ...(otherSpelling ? { variants: [otherSpelling] } : {})
+    }];
+  });
+}
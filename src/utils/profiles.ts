@@ -0,0 +1,82 @@
+// Local storage keys for learner profiles
+export const PROFILES_STORAGE_KEY = 'learn2spell_profiles';
+export const CURRENT_PROFILE_KEY = 'learn2spell_current_profile';
+
+// Fixed id for the profile that owns data saved before profiles existed
+export const DEFAULT_PROFILE_ID = 'default-profile-id';
+
+export type AgeBand = '5-7' | '7-9' | '9-11' | '11+';
+
+export type SpellingLocale = 'en-GB' | 'en-US';
+
+export type LearnerProfile = {
+  id: string;
+  name: string;
+  ageBand: AgeBand;
+  voiceId?: string;  // ElevenLabs voice id, falls back to Alice when empty
+  spellingLocale: SpellingLocale;
+}
+
+export const AGE_BANDS: AgeBand[] = ['5-7', '7-9', '9-11', '11+'];
+
+export const DEFAULT_PROFILE: LearnerProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: '',
+  ageBand: '7-9',
+  spellingLocale: 'en-GB'
+};
+
+/**
+ * Build a local storage key scoped to a learner profile
+ * The default profile keeps the original unscoped key so data saved
+ * before profiles existed still belongs to it.
+ *
+ * @param baseKey The unscoped storage key, e.g. learn2spell_word_sets
+ * @param profileId The id of the profile to scope to
+ * @returns The storage key to use for that profile
+ */
+export function profileStorageKey(baseKey: string, profileId: string): string {
+  return profileId === DEFAULT_PROFILE_ID ? baseKey : `${baseKey}_${profileId}`;
+}
+
+/**
+ * Load all learner profiles from local storage
+ * The default profile is always included.
+ *
+ * @returns Profiles keyed by id
+ */
+export function loadProfiles(): Record<string, LearnerProfile> {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    const parsed: Record<string, LearnerProfile> = saved ? JSON.parse(saved) : {};
+    if (!parsed[DEFAULT_PROFILE_ID]) {
+      parsed[DEFAULT_PROFILE_ID] = DEFAULT_PROFILE;
+    }
+    return parsed;
+  } catch (error) {
+    console.error('Error loading profiles from local storage:', error);
+    return { [DEFAULT_PROFILE_ID]: DEFAULT_PROFILE };
+  }
+}
+
+/**
+ * Save learner profiles to local storage
+ *
+ * @param profiles Profiles keyed by id
+ */
+export function saveProfiles(profiles: Record<string, LearnerProfile>): void {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+  } catch (error) {
+    console.error('Error saving profiles to local storage:', error);
+  }
+}
+
+/**
+ * Get the name to show for a profile in menus
+ *
+ * @param profile The learner profile
+ */
+export function getProfileDisplayName(profile: LearnerProfile): string {
+  return profile.name.trim() || 'Learner';
+}
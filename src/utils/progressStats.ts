@@ -0,0 +1,142 @@
+import { SessionRecord } from './progressStore';
+import { SpellingErrorType } from './spellingDiff';
+
+export type AccuracyPoint = {
+  sessionId: string;
+  date: number;
+  correct: number;
+  total: number;
+  accuracy: number;  // 0 to 1
+}
+
+export type MissedWord = {
+  word: string;
+  misses: number;
+  attempts: number;
+}
+
+export type ErrorPatternCount = {
+  errorType: SpellingErrorType;
+  count: number;
+}
+
+export type Streaks = {
+  currentDayStreak: number;   // Consecutive days practised, ending today or yesterday
+  longestDayStreak: number;
+  longestCorrectStreak: number;  // Most words in a row spelled correctly
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the accuracy of each session for a word set, oldest first
+ * Only first-pass answers count, so retrying missed words doesn't inflate it.
+ *
+ * @param sessions The learner's sessions
+ * @param wordSetId Only include sessions for this word set
+ */
+export function getAccuracyOverTime(sessions: SessionRecord[], wordSetId: string): AccuracyPoint[] {
+  return sessions
+    .filter(session => session.wordSetId === wordSetId && session.attempts.some(attempt => !attempt.round))
+    .map(session => {
+      const firstPass = session.attempts.filter(attempt => !attempt.round);
+      const correct = firstPass.filter(attempt => attempt.correct).length;
+      return {
+        sessionId: session.id,
+        date: session.startedAt,
+        correct,
+        total: firstPass.length,
+        accuracy: correct / firstPass.length
+      };
+    });
+}
+
+/**
+ * Get the words spelled wrong most often
+ *
+ * @param sessions The sessions to count across
+ * @param limit The maximum number of words to return
+ * @returns Words with at least one miss, most-missed first
+ */
+export function getMostMissedWords(sessions: SessionRecord[], limit: number = 10): MissedWord[] {
+  const counts = new Map<string, MissedWord>();
+
+  sessions.forEach(session => {
+    session.attempts.forEach(attempt => {
+      const key = attempt.word.toLowerCase();
+      const entry = counts.get(key) || { word: attempt.word, misses: 0, attempts: 0 };
+      entry.attempts += 1;
+      if (!attempt.correct) entry.misses += 1;
+      counts.set(key, entry);
+    });
+  });
+
+  return Array.from(counts.values())
+    .filter(entry => entry.misses > 0)
+    .sort((a, b) => b.misses - a.misses || b.misses / b.attempts - a.misses / a.attempts)
+    .slice(0, limit);
+}
+
+/**
+ * Count how often each kind of spelling mistake was made
+ *
+ * @param sessions The sessions to count across
+ * @returns Error types with at least one occurrence, most common first
+ */
+export function getErrorPatternCounts(sessions: SessionRecord[]): ErrorPatternCount[] {
+  const counts = new Map<SpellingErrorType, number>();
+
+  sessions.forEach(session => {
+    session.attempts.forEach(attempt => {
+      (attempt.errorTypes || []).forEach(errorType => {
+        counts.set(errorType, (counts.get(errorType) || 0) + 1);
+      });
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([errorType, count]) => ({ errorType, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Get the day number (days since the epoch in local time) for a timestamp
+ */
+function localDayNumber(timestamp: number): number {
+  const date = new Date(timestamp);
+  return Math.floor((date.getTime() - date.getTimezoneOffset() * 60 * 1000) / DAY_MS);
+}
+
+/**
+ * Work out practice and correct-answer streaks
+ *
+ * @param sessions The learner's sessions, oldest first
+ * @param now The current time (defaults to Date.now())
+ */
+export function getStreaks(sessions: SessionRecord[], now: number = Date.now()): Streaks {
+  const days = Array.from(new Set(sessions.map(session => localDayNumber(session.startedAt))))
+    .sort((a, b) => a - b);
+
+  let longestDayStreak = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1;
+    longestDayStreak = Math.max(longestDayStreak, run);
+  });
+
+  // The current streak only counts if the learner practised today or yesterday
+  const today = localDayNumber(now);
+  const lastDay = days[days.length - 1];
+  const currentDayStreak = lastDay !== undefined && today - lastDay <= 1 ? run : 0;
+
+  let longestCorrectStreak = 0;
+  let correctRun = 0;
+  sessions.forEach(session => {
+    session.attempts.forEach(attempt => {
+      correctRun = attempt.correct ? correctRun + 1 : 0;
+      longestCorrectStreak = Math.max(longestCorrectStreak, correctRun);
+    });
+  });
+
+  return { currentDayStreak, longestDayStreak, longestCorrectStreak };
+}
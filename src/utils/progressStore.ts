@@ -0,0 +1,177 @@
+import { SpellingErrorType } from './spellingDiff';
+import { HintKind } from './hints';
+
+// One answered word within a practice session
+export type AttemptRecord = {
+  word: string;
+  wordSetId?: string;  // Set the word came from, when it differs from the session's set
+  typedAnswer: string;
+  correct: boolean;
+  hintsUsed: number;
+  hintTypes?: HintKind[];  // Which hints were used, in order
+  timeTakenMs: number;
+  errorTypes?: SpellingErrorType[];  // Kinds of mistake found in a wrong answer
+  round?: number;  // Retry round the word was answered in; absent for the first pass
+}
+
+// How a session was run - everyday practice, a dictation-style spelling test,
+// a timed challenge, practice with each word blanked out of a sentence, or
+// Look, Say, Cover, Write, Check
+export type SessionMode = 'practice' | 'test' | 'challenge' | 'cloze' | 'look-cover';
+
+// A completed practice session, as produced by SpellingGame
+export type SessionResult = {
+  startedAt: number;
+  endedAt: number;
+  attempts: AttemptRecord[];
+  mode?: SessionMode;  // Sessions saved before tests existed were practice
+}
+
+// A practice session as stored in IndexedDB
+export type SessionRecord = SessionResult & {
+  id: string;
+  profileId: string;
+  wordSetId: string;
+}
+
+// IndexedDB store for the full history of practice sessions
+class SessionHistoryStore {
+  private db: IDBDatabase | null = null;
+  private readonly DB_NAME = 'learn2spell_progress';
+  private readonly STORE_NAME = 'sessions';
+  private readonly PROFILE_INDEX = 'profileId';
+  private readonly DB_VERSION = 1;
+  private dbInitPromise: Promise<boolean>;
+
+  constructor() {
+    this.dbInitPromise = this.initDB();
+  }
+
+  private async initDB(): Promise<boolean> {
+    return new Promise((resolve) => {
+      if (!window.indexedDB) {
+        console.warn('IndexedDB not supported. Practice history will not be saved.');
+        resolve(false);
+        return;
+      }
+
+      const request = window.indexedDB.open(this.DB_NAME, this.DB_VERSION);
+
+      request.onerror = (event) => {
+        console.error('Error opening progress IndexedDB', event);
+        resolve(false);
+      };
+
+      request.onsuccess = (event) => {
+        this.db = (event.target as IDBOpenDBRequest).result;
+        resolve(true);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = (event.target as IDBOpenDBRequest).result;
+        if (!db.objectStoreNames.contains(this.STORE_NAME)) {
+          const store = db.createObjectStore(this.STORE_NAME, { keyPath: 'id' });
+          store.createIndex(this.PROFILE_INDEX, 'profileId', { unique: false });
+        }
+      };
+    });
+  }
+
+  async add(session: SessionRecord): Promise<boolean> {
+    // Wait for DB initialization
+    const isInitialized = await this.dbInitPromise;
+    if (!isInitialized || !this.db) return false;
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = this.db!.transaction([this.STORE_NAME], 'readwrite');
+        const store = transaction.objectStore(this.STORE_NAME);
+        const request = store.put(session);
+
+        request.onsuccess = () => resolve(true);
+        request.onerror = () => {
+          console.error('Error storing practice session', request.error);
+          resolve(false);
+        };
+      } catch (error) {
+        console.error('Error writing to progress IndexedDB:', error);
+        resolve(false);
+      }
+    });
+  }
+
+  async getByProfile(profileId: string): Promise<SessionRecord[]> {
+    // Wait for DB initialization
+    const isInitialized = await this.dbInitPromise;
+    if (!isInitialized || !this.db) return [];
+
+    return new Promise((resolve) => {
+      try {
+        const transaction = this.db!.transaction([this.STORE_NAME], 'readonly');
+        const index = transaction.objectStore(this.STORE_NAME).index(this.PROFILE_INDEX);
+        const request = index.getAll(profileId);
+
+        request.onsuccess = () => {
+          const sessions = (request.result as SessionRecord[])
+            .sort((a, b) => a.startedAt - b.startedAt);
+          resolve(sessions);
+        };
+
+        request.onerror = () => {
+          console.error('Error reading practice sessions', request.error);
+          resolve([]);
+        };
+      } catch (error) {
+        console.error('Error reading from progress IndexedDB:', error);
+        resolve([]);
+      }
+    });
+  }
+}
+
+// Create singleton instance
+const sessionHistory = new SessionHistoryStore();
+
+/**
+ * Save a completed practice session
+ *
+ * @param session The session to save
+ * @returns Promise resolving to true if the session was stored
+ */
+export async function saveSession(session: SessionRecord): Promise<boolean> {
+  return sessionHistory.add(session);
+}
+
+/**
+ * Split a session into one part per word set its words came from
+ * A session mixing several sets is filed under each of them, so each set's
+ * history only counts its own words.
+ *
+ * @param session The finished session
+ * @param defaultWordSetId The set for attempts that don't name one
+ * @returns The parts with their set ids, in the order each set first appears
+ */
+export function splitSessionByWordSet(
+  session: SessionResult,
+  defaultWordSetId: string
+): Array<SessionResult & { wordSetId: string }> {
+  const attemptsBySet = new Map<string, AttemptRecord[]>();
+  session.attempts.forEach(attempt => {
+    const wordSetId = attempt.wordSetId || defaultWordSetId;
+    attemptsBySet.set(wordSetId, [...(attemptsBySet.get(wordSetId) || []), attempt]);
+  });
+  if (attemptsBySet.size === 0) {
+    return [{ ...session, wordSetId: defaultWordSetId }];
+  }
+  return Array.from(attemptsBySet.entries()).map(([wordSetId, attempts]) => ({ ...session, attempts, wordSetId }));
+}
+
+/**
+ * Load every practice session for a learner, oldest first
+ *
+ * @param profileId The learner profile id
+ * @returns Promise resolving to the learner's sessions
+ */
+export async function getSessionsForProfile(profileId: string): Promise<SessionRecord[]> {
+  return sessionHistory.getByProfile(profileId);
+}
@@ -0,0 +1,75 @@
+import { AttemptRecord } from './progressStore';
+
+// After the last word of a practice session, the words missed are practised
+// again in retry rounds until they are all right or the rounds run out.
+
+// Retry rounds allowed after the first pass through the words
+export const DEFAULT_MAX_RETRY_ROUNDS = 2;
+
+// Seconds the missed words are shown before the next round starts by itself
+export const RETRY_ROUND_COUNTDOWN_SECONDS = 5;
+
+type RoundWord = {
+  word: string;
+  wordSetId?: string;
+}
+
+export type RoundSummary = {
+  firstTry: string[];          // Right on the first pass
+  correctedOnRetry: string[];  // Missed at first, then right in a retry round
+  stillMissed: string[];       // Never right this session
+}
+
+// Words are told apart by their set too, since a due-queue mixes sets
+function wordKey(word: RoundWord): string {
+  return `${word.wordSetId || ''}:${word.word.toLowerCase()}`;
+}
+
+/**
+ * Find the words missed in a round, in the order they were practised
+ *
+ * @param words The words practised in the round
+ * @param attempts Every attempt made this session
+ * @param round The round to check, 0 for the first pass
+ * @returns The words whose attempt in that round was wrong
+ */
+export function getMissedWords<T extends RoundWord>(words: T[], attempts: AttemptRecord[], round: number): T[] {
+  const missed = new Set(
+    attempts
+      .filter(attempt => (attempt.round || 0) === round && !attempt.correct)
+      .map(attempt => wordKey(attempt))
+  );
+  return words.filter(word => missed.has(wordKey(word)));
+}
+
+/**
+ * Sort the session's words by when they were first spelled correctly
+ *
+ * @param attempts Every attempt made this session, in order
+ * @returns The words split into first-try, corrected-on-retry and still missed
+ */
+export function summariseRounds(attempts: AttemptRecord[]): RoundSummary {
+  const outcomes = new Map<string, { word: string; firstTry: boolean; correct: boolean }>();
+
+  attempts.forEach(attempt => {
+    const key = wordKey(attempt);
+    const outcome = outcomes.get(key);
+    if (!outcome) {
+      outcomes.set(key, { word: attempt.word, firstTry: attempt.correct, correct: attempt.correct });
+    } else if (attempt.correct) {
+      outcome.correct = true;
+    }
+  });
+
+  const summary: RoundSummary = { firstTry: [], correctedOnRetry: [], stillMissed: [] };
+  outcomes.forEach(outcome => {
+    if (outcome.firstTry) {
+      summary.firstTry.push(outcome.word);
+    } else if (outcome.correct) {
+      summary.correctedOnRetry.push(outcome.word);
+    } else {
+      summary.stillMissed.push(outcome.word);
+    }
+  });
+  return summary;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewRecords, getDueWords, isDue, recordAttempt, reviewKey } from './reviewScheduler';
+
+const NOW = new Date(2026, 9, 18, 12).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Answer a word correctly and quickly several times, a day apart
+const promote = (records: ReviewRecords, times: number) =>
+  Array.from({ length: times }).reduce<ReviewRecords>(
+    (current, _, index) => recordAttempt(current, 'set', 'ship', true, 1000, NOW + index * DAY_MS),
+    records
+  );
+
+describe('recordAttempt', () => {
+  it('moves a quick correct answer up a box and schedules it for later', () => {
+    const record = recordAttempt({}, 'set', 'ship', true, 1000, NOW)[reviewKey('set', 'ship')];
+
+    expect(record.box).toBe(1);
+    expect(record.dueAt).toBe(NOW + DAY_MS);
+    expect(record.attempts).toEqual([{ correct: true, timeTakenMs: 1000, attemptedAt: NOW }]);
+  });
+
+  it('spaces reviews further apart in each box, up to the last box', () => {
+    const boxes = [1, 2, 3, 4, 5, 6, 7].map(times => promote({}, times)[reviewKey('set', 'ship')].box);
+
+    expect(boxes).toEqual([1, 2, 3, 4, 5, 5, 5]);
+  });
+
+  it('keeps a slow correct answer in the same box', () => {
+    const records = promote({}, 2);
+    const record = recordAttempt(records, 'set', 'ship', true, 30000, NOW)[reviewKey('set', 'ship')];
+
+    expect(record.box).toBe(2);
+    expect(record.dueAt).toBe(NOW + 3 * DAY_MS);
+  });
+
+  it('sends a wrong answer back to the first box, due again today', () => {
+    const records = promote({}, 3);
+    const record = recordAttempt(records, 'set', 'ship', false, 1000, NOW)[reviewKey('set', 'ship')];
+
+    expect(record.box).toBe(0);
+    expect(record.dueAt).toBe(NOW);
+    expect(record.attempts).toHaveLength(4);
+  });
+
+  it('leaves the records it was given unchanged', () => {
+    const records: ReviewRecords = {};
+    recordAttempt(records, 'set', 'ship', true, 1000, NOW);
+
+    expect(records).toEqual({});
+  });
+});
+
+describe('isDue', () => {
+  it('treats a word never practised as due', () => {
+    expect(isDue({}, 'set', 'ship', NOW)).toBe(true);
+  });
+
+  it('counts a word due later today as due, but not one due tomorrow', () => {
+    const records = recordAttempt({}, 'set', 'ship', true, 1000, NOW);
+
+    expect(isDue(records, 'set', 'ship', NOW)).toBe(false);
+    expect(isDue(records, 'set', 'ship', NOW + DAY_MS)).toBe(true);
+  });
+});
+
+describe('getDueWords', () => {
+  it('puts the lowest box first, then the longest overdue, then new words', () => {
+    let records = recordAttempt({}, 'set', 'shop', true, 1000, NOW - 3 * DAY_MS);
+    records = recordAttempt(records, 'set', 'shed', true, 1000, NOW - 2 * DAY_MS);
+    records = recordAttempt(records, 'set', 'shin', false, 1000, NOW - DAY_MS);
+    records = recordAttempt(records, 'set', 'shut', true, 1000, NOW);
+
+    const due = getDueWords('set', ['ship', 'shop', 'shed', 'shin', 'shut'].map(word => ({ word })), records, NOW);
+
+    expect(due.map(word => word.word)).toEqual(['shin', 'shop', 'shed', 'ship']);
+    expect(due.every(word => word.wordSetId === 'set')).toBe(true);
+  });
+});
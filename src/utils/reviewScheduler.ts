@@ -0,0 +1,246 @@
+// Local storage key for per-word review records (kept alongside learn2spell_word_sets)
+export const REVIEW_STORAGE_KEY = 'learn2spell_review_records';
+
+// Days to wait before a word in each Leitner box is due again.
+// Box 0 is "still learning" and is due again on the same day.
+const BOX_INTERVALS_DAYS = [0, 1, 3, 7, 14, 30];
+
+// Answers slower than this are treated as shaky: the word is rescheduled
+// but not promoted to the next box
+const SLOW_ANSWER_MS = 20000;
+
+// Only keep the most recent attempts per word to keep storage small
+const MAX_STORED_ATTEMPTS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReviewAttempt = {
+  correct: boolean;
+  timeTakenMs: number;
+  attemptedAt: number;
+}
+
+export type ReviewRecord = {
+  wordSetId: string;
+  word: string;
+  box: number;
+  dueAt: number;
+  lastReviewedAt: number;
+  attempts: ReviewAttempt[];
+}
+
+// Review records keyed by reviewKey(wordSetId, word)
+export type ReviewRecords = Record<string, ReviewRecord>;
+
+export type ReviewableWord = {
+  word: string;
+}
+
+export type DueWord<T extends ReviewableWord> = T & {
+  wordSetId: string;
+}
+
+/**
+ * Build the storage key for a word's review record
+ *
+ * @param wordSetId The id of the word set the word belongs to
+ * @param word The word itself
+ * @returns A key unique to the word within its set
+ */
+export function reviewKey(wordSetId: string, word: string): string {
+  return `${wordSetId}:${word.toLowerCase()}`;
+}
+
+/**
+ * Load all review records from local storage
+ *
+ * @param storageKey The local storage key to read from
+ * @returns The saved review records, or an empty object if none are saved
+ */
+export function loadReviewRecords(storageKey: string = REVIEW_STORAGE_KEY): ReviewRecords {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    return saved ? JSON.parse(saved) as ReviewRecords : {};
+  } catch (error) {
+    console.error('Error loading review records from local storage:', error);
+    return {};
+  }
+}
+
+/**
+ * Save review records to local storage
+ *
+ * @param records The review records to save
+ * @param storageKey The local storage key to write to
+ */
+export function saveReviewRecords(records: ReviewRecords, storageKey: string = REVIEW_STORAGE_KEY): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(records));
+  } catch (error) {
+    console.error('Error saving review records to local storage:', error);
+  }
+}
+
+/**
+ * Get the timestamp for the end of the day containing `now`
+ */
+function endOfDay(now: number): number {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+}
+
+/**
+ * Record a spelling attempt and reschedule the word
+ *
+ * Correct, reasonably quick answers move the word up one Leitner box;
+ * slow correct answers keep it in the same box; wrong answers send it
+ * back to box 0 so it comes round again today.
+ *
+ * @param records The current review records
+ * @param wordSetId The id of the word set the word belongs to
+ * @param word The word that was attempted
+ * @param correct Whether the attempt was spelled correctly
+ * @param timeTakenMs How long the learner took to answer
+ * @param now The time of the attempt (defaults to the current time)
+ * @returns A new records object containing the updated record
+ */
+export function recordAttempt(
+  records: ReviewRecords,
+  wordSetId: string,
+  word: string,
+  correct: boolean,
+  timeTakenMs: number,
+  now: number = Date.now()
+): ReviewRecords {
+  const key = reviewKey(wordSetId, word);
+  const existing = records[key];
+  const currentBox = existing ? existing.box : 0;
+
+  let box: number;
+  if (!correct) {
+    box = 0;
+  } else if (timeTakenMs > SLOW_ANSWER_MS) {
+    box = currentBox;
+  } else {
+    box = Math.min(currentBox + 1, BOX_INTERVALS_DAYS.length - 1);
+  }
+
+  const attempts = [
+    ...(existing ? existing.attempts : []),
+    { correct, timeTakenMs, attemptedAt: now }
+  ].slice(-MAX_STORED_ATTEMPTS);
+
+  return {
+    ...records,
+    [key]: {
+      wordSetId,
+      word,
+      box,
+      dueAt: now + BOX_INTERVALS_DAYS[box] * DAY_MS,
+      lastReviewedAt: now,
+      attempts
+    }
+  };
+}
+
+/**
+ * Check whether a word is due for review today
+ * Words that have never been attempted are always due.
+ *
+ * @param records The current review records
+ * @param wordSetId The id of the word set the word belongs to
+ * @param word The word to check
+ * @param now The current time (defaults to Date.now())
+ */
+export function isDue(
+  records: ReviewRecords,
+  wordSetId: string,
+  word: string,
+  now: number = Date.now()
+): boolean {
+  const record = records[reviewKey(wordSetId, word)];
+  return !record || record.dueAt <= endOfDay(now);
+}
+
+/**
+ * Build the queue of words due today from a single word set
+ * Overdue words come first (lowest box, then oldest due date), followed
+ * by words that have never been practised in their stored order.
+ *
+ * @param wordSetId The id of the word set
+ * @param words The words in the set
+ * @param records The current review records
+ * @param now The current time (defaults to Date.now())
+ * @returns The due words, each tagged with its word set id
+ */
+export function getDueWords<T extends ReviewableWord>(
+  wordSetId: string,
+  words: T[],
+  records: ReviewRecords,
+  now: number = Date.now()
+): DueWord<T>[] {
+  const due = words.filter(word => isDue(records, wordSetId, word.word, now));
+
+  const reviewed = due
+    .filter(word => records[reviewKey(wordSetId, word.word)])
+    .sort((a, b) => {
+      const recordA = records[reviewKey(wordSetId, a.word)];
+      const recordB = records[reviewKey(wordSetId, b.word)];
+      return recordA.box - recordB.box || recordA.dueAt - recordB.dueAt;
+    });
+  const unseen = due.filter(word => !records[reviewKey(wordSetId, word.word)]);
+
+  return [...reviewed, ...unseen].map(word => ({ ...word, wordSetId }));
+}
+
+/**
+ * Build the queue of words due today across several word sets
+ * Reviewed words from every set are ordered together, lowest box first, then
+ * the longest overdue; new words follow, taking turns from each set so that
+ * no one set fills a capped session.
+ *
+ * @param wordSets The word sets to draw from
+ * @param records The current review records
+ * @param now The current time (defaults to Date.now())
+ * @returns The due words from every set, each tagged with its word set id
+ */
+export function getDueWordsAcrossSets<T extends ReviewableWord>(
+  wordSets: Array<{ id: string; words: T[] }>,
+  records: ReviewRecords,
+  now: number = Date.now()
+): DueWord<T>[] {
+  const recordOf = (word: DueWord<T>) => records[reviewKey(word.wordSetId, word.word)];
+  const dueBySet = wordSets.map(set => getDueWords(set.id, set.words, records, now));
+
+  const reviewed = dueBySet
+    .flat()
+    .filter(recordOf)
+    .sort((a, b) => recordOf(a).box - recordOf(b).box || recordOf(a).dueAt - recordOf(b).dueAt);
+
+  const unseenBySet = dueBySet.map(words => words.filter(word => !recordOf(word)));
+  const longest = Math.max(0, ...unseenBySet.map(words => words.length));
+  const unseen = Array.from({ length: longest }, (_, index) =>
+    unseenBySet.flatMap(words => index < words.length ? [words[index]] : [])
+  ).flat();
+
+  return [...reviewed, ...unseen];
+}
+
+/**
+ * Count the words due today across several word sets
+ *
+ * @param wordSets The word sets to count
+ * @param records The current review records
+ * @param now The current time (defaults to Date.now())
+ */
+export function countDueWords(
+  wordSets: Array<{ id: string; words: ReviewableWord[] }>,
+  records: ReviewRecords,
+  now: number = Date.now()
+): number {
+  return wordSets.reduce(
+    (total, set) => total + set.words.filter(word => isDue(records, set.id, word.word, now)).length,
+    0
+  );
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { recordAttempt } from './reviewScheduler';
+import { DEFAULT_SESSION_OPTIONS, buildSessionWords } from './sessionOptions';
+
+const NOW = new Date(2026, 9, 18, 12).getTime();
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const word = (text: string, difficulty = 1) => ({ word: text, difficulty });
+
+describe('buildSessionWords', () => {
+  it('fills a capped mixed-set session with the most needed words from every set', () => {
+    const sets = [
+      { id: 'a', words: [word('ship'), word('shop'), word('shed')] },
+      { id: 'b', words: [word('myth'), word('gym')] }
+    ];
+    // Set a's words were all known a while ago; set b's "myth" was just missed
+    let records = ['ship', 'shop', 'shed'].reduce(
+      (current, text) => recordAttempt(current, 'a', text, true, 1000, NOW - 2 * DAY_MS),
+      {}
+    );
+    records = recordAttempt(records, 'b', 'myth', false, 1000, NOW - DAY_MS);
+
+    const words = buildSessionWords(sets, { ...DEFAULT_SESSION_OPTIONS, maxWords: 3 }, records, NOW);
+
+    expect(words.map(entry => `${entry.wordSetId}:${entry.word}`)).toEqual(['b:myth', 'a:ship', 'a:shop']);
+  });
+
+  it('takes new words from each set in turn', () => {
+    const sets = [
+      { id: 'a', words: [word('ship'), word('shop'), word('shed')] },
+      { id: 'b', words: [word('myth'), word('gym')] }
+    ];
+
+    const words = buildSessionWords(sets, { ...DEFAULT_SESSION_OPTIONS, maxWords: 4 }, {}, NOW);
+
+    expect(words.map(entry => entry.word)).toEqual(['ship', 'myth', 'shop', 'gym']);
+  });
+
+  it('leaves out words outside the chosen difficulties', () => {
+    const sets = [{ id: 'a', words: [word('ship', 1), word('rhythm', 3)] }];
+
+    const words = buildSessionWords(sets, { ...DEFAULT_SESSION_OPTIONS, maxDifficulty: 2 }, {}, NOW);
+
+    expect(words.map(entry => entry.word)).toEqual(['ship']);
+  });
+});
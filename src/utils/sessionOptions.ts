@@ -0,0 +1,100 @@
+import { DueWord, ReviewRecords, ReviewableWord, getDueWordsAcrossSets } from './reviewScheduler';
+import { DEFAULT_MAX_RETRY_ROUNDS } from './retryRounds';
+import { shuffle } from './spellingTest';
+
+// Local storage key for the options chosen before a practice session
+export const SESSION_OPTIONS_STORAGE_KEY = 'learn2spell_session_options';
+
+// Word difficulties run from 1 (easy) to 3 (hard)
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 3;
+
+export type SessionOptions = {
+  wordSetIds: string[];     // Sets mixed into the session, last chosen
+  shuffle: boolean;
+  maxWords: number | null;  // Cap on words per session, null for no cap
+  minDifficulty: number;
+  maxDifficulty: number;
+  maxRetryRounds: number;   // Rounds of missed words at the end of the session
+}
+
+export const DEFAULT_SESSION_OPTIONS: SessionOptions = {
+  wordSetIds: [],
+  shuffle: false,
+  maxWords: null,
+  minDifficulty: MIN_DIFFICULTY,
+  maxDifficulty: MAX_DIFFICULTY,
+  maxRetryRounds: DEFAULT_MAX_RETRY_ROUNDS
+};
+
+type SessionWord = ReviewableWord & {
+  difficulty: number;
+}
+
+/**
+ * Load the session options from local storage
+ * Options missing from older saves take their defaults.
+ *
+ * @param storageKey The local storage key to read from
+ * @returns The saved options, or the defaults if none are saved
+ */
+export function loadSessionOptions(storageKey: string = SESSION_OPTIONS_STORAGE_KEY): SessionOptions {
+  try {
+    const saved = localStorage.getItem(storageKey);
+    return saved ? { ...DEFAULT_SESSION_OPTIONS, ...JSON.parse(saved) } : DEFAULT_SESSION_OPTIONS;
+  } catch (error) {
+    console.error('Error loading session options from local storage:', error);
+    return DEFAULT_SESSION_OPTIONS;
+  }
+}
+
+/**
+ * Save the session options to local storage
+ *
+ * @param options The options to save
+ * @param storageKey The local storage key to write to
+ */
+export function saveSessionOptions(options: SessionOptions, storageKey: string = SESSION_OPTIONS_STORAGE_KEY): void {
+  try {
+    localStorage.setItem(storageKey, JSON.stringify(options));
+  } catch (error) {
+    console.error('Error saving session options to local storage:', error);
+  }
+}
+
+/**
+ * Build the words for a practice session from the chosen sets and options
+ *
+ * Words due for review come first, most in need of practice first; if none
+ * are due, every matching word is practised instead. The cap keeps the most
+ * needed due words, but picks from the whole list when nothing is due and
+ * the order is shuffled.
+ *
+ * @param wordSets The word sets chosen for the session
+ * @param options The session options
+ * @param records The current review records
+ * @param now The current time (defaults to Date.now())
+ * @returns The session's words, each tagged with its word set id
+ */
+export function buildSessionWords<T extends SessionWord>(
+  wordSets: Array<{ id: string; words: T[] }>,
+  options: SessionOptions,
+  records: ReviewRecords,
+  now: number = Date.now()
+): DueWord<T>[] {
+  const matchingSets = wordSets.map(set => ({
+    id: set.id,
+    words: set.words.filter(word =>
+      word.difficulty >= options.minDifficulty && word.difficulty <= options.maxDifficulty)
+  }));
+  const cap = (words: DueWord<T>[]) => options.maxWords ? words.slice(0, options.maxWords) : words;
+
+  const dueWords = getDueWordsAcrossSets(matchingSets, records, now);
+  if (dueWords.length > 0) {
+    const capped = cap(dueWords);
+    return options.shuffle ? shuffle(capped) : capped;
+  }
+
+  const allWords = matchingSets.flatMap(set => set.words.map(word => ({ ...word, wordSetId: set.id })));
+  return cap(options.shuffle ? shuffle(allWords) : allWords);
+}
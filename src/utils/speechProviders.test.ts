@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FallbackSpeechProvider, MockSpeechProvider } from './speechProviders';
+
+describe('MockSpeechProvider', () => {
+  it('records what it is asked to say and synthesize', async () => {
+    const provider = new MockSpeechProvider();
+
+    await provider.speak('hello', { rate: 0.5 });
+    const blob = await provider.synthesize('world');
+
+    expect(provider.spoken).toEqual([{ text: 'hello', options: { rate: 0.5 } }]);
+    expect(provider.synthesized).toEqual([{ text: 'world', options: undefined }]);
+    expect(await blob.text()).toBe('world');
+  });
+
+  it('fails without recording when told to', async () => {
+    const provider = new MockSpeechProvider({ fail: true });
+
+    await expect(provider.speak('hello')).rejects.toThrow('Mock speech provider failure');
+    await expect(provider.synthesize('hello')).rejects.toThrow('Mock speech provider failure');
+    expect(provider.spoken).toEqual([]);
+    expect(provider.synthesized).toEqual([]);
+  });
+});
+
+describe('FallbackSpeechProvider', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the primary provider when it is available', async () => {
+    const primary = new MockSpeechProvider();
+    const fallback = new MockSpeechProvider();
+    const provider = new FallbackSpeechProvider(primary, fallback);
+
+    await provider.speak('cat', { lang: 'en-GB' });
+    await provider.synthesize('dog');
+
+    expect(primary.spoken).toEqual([{ text: 'cat', options: { lang: 'en-GB' } }]);
+    expect(primary.synthesized.map(entry => entry.text)).toEqual(['dog']);
+    expect(fallback.spoken).toEqual([]);
+    expect(fallback.synthesized).toEqual([]);
+  });
+
+  it('skips an unavailable primary provider', async () => {
+    const primary = new MockSpeechProvider({ available: false });
+    const fallback = new MockSpeechProvider();
+    const provider = new FallbackSpeechProvider(primary, fallback);
+
+    await provider.speak('cat');
+
+    expect(primary.spoken).toEqual([]);
+    expect(fallback.spoken.map(entry => entry.text)).toEqual(['cat']);
+  });
+
+  it('falls back when the primary provider fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const primary = new MockSpeechProvider({ fail: true });
+    const fallback = new MockSpeechProvider();
+    const provider = new FallbackSpeechProvider(primary, fallback);
+
+    await provider.speak('cat', { rate: 0.7 });
+    await provider.synthesize('dog');
+
+    expect(fallback.spoken).toEqual([{ text: 'cat', options: { rate: 0.7 } }]);
+    expect(fallback.synthesized.map(entry => entry.text)).toEqual(['dog']);
+    expect(console.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails when both providers fail', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = new FallbackSpeechProvider(
+      new MockSpeechProvider({ fail: true }),
+      new MockSpeechProvider({ fail: true })
+    );
+
+    await expect(provider.speak('cat')).rejects.toThrow('Mock speech provider failure');
+  });
+
+  it('is available if either provider is', () => {
+    const unavailable = new MockSpeechProvider({ available: false });
+    const available = new MockSpeechProvider();
+
+    expect(new FallbackSpeechProvider(unavailable, available).isAvailable()).toBe(true);
+    expect(new FallbackSpeechProvider(available, unavailable).isAvailable()).toBe(true);
+    expect(new FallbackSpeechProvider(unavailable, unavailable).isAvailable()).toBe(false);
+  });
+
+  it('lists the voices of the provider it would use', async () => {
+    const primaryVoices = [{ id: 'alice', name: 'Alice' }];
+    const fallbackVoices = [{ id: 'browser', name: 'Browser' }];
+
+    const withPrimary = new FallbackSpeechProvider(
+      new MockSpeechProvider({ voices: primaryVoices }),
+      new MockSpeechProvider({ voices: fallbackVoices })
+    );
+    const withoutPrimary = new FallbackSpeechProvider(
+      new MockSpeechProvider({ available: false, voices: primaryVoices }),
+      new MockSpeechProvider({ voices: fallbackVoices })
+    );
+
+    expect(await withPrimary.listVoices()).toEqual(primaryVoices);
+    expect(await withoutPrimary.listVoices()).toEqual(fallbackVoices);
+  });
+});
@@ -0,0 +1,159 @@
+// Text-to-speech providers. ElevenLabs lives in elevenLabsService.ts; this
+// module holds the shared interface plus the browser and test providers.
+
+export type SpeakOptions = {
+  voiceId?: string;     // Provider-specific voice id
+  lang?: string;        // BCP 47 language tag, e.g. en-GB
+  rate?: number;        // 1 is normal speed, lower is slower
+}
+
+export type SpeechVoice = {
+  id: string;
+  name: string;
+  lang?: string;
+}
+
+export interface SpeechProvider {
+  readonly name: string;
+  // Whether the provider can be used right now (API key present, browser support, ...)
+  isAvailable(): boolean;
+  // Speak text aloud; resolves once playback has started
+  speak(text: string, options?: SpeakOptions): Promise<void>;
+  // Produce an audio file for text without playing it
+  synthesize(text: string, options?: SpeakOptions): Promise<Blob>;
+  listVoices(): Promise<SpeechVoice[]>;
+}
+
+// How long to wait for the browser to load its voice list
+const VOICES_LOAD_TIMEOUT_MS = 2000;
+
+/**
+ * Speech using the browser's built-in speechSynthesis API
+ * Works offline and without an API key, but cannot produce audio files.
+ */
+export class WebSpeechProvider implements SpeechProvider {
+  readonly name = 'Web Speech';
+
+  isAvailable(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window;
+  }
+
+  async speak(text: string, options: SpeakOptions = {}): Promise<void> {
+    if (!this.isAvailable()) {
+      throw new Error('Speech synthesis is not supported in this browser.');
+    }
+
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = options.lang || 'en-GB';
+    utterance.rate = options.rate || 1;
+
+    const voices = await this.loadBrowserVoices();
+    const voice = voices.find(v => v.voiceURI === options.voiceId)
+      || voices.find(v => v.lang === utterance.lang);
+    if (voice) {
+      utterance.voice = voice;
+    }
+
+    return new Promise((resolve, reject) => {
+      utterance.onstart = () => resolve();
+      utterance.onerror = (event) => reject(new Error(`Speech synthesis error: ${event.error}`));
+      window.speechSynthesis.speak(utterance);
+    });
+  }
+
+  async synthesize(): Promise<Blob> {
+    throw new Error('The Web Speech API cannot synthesize speech to an audio file.');
+  }
+
+  async listVoices(): Promise<SpeechVoice[]> {
+    if (!this.isAvailable()) return [];
+    const voices = await this.loadBrowserVoices();
+    return voices.map(voice => ({ id: voice.voiceURI, name: voice.name, lang: voice.lang }));
+  }
+
+  // Some browsers load voices asynchronously and report an empty list at first
+  private loadBrowserVoices(): Promise<SpeechSynthesisVoice[]> {
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) return Promise.resolve(voices);
+
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve(window.speechSynthesis.getVoices()), VOICES_LOAD_TIMEOUT_MS);
+      window.speechSynthesis.addEventListener('voiceschanged', () => {
+        clearTimeout(timeout);
+        resolve(window.speechSynthesis.getVoices());
+      }, { once: true });
+    });
+  }
+}
+
+/**
+ * Uses a primary provider, switching to a fallback whenever the primary
+ * is unavailable or fails
+ */
+export class FallbackSpeechProvider implements SpeechProvider {
+  readonly name: string;
+
+  constructor(private primary: SpeechProvider, private fallback: SpeechProvider) {
+    this.name = `${primary.name} (falls back to ${fallback.name})`;
+  }
+
+  isAvailable(): boolean {
+    return this.primary.isAvailable() || this.fallback.isAvailable();
+  }
+
+  async speak(text: string, options?: SpeakOptions): Promise<void> {
+    if (this.primary.isAvailable()) {
+      try {
+        return await this.primary.speak(text, options);
+      } catch (error) {
+        console.warn(`${this.primary.name} failed, falling back to ${this.fallback.name}:`, error);
+      }
+    }
+    return this.fallback.speak(text, options);
+  }
+
+  async synthesize(text: string, options?: SpeakOptions): Promise<Blob> {
+    if (this.primary.isAvailable()) {
+      try {
+        return await this.primary.synthesize(text, options);
+      } catch (error) {
+        console.warn(`${this.primary.name} failed, falling back to ${this.fallback.name}:`, error);
+      }
+    }
+    return this.fallback.synthesize(text, options);
+  }
+
+  async listVoices(): Promise<SpeechVoice[]> {
+    return this.primary.isAvailable() ? this.primary.listVoices() : this.fallback.listVoices();
+  }
+}
+
+/**
+ * Silent provider that records what it was asked to say, for tests
+ */
+export class MockSpeechProvider implements SpeechProvider {
+  readonly name = 'Mock';
+  readonly spoken: Array<{ text: string; options?: SpeakOptions }> = [];
+  readonly synthesized: Array<{ text: string; options?: SpeakOptions }> = [];
+
+  constructor(private options: { available?: boolean; fail?: boolean; voices?: SpeechVoice[] } = {}) {}
+
+  isAvailable(): boolean {
+    return this.options.available !== false;
+  }
+
+  async speak(text: string, options?: SpeakOptions): Promise<void> {
+    if (this.options.fail) throw new Error('Mock speech provider failure');
+    this.spoken.push({ text, options });
+  }
+
+  async synthesize(text: string, options?: SpeakOptions): Promise<Blob> {
+    if (this.options.fail) throw new Error('Mock speech provider failure');
+    this.synthesized.push({ text, options });
+    return new Blob([text], { type: 'audio/mpeg' });
+  }
+
+  async listVoices(): Promise<SpeechVoice[]> {
+    return this.options.voices || [{ id: 'mock-voice', name: 'Mock Voice', lang: 'en-GB' }];
+  }
+}
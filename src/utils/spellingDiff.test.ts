@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { alignSpelling, diagnoseSpelling } from './spellingDiff';
+
+describe('alignSpelling', () => {
+  it('matches a correct spelling letter for letter', () => {
+    const { distance, operations } = alignSpelling('ship', 'SHIP');
+
+    expect(distance).toBe(0);
+    expect(operations.every(operation => operation.type === 'match')).toBe(true);
+  });
+
+  it('marks an extra letter as an insertion at its place in the word', () => {
+    const { distance, operations } = alignSpelling('happy', 'happpy');
+
+    expect(distance).toBe(1);
+    expect(operations).toHaveLength(6);
+    expect(operations[2]).toEqual({ type: 'insert', typed: 'p', expectedIndex: 2 });
+  });
+
+  it('marks a missing letter as a deletion', () => {
+    const { distance, operations } = alignSpelling('system', 'sytem');
+
+    expect(distance).toBe(1);
+    expect(operations).toHaveLength(6);
+    expect(operations[2]).toEqual({ type: 'delete', expected: 's', expectedIndex: 2 });
+  });
+
+  it('counts two swapped letters as one transposition', () => {
+    const { distance, operations } = alignSpelling('system', 'sysetm');
+
+    expect(distance).toBe(1);
+    expect(operations[3]).toEqual({ type: 'transpose', expected: 'te', typed: 'et', expectedIndex: 3 });
+  });
+
+  it('marks a wrong letter as a substitution', () => {
+    const { operations } = alignSpelling('system', 'sistem');
+
+    expect(operations[1]).toEqual({ type: 'substitute', expected: 'y', typed: 'i', expectedIndex: 1 });
+  });
+
+  it('keeps every letter of both spellings in order', () => {
+    const { operations } = alignSpelling('necessary', 'neccesary');
+    const expected = operations.map(operation => 'expected' in operation ? operation.expected : '').join('');
+    const typed = operations.map(operation => 'typed' in operation ? operation.typed : '').join('');
+
+    expect(expected).toBe('necessary');
+    expect(typed).toBe('neccesary');
+  });
+});
+
+describe('diagnoseSpelling', () => {
+  it.each([
+    ['system', 'sistem', 'y-i-substitution'],
+    ['running', 'runing', 'missing-double-letter'],
+    ['happy', 'happpy', 'extra-double-letter'],
+    ['knee', 'nee', 'omitted-silent-letter'],
+    ['system', 'sysetm', 'transposition']
+  ])('diagnoses %s typed as %s as %s', (expected, typed, errorType) => {
+    expect(diagnoseSpelling(expected, typed).errorTypes).toContain(errorType);
+  });
+
+  it('finds nothing wrong with a correct spelling', () => {
+    expect(diagnoseSpelling('ship', 'ship')).toMatchObject({ distance: 0, errorTypes: [] });
+  });
+});
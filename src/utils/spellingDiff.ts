@@ -0,0 +1,217 @@
+// Letter-level alignment between a typed answer and the correct spelling,
+// used to explain mistakes rather than just marking them wrong
+
+import { PatternSpan, isInPattern } from './graphemePatterns';
+
+export type DiffOperation =
+  | { type: 'match'; expected: string; typed: string }
+  | { type: 'substitute'; expected: string; typed: string; expectedIndex: number }
+  | { type: 'insert'; typed: string; expectedIndex: number }    // Extra letter the learner typed
+  | { type: 'delete'; expected: string; expectedIndex: number }  // Letter the learner left out
+  | { type: 'transpose'; expected: string; typed: string; expectedIndex: number };  // Two letters swapped
+
+export type SpellingErrorType =
+  | 'y-i-substitution'
+  | 'missing-double-letter'
+  | 'extra-double-letter'
+  | 'omitted-silent-letter'
+  | 'missed-pattern'
+  | 'transposition'
+  | 'substitution'
+  | 'omission'
+  | 'insertion';
+
+export type SpellingDiagnosis = {
+  distance: number;
+  operations: DiffOperation[];
+  errorTypes: SpellingErrorType[];  // Each type listed once, in the order first found
+}
+
+// Friendly names for each error type, shown to adults in the Progress view
+export const ERROR_TYPE_LABELS: Record<SpellingErrorType, string> = {
+  'y-i-substitution': "Mixing up 'y' and 'i'",
+  'missing-double-letter': 'Missing a double letter',
+  'extra-double-letter': 'Doubling a single letter',
+  'omitted-silent-letter': 'Leaving out a silent letter',
+  'missed-pattern': "Getting the word's spelling pattern wrong",
+  'transposition': 'Letters in the wrong order',
+  'substitution': 'Wrong letter',
+  'omission': 'Missing letter',
+  'insertion': 'Extra letter'
+};
+
+// Letter pairs where one letter is commonly silent: [pattern, index of the silent letter]
+const SILENT_LETTER_PATTERNS: Array<[RegExp, number]> = [
+  [/^kn/, 0],   // knee, knife
+  [/^gn/, 0],   // gnome
+  [/^wr/, 0],   // write
+  [/^ps/, 0],   // psalm
+  [/^pn/, 0],   // pneumonia
+  [/mb$/, 1],   // lamb, climb
+  [/mn$/, 1],   // autumn, column
+  [/wh/, 1],    // what, when
+  [/gh/, 0],    // night, through
+  [/gh/, 1],
+  [/rh/, 1],    // rhyme
+  [/stle/, 1],  // castle, whistle
+  [/sten/, 1],  // listen, fasten
+  [/alk/, 1],   // walk, talk
+  [/ould/, 2],  // could, would
+  [/sc[ei]/, 1],  // science, scene
+  [/bt/, 0],    // doubt, debt
+  [/^ho[nu]/, 0],  // honest, hour
+  [/[^aeiou]e$/, 1]  // final silent e: make, house
+];
+
+/**
+ * Check whether the letter at `index` in `word` is usually silent
+ *
+ * @param word The correctly spelled word
+ * @param index The position of the letter to check
+ */
+export function isSilentLetter(word: string, index: number): boolean {
+  return SILENT_LETTER_PATTERNS.some(([pattern, silentOffset]) => {
+    const globalPattern = new RegExp(pattern.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = globalPattern.exec(word)) !== null) {
+      if (match.index + silentOffset === index) return true;
+      globalPattern.lastIndex = match.index + 1;
+    }
+    return false;
+  });
+}
+
+/**
+ * Align a typed answer against the correct spelling
+ * Uses an edit distance where swapping two neighbouring letters counts
+ * as a single mistake (optimal string alignment).
+ *
+ * @param expected The correct spelling
+ * @param typed What the learner typed
+ * @returns The edit distance and the list of operations turning `typed` into `expected`
+ */
+export function alignSpelling(expected: string, typed: string): { distance: number; operations: DiffOperation[] } {
+  const a = expected.toLowerCase();
+  const b = typed.toLowerCase();
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+
+  // dist[i][j] = cost of aligning a[0..i) with b[0..j)
+  const dist: number[][] = Array.from({ length: rows }, () => Array(cols).fill(0));
+  for (let i = 0; i < rows; i++) dist[i][0] = i;
+  for (let j = 0; j < cols; j++) dist[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      dist[i][j] = Math.min(
+        dist[i - 1][j] + 1,        // letter left out
+        dist[i][j - 1] + 1,        // extra letter typed
+        dist[i - 1][j - 1] + cost  // match or wrong letter
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1] && a[i - 1] !== a[i - 2]) {
+        dist[i][j] = Math.min(dist[i][j], dist[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  // Walk back through the table to recover the operations
+  const operations: DiffOperation[] = [];
+  let i = a.length;
+  let j = b.length;
+  while (i > 0 || j > 0) {
+    if (i > 0 && j > 0 && a[i - 1] === b[j - 1] && dist[i][j] === dist[i - 1][j - 1]) {
+      operations.push({ type: 'match', expected: a[i - 1], typed: b[j - 1] });
+      i--; j--;
+    } else if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]
+      && a[i - 1] !== a[i - 2] && dist[i][j] === dist[i - 2][j - 2] + 1) {
+      operations.push({ type: 'transpose', expected: a.slice(i - 2, i), typed: b.slice(j - 2, j), expectedIndex: i - 2 });
+      i -= 2; j -= 2;
+    } else if (i > 0 && j > 0 && dist[i][j] === dist[i - 1][j - 1] + 1) {
+      operations.push({ type: 'substitute', expected: a[i - 1], typed: b[j - 1], expectedIndex: i - 1 });
+      i--; j--;
+    } else if (i > 0 && dist[i][j] === dist[i - 1][j] + 1) {
+      operations.push({ type: 'delete', expected: a[i - 1], expectedIndex: i - 1 });
+      i--;
+    } else {
+      operations.push({ type: 'insert', typed: b[j - 1], expectedIndex: i });
+      j--;
+    }
+  }
+
+  return { distance: dist[a.length][b.length], operations: operations.reverse() };
+}
+
+/**
+ * Classify a single non-matching operation
+ */
+function classifyOperation(operation: DiffOperation, expected: string, typed: string): SpellingErrorType | null {
+  switch (operation.type) {
+    case 'match':
+      return null;
+    case 'transpose':
+      return 'transposition';
+    case 'substitute': {
+      const pair = operation.expected + operation.typed;
+      return pair === 'yi' || pair === 'iy' ? 'y-i-substitution' : 'substitution';
+    }
+    case 'delete': {
+      const index = operation.expectedIndex;
+      if (expected[index - 1] === operation.expected || expected[index + 1] === operation.expected) {
+        return 'missing-double-letter';
+      }
+      return isSilentLetter(expected, index) ? 'omitted-silent-letter' : 'omission';
+    }
+    case 'insert': {
+      const index = operation.expectedIndex;
+      const doublesNeighbour = expected[index - 1] === operation.typed || expected[index] === operation.typed;
+      return doublesNeighbour && typed.includes(operation.typed + operation.typed)
+        ? 'extra-double-letter'
+        : 'insertion';
+    }
+  }
+}
+
+/**
+ * Check whether a non-matching operation changes the word's pattern letters
+ * An extra letter only counts when it lands between two pattern letters.
+ */
+function touchesPattern(operation: DiffOperation, patternSpans: PatternSpan[]): boolean {
+  switch (operation.type) {
+    case 'match':
+      return false;
+    case 'insert':
+      return patternSpans.some(span => operation.expectedIndex > span.start && operation.expectedIndex < span.end);
+    case 'transpose':
+      return isInPattern(patternSpans, operation.expectedIndex) || isInPattern(patternSpans, operation.expectedIndex + 1);
+    default:
+      return isInPattern(patternSpans, operation.expectedIndex);
+  }
+}
+
+/**
+ * Diagnose what went wrong with a spelling attempt
+ *
+ * @param expected The correct spelling
+ * @param typed What the learner typed
+ * @param patternSpans The word's grapheme pattern in `expected`, from getWordPatternSpans
+ * @returns The alignment plus the kinds of mistake found
+ */
+export function diagnoseSpelling(expected: string, typed: string, patternSpans: PatternSpan[] = []): SpellingDiagnosis {
+  const lowerExpected = expected.toLowerCase();
+  const lowerTyped = typed.toLowerCase();
+  const { distance, operations } = alignSpelling(lowerExpected, lowerTyped);
+
+  const errorTypes: SpellingErrorType[] = [];
+  operations.forEach(operation => {
+    const errorType = classifyOperation(operation, lowerExpected, lowerTyped);
+    if (errorType && !errorTypes.includes(errorType)) {
+      errorTypes.push(errorType);
+    }
+  });
+  if (operations.some(operation => touchesPattern(operation, patternSpans))) {
+    errorTypes.push('missed-pattern');
+  }
+
+  return { distance, operations, errorTypes };
+}
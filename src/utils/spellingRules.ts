@@ -0,0 +1,269 @@
+// Spelling rules from the primary curriculum, offered when generating a word
+// set from a rule. Each rule's pattern is used to check that the words Gemini
+// proposes actually follow it, and to highlight the letters that carry the rule.
+
+export type SpellingRule = {
+  id: string;
+  name: string;          // Short label for lists
+  description: string;   // The rule as explained to a child; sent to Gemini and stored on each word
+  examples: string[];
+  pattern?: RegExp;      // Words following the rule match this; omitted when the rule has no visible pattern
+  grapheme?: RegExp;     // The letters to highlight, when they are only part of what `pattern` matches
+}
+
+export const CURRICULUM_RULES: SpellingRule[] = [
+  {
+    id: 'y-as-i',
+    name: "'y' making the /I/ sound",
+    description: "When 'y' appears in the middle of a word, it often makes the /I/ sound.",
+    examples: ['myth', 'gym', 'pyramid', 'mystery'],
+    pattern: /^[a-z]+y[a-z]+$/,
+    grapheme: /(?<=[a-z])y(?=[a-z])/
+  },
+  {
+    id: 'silent-k',
+    name: "Silent 'k' (kn)",
+    description: "The 'k' in 'kn' at the start of a word is silent - you only hear the 'n'.",
+    examples: ['knee', 'knight', 'knock', 'knot'],
+    pattern: /kn/
+  },
+  {
+    id: 'silent-w',
+    name: "Silent 'w' (wr)",
+    description: "The 'w' in 'wr' is silent - you only hear the 'r'.",
+    examples: ['write', 'wrong', 'wrap', 'wrist'],
+    pattern: /wr/
+  },
+  {
+    id: 'silent-b',
+    name: "Silent 'b' (mb, bt)",
+    description: "A 'b' after 'm' at the end of a word, or before 't', is silent.",
+    examples: ['lamb', 'thumb', 'climb', 'doubt'],
+    pattern: /mb|bt/
+  },
+  {
+    id: 'ph-as-f',
+    name: "'ph' making the /f/ sound",
+    description: "The letters 'ph' together make the /f/ sound, often in words that came from Greek.",
+    examples: ['phone', 'alphabet', 'dolphin', 'elephant'],
+    pattern: /ph/
+  },
+  {
+    id: 'ch-as-k',
+    name: "'ch' making the /k/ sound",
+    description: "In some words, often from Greek, 'ch' makes a /k/ sound.",
+    examples: ['school', 'chorus', 'chemist', 'echo'],
+    pattern: /ch/
+  },
+  {
+    id: 'soft-c',
+    name: "Soft 'c' (ce, ci, cy)",
+    description: "When 'c' comes before 'e', 'i' or 'y' it usually makes a soft /s/ sound.",
+    examples: ['city', 'pencil', 'fancy', 'ice'],
+    pattern: /c[eiy]/
+  },
+  {
+    id: 'dge-ge',
+    name: "'-dge' and '-ge' endings",
+    description: "The /j/ sound at the end of a word is spelled '-dge' straight after a short vowel, and '-ge' otherwise.",
+    examples: ['badge', 'bridge', 'large', 'huge'],
+    pattern: /ge$/
+  },
+  {
+    id: 'le-ending',
+    name: "'-le' ending",
+    description: "The '-le' spelling is the most common spelling for the /l/ sound at the end of a word.",
+    examples: ['table', 'apple', 'little', 'middle'],
+    pattern: /le$/
+  },
+  {
+    id: 'el-ending',
+    name: "'-el' ending",
+    description: "The '-el' spelling is used for the /l/ sound at the end of a word after m, n, r, s, v and w.",
+    examples: ['camel', 'tunnel', 'squirrel', 'travel'],
+    pattern: /el$/
+  },
+  {
+    id: 'al-ending',
+    name: "'-al' ending",
+    description: "Some words end in '-al' for the /l/ sound, often when they describe something.",
+    examples: ['metal', 'pedal', 'capital', 'animal'],
+    pattern: /al$/
+  },
+  {
+    id: 'wa-wo',
+    name: "'a' after 'w' and 'qu'",
+    description: "After 'w' and 'qu' the letter 'a' often makes an /o/ sound, and 'or' after 'w' makes an /er/ sound.",
+    examples: ['want', 'watch', 'squash', 'word'],
+    pattern: /(wa|qua|wor)/
+  },
+  {
+    id: 'ey-as-ee',
+    name: "'-ey' making the /ee/ sound",
+    description: "At the end of some words, 'ey' makes the /ee/ sound.",
+    examples: ['key', 'donkey', 'monkey', 'valley'],
+    pattern: /ey$/
+  },
+  {
+    id: 'ou-as-u',
+    name: "'ou' making the /u/ sound",
+    description: "In some words, 'ou' makes a short /u/ sound.",
+    examples: ['young', 'touch', 'double', 'trouble'],
+    pattern: /ou/
+  },
+  {
+    id: 'ough',
+    name: "'ough' words",
+    description: "The letters 'ough' can make several different sounds, so these words need to be learnt.",
+    examples: ['though', 'through', 'enough', 'bought'],
+    pattern: /ough/
+  },
+  {
+    id: 'i-before-e',
+    name: "'i' before 'e' except after 'c'",
+    description: "When 'ie' or 'ei' makes the /ee/ sound, it is usually 'ie' - except straight after 'c'.",
+    examples: ['field', 'piece', 'receive', 'ceiling'],
+    pattern: /ie|ei/
+  },
+  {
+    id: 'ei-as-ai',
+    name: "'ei', 'eigh' and 'ey' making the /ai/ sound",
+    description: "The letters 'ei', 'eigh' and 'ey' can all make the /ai/ sound.",
+    examples: ['vein', 'eight', 'neighbour', 'they'],
+    pattern: /ei|ey/
+  },
+  {
+    id: 'tion',
+    name: "'-tion' suffix",
+    description: "The /shun/ sound at the end of a word is most often spelled '-tion'.",
+    examples: ['station', 'action', 'fiction', 'invention'],
+    pattern: /tion$/
+  },
+  {
+    id: 'sion',
+    name: "'-sion' suffix",
+    description: "When a root word ends in 'd', 'de' or 'se', the /shun/ or /zhun/ ending is usually spelled '-sion'.",
+    examples: ['television', 'division', 'expansion', 'tension'],
+    pattern: /sion$/
+  },
+  {
+    id: 'cian',
+    name: "'-cian' suffix",
+    description: "When a root word ends in 'c' or 'cs', the /shun/ ending for a person is spelled '-cian'.",
+    examples: ['musician', 'magician', 'electrician', 'politician'],
+    pattern: /cian$/
+  },
+  {
+    id: 'ture',
+    name: "'-ture' ending",
+    description: "The /cher/ sound at the end of a word is often spelled '-ture'.",
+    examples: ['picture', 'adventure', 'nature', 'creature'],
+    pattern: /ture$/
+  },
+  {
+    id: 'sure',
+    name: "'-sure' ending",
+    description: "The /zher/ sound at the end of a word is spelled '-sure'.",
+    examples: ['measure', 'treasure', 'pleasure', 'enclosure'],
+    pattern: /sure$/
+  },
+  {
+    id: 'ous',
+    name: "'-ous' suffix",
+    description: "The '-ous' suffix means 'full of' and turns words into describing words.",
+    examples: ['famous', 'dangerous', 'nervous', 'enormous'],
+    pattern: /ous$/
+  },
+  {
+    id: 'cious-tious',
+    name: "'-cious' and '-tious' endings",
+    description: "The /shus/ ending is spelled '-cious' if the root word ends in 'ce', and usually '-tious' otherwise.",
+    examples: ['vicious', 'delicious', 'ambitious', 'cautious'],
+    pattern: /(cious|tious)$/
+  },
+  {
+    id: 'cial-tial',
+    name: "'-cial' and '-tial' endings",
+    description: "The /shul/ ending is usually '-cial' after a vowel and '-tial' after a consonant.",
+    examples: ['official', 'special', 'partial', 'essential'],
+    pattern: /(cial|tial)$/
+  },
+  {
+    id: 'ly',
+    name: "'-ly' suffix",
+    description: "Adding '-ly' turns a describing word into a word that describes how something is done.",
+    examples: ['sadly', 'quickly', 'happily', 'gently'],
+    pattern: /ly$/
+  },
+  {
+    id: 'ful',
+    name: "'-ful' suffix",
+    description: "The suffix '-ful' means 'full of' and is spelled with only one 'l'.",
+    examples: ['careful', 'playful', 'hopeful', 'beautiful'],
+    pattern: /ful$/
+  },
+  {
+    id: 'ness-ment',
+    name: "'-ness' and '-ment' suffixes",
+    description: "Adding '-ness' or '-ment' turns a word into the name of a thing or feeling.",
+    examples: ['kindness', 'sadness', 'enjoyment', 'payment'],
+    pattern: /(ness|ment)$/
+  },
+  {
+    id: 'able-ible',
+    name: "'-able' and '-ible' endings",
+    description: "The '-able' ending is used when there is a complete root word; '-ible' is used when there isn't.",
+    examples: ['comfortable', 'enjoyable', 'possible', 'terrible'],
+    pattern: /(able|ible)$/
+  },
+  {
+    id: 'ance-ence',
+    name: "'-ance' and '-ence' endings",
+    description: "Words ending in '-ant' become '-ance' and words ending in '-ent' become '-ence'.",
+    examples: ['distance', 'importance', 'confidence', 'difference'],
+    pattern: /(ance|ence|ancy|ency)$/
+  },
+  {
+    id: 'prefix-un-dis-mis',
+    name: "Prefixes 'un-', 'dis-' and 'mis-'",
+    description: "The prefixes 'un-', 'dis-' and 'mis-' give a word the opposite or a wrong meaning; the root word doesn't change.",
+    examples: ['unhappy', 'disappear', 'misbehave', 'unkind'],
+    pattern: /^(un|dis|mis)/
+  },
+  {
+    id: 'prefix-re',
+    name: "Prefix 're-'",
+    description: "The prefix 're-' means 'again' or 'back'.",
+    examples: ['redo', 'return', 'refresh', 'reappear'],
+    pattern: /^re/
+  },
+  {
+    id: 'prefix-in-im-il-ir',
+    name: "Prefixes 'in-', 'im-', 'il-' and 'ir-'",
+    description: "The prefix 'in-' means 'not'; it becomes 'im-' before m or p, 'il-' before l and 'ir-' before r.",
+    examples: ['incorrect', 'impossible', 'illegal', 'irregular'],
+    pattern: /^(in|im|il|ir)/
+  },
+  {
+    id: 'doubling',
+    name: 'Doubling the consonant before -ing and -ed',
+    description: "When a short word ends in one vowel and one consonant, double the consonant before adding '-ing' or '-ed'.",
+    examples: ['hopping', 'patted', 'running', 'stopped'],
+    pattern: /([bdgmnprt])\1(ing|ed|er|est)$/,
+    grapheme: /([bdgmnprt])\1(?=(ing|ed|er|est)$)/
+  },
+  {
+    id: 'homophones',
+    name: 'Homophones',
+    description: 'Homophones sound the same but are spelled differently and mean different things.',
+    examples: ['there', 'their', 'hear', 'here']
+  }
+];
+
+/**
+ * Check whether a word follows a rule's pattern
+ * Rules without a pattern accept every word.
+ */
+export function followsRule(word: string, rule: SpellingRule): boolean {
+  return !rule.pattern || rule.pattern.test(word.toLowerCase());
+}
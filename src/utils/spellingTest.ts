@@ -0,0 +1,44 @@
+import { AnswerCheck } from './spellingVariants';
+
+// Helpers for the dictation-style spelling test, where answers are collected
+// without feedback and marked together at the end.
+
+// One answer in a spelling test, kept for the results sheet
+export type TestAnswer = {
+  word: string;      // The word as it appears in the set
+  expected: string;  // The spelling required in the learner's locale
+  typed: string;
+  result: AnswerCheck['result'];
+  note?: string;     // Why a variant spelling was accepted
+}
+
+export type TestScore = {
+  correct: number;
+  total: number;
+  percent: number;
+}
+
+/**
+ * Shuffle a list into a random order, leaving the original untouched
+ */
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Mark a finished test
+ * Accepted variant spellings count as correct.
+ */
+export function scoreTest(answers: TestAnswer[]): TestScore {
+  const correct = answers.filter(answer => answer.result !== 'incorrect').length;
+  return {
+    correct,
+    total: answers.length,
+    percent: answers.length > 0 ? Math.round((correct / answers.length) * 100) : 0
+  };
+}
@@ -0,0 +1,83 @@
+import { SpellingLocale } from './profiles';
+import { getSpellingVariants } from './offlineDictionary';
+
+// Words spelled differently in British and American English. A learner's
+// locale decides which spelling is required; the other, and any alternatives
+// listed on the word, are accepted with a note.
+
+export const LOCALE_NAMES: Record<SpellingLocale, string> = {
+  'en-GB': 'British English',
+  'en-US': 'American English'
+};
+
+const LOCALE_SHORT_NAMES: Record<SpellingLocale, string> = {
+  'en-GB': 'UK',
+  'en-US': 'US'
+};
+
+type VariantWord = {
+  word: string;
+  variants?: string[];  // Other accepted spellings, e.g. "color" for "colour"
+}
+
+export type AnswerCheck = {
+  result: 'correct' | 'variant' | 'incorrect';
+  expected: string;  // The spelling required in the learner's locale
+  note?: string;     // Explains why a variant was accepted
+}
+
+/**
+ * Get the spelling a learner must use for a word
+ * If the word, or one of its listed variants, has a known British/American
+ * pair, the locale's spelling wins; otherwise the word as written in the set.
+ *
+ * @param word The word from the set
+ * @param locale The learner's or set's spelling locale
+ * @returns The required spelling, lower-cased
+ */
+export function getRequiredSpelling(word: VariantWord, locale: SpellingLocale): string {
+  for (const candidate of [word.word, ...(word.variants || [])]) {
+    const pair = getSpellingVariants(candidate);
+    if (pair) return locale === 'en-US' ? pair.us : pair.uk;
+  }
+  return word.word.toLowerCase();
+}
+
+/**
+ * Get every spelling accepted for a word, the required one first
+ */
+export function getAcceptedSpellings(word: VariantWord, locale: SpellingLocale): string[] {
+  const spellings = [getRequiredSpelling(word, locale), word.word, ...(word.variants || [])]
+    .map(spelling => spelling.trim().toLowerCase())
+    .filter(Boolean);
+  const pair = getSpellingVariants(word.word);
+  if (pair) spellings.push(pair.uk, pair.us);
+  return Array.from(new Set(spellings));
+}
+
+/**
+ * Check a typed answer, accepting the other locale's spelling with a note
+ *
+ * @param word The word being practised
+ * @param typed What the learner typed
+ * @param locale The spelling locale that decides the required spelling
+ * @returns Whether the answer is correct, an accepted variant or wrong
+ */
+export function checkSpelling(word: VariantWord, typed: string, locale: SpellingLocale): AnswerCheck {
+  const expected = getRequiredSpelling(word, locale);
+  const answer = typed.trim().toLowerCase();
+
+  if (answer === expected) {
+    return { result: 'correct', expected };
+  }
+  if (!getAcceptedSpellings(word, locale).includes(answer)) {
+    return { result: 'incorrect', expected };
+  }
+
+  const pair = getSpellingVariants(answer);
+  const otherLocale: SpellingLocale = locale === 'en-US' ? 'en-GB' : 'en-US';
+  const note = pair && (otherLocale === 'en-US' ? pair.us : pair.uk) === answer
+    ? `"${answer}" is the ${LOCALE_SHORT_NAMES[otherLocale]} spelling. In ${LOCALE_NAMES[locale]} it's "${expected}".`
+    : `"${answer}" is also right, but this list spells it "${expected}".`;
+  return { result: 'variant', expected, note };
+}
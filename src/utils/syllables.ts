@@ -0,0 +1,77 @@
+import { lookupWord } from './offlineDictionary';
+
+// Syllable breakdowns are stored in Word.phonetic as the word's own letters
+// split with '·', e.g. "sys·tem". Older words and typed-in breakdowns may use
+// hyphens or spaces instead, and some hold sounds ("k-a-t") rather than
+// spellings, so a breakdown is only shown as syllables once it is checked to
+// spell the word.
+
+export const SYLLABLE_SEPARATOR = '·';
+
+export type SyllableCheck = {
+  chunks: string[];
+  joined: string;    // The chunks put back together, lower case
+  isValid: boolean;  // True when the chunks spell the word exactly
+}
+
+/**
+ * Split a breakdown into its chunks
+ *
+ * @param phonetic A breakdown such as "sys·tem", "sys-tem" or "sys tem"
+ * @returns The chunks in order, without separators
+ */
+export function splitSyllables(phonetic: string): string[] {
+  return phonetic
+    .split(/[·•\-\s/|]+/)
+    .map(chunk => chunk.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Check that a breakdown's chunks join back into the word
+ * Case and apostrophes are ignored, so "Don't" can be split "don't" or "dont".
+ *
+ * @param word The word as it is spelled
+ * @param phonetic The word's breakdown
+ */
+export function checkSyllables(word: string, phonetic: string): SyllableCheck {
+  const normalise = (text: string) => text.toLowerCase().replace(/'/g, '');
+  const chunks = splitSyllables(phonetic);
+  const joined = normalise(chunks.join(''));
+  return {
+    chunks,
+    joined,
+    isValid: chunks.length > 0 && joined === normalise(word.trim())
+  };
+}
+
+/**
+ * Explain why a breakdown can't be shown as syllables
+ *
+ * @param word The word as it is spelled
+ * @param phonetic The word's breakdown
+ * @returns A message describing the problem, or null if the breakdown is fine or empty
+ */
+export function validateSyllables(word: string, phonetic: string): string | null {
+  if (!word.trim() || !phonetic.trim()) return null;
+  const check = checkSyllables(word, phonetic);
+  return check.isValid ? null : `The syllables spell "${check.joined}", not "${word.trim()}".`;
+}
+
+/**
+ * Find a word's syllables for the breakdown panel
+ * A breakdown that doesn't spell the word is replaced by the bundled
+ * dictionary's, when the word is in it.
+ *
+ * @param word The word as it is spelled
+ * @param phonetic The word's saved breakdown, if any
+ * @returns The syllables, or null if none are known
+ */
+export function getSyllables(word: string, phonetic?: string): string[] | null {
+  const saved = phonetic ? checkSyllables(word, phonetic) : null;
+  if (saved?.isValid) return saved.chunks;
+
+  const entry = lookupWord(word);
+  const fromDictionary = entry ? checkSyllables(word, entry.syllables) : null;
+  return fromDictionary?.isValid ? fromDictionary.chunks : null;
+}
@@ -0,0 +1,407 @@
+// A compact list of real English words that primary-school spelling lists are
+// drawn from: the statutory curriculum word lists, words for each curriculum
+// spelling rule and everyday vocabulary. Used to reject invented words that
+// Gemini proposes. British spellings; regular inflections are recognised
+// without being listed.
+
+const WORD_GROUPS = [
+  // Year 1 and 2 common exception words
+  `the a do to today of said says are were was is his has i you your they be he me she we no go so by my
+  here there where love come some one once ask friend school put push pull full house our door floor poor
+  because find kind mind behind child children wild climb most only both old cold gold hold told every
+  everybody even great break steak pretty beautiful after fast last past father class grass pass plant
+  path bath hour move prove improve sure sugar eye could should would who whole any many clothes busy
+  people water again half money mr mrs parents christmas`,
+
+  // Year 3 and 4 statutory words
+  `accident accidentally actual actually address answer appear arrive believe bicycle breath breathe build
+  business calendar caught centre century certain circle complete consider continue decide describe
+  different difficult disappear early earth eight eighth enough exercise experience experiment extreme
+  famous favourite february forward forwards fruit grammar group guard guide heard heart height history
+  imagine increase important interest island knowledge learn length library material medicine mention
+  minute natural naughty notice occasion occasionally often opposite ordinary particular peculiar perhaps
+  popular position possess possession possible potato potatoes pressure probably promise purpose quarter
+  question recent regular reign remember sentence separate special straight strange strength suppose
+  surprise therefore though although thought through various weight woman women`,
+
+  // Year 5 and 6 statutory words
+  `accommodate accompany according achieve aggressive amateur ancient apparent appreciate attached available
+  average awkward bargain bruise category cemetery committee communicate community competition conscience
+  conscious controversy convenience correspond criticise curiosity definite desperate determined develop
+  dictionary disastrous embarrass environment equip equipped equipment especially exaggerate excellent
+  existence explanation familiar foreign forty frequently government guarantee harass hindrance identity
+  immediate immediately individual interfere interrupt language leisure lightning marvellous mischievous
+  muscle necessary neighbour nuisance occupy occur opportunity parliament persuade physical prejudice
+  privilege profession programme pronunciation queue recognise recommend relevant restaurant rhyme rhythm
+  sacrifice secretary shoulder signature sincere sincerely soldier stomach sufficient suggest symbol system
+  temperature thorough twelfth variety vegetable vehicle yacht`,
+
+  // Common short words and function words
+  `an and as at but for from if in into it its not on or out over than that them then these this those up
+  us with about above across against along among around before below beneath beside between beyond down
+  during except inside near off onto outside since under until upon within without all another each few
+  more much none other several such what when which whose why how yes am been being can did does doing
+  done had having may might must shall will him her hers herself himself itself myself ourselves themselves
+  yourself mine ours yours their theirs its very too also just still yet already always never sometimes
+  usually soon now later ever quite rather almost enough else perhaps maybe together apart away back
+  ago often either neither whether while though unless because`,
+
+  // Numbers, time and calendar
+  `zero two three four five six seven nine ten eleven twelve thirteen fourteen fifteen sixteen seventeen
+  eighteen nineteen twenty thirty fifty sixty seventy eighty ninety hundred thousand million first second
+  third fourth fifth sixth seventh ninth tenth half quarter double single dozen number numeral count
+  monday tuesday wednesday thursday friday saturday sunday january march april may june july august
+  september october november december day week month year hour second morning afternoon evening night
+  midnight noon tonight tomorrow yesterday weekend spring summer autumn winter season birthday holiday
+  clock watch time moment future present past`,
+
+  // People and family
+  `baby boy girl man men person mother mum dad brother sister son daughter aunt uncle cousin niece nephew
+  grandmother grandfather grandma grandad granny family parent husband wife king queen prince princess
+  knight lord lady teacher doctor nurse farmer pilot police officer soldier sailor builder baker butcher
+  chef cook dentist vet scientist artist author writer singer dancer player captain chief leader member
+  neighbour stranger visitor guest customer pupil student classmate partner team crowd audience hero
+  heroine giant wizard witch fairy ghost monster pirate robot alien detective engineer plumber electrician
+  musician magician optician politician mathematician technician physician beautician`,
+
+  // Body and health
+  `body head hair face eye eyes ear nose mouth lip lips tooth teeth tongue cheek chin neck shoulder arm
+  elbow wrist hand finger thumb nail chest stomach back leg knee ankle foot feet toe heel skin bone
+  blood heart brain lung muscle skeleton skull spine rib breath cough sneeze fever pain ache headache
+  toothache healthy ill sick poorly injury bruise bandage plaster medicine hospital doctor operation
+  exercise sleep tired hungry thirsty`,
+
+  // Animals
+  `animal cat dog puppy kitten horse pony donkey cow calf sheep lamb goat pig piglet hen chicken duck
+  duckling goose swan turkey rabbit mouse mice rat hamster guinea fox wolf bear deer lion tiger leopard
+  cheetah elephant giraffe zebra hippo rhino monkey gorilla chimpanzee kangaroo koala panda camel
+  squirrel hedgehog badger otter beaver mole bat owl eagle hawk falcon robin sparrow pigeon parrot
+  penguin peacock ostrich crow magpie seagull bird fish shark whale dolphin seal octopus crab lobster
+  jellyfish starfish snail slug worm spider ant bee wasp butterfly moth beetle ladybird caterpillar fly
+  mosquito frog toad tadpole snake lizard crocodile alligator tortoise turtle dinosaur dragon unicorn
+  insect mammal reptile amphibian creature pet herd flock swarm nest hive den burrow feather fur wing
+  tail paw claw beak horn hoof shell scale gill`,
+
+  // Food and drink
+  `food drink water milk juice tea coffee bread butter cheese egg eggs jam honey cereal toast sandwich
+  soup salad pasta rice pizza burger sausage bacon ham chicken beef meat fish chips potato carrot pea
+  peas bean beans onion garlic tomato cucumber lettuce cabbage broccoli cauliflower pepper mushroom
+  sweetcorn pumpkin apple banana orange lemon lime grape grapes pear peach plum cherry strawberry
+  raspberry blueberry melon pineapple mango coconut nut nuts cake biscuit cookie chocolate sweet sweets
+  sugar salt flour pie pudding dessert custard ice cream lolly yoghurt breakfast lunch dinner supper tea
+  meal snack picnic feast recipe delicious tasty sour bitter spicy crunchy juicy syrup`,
+
+  // Home and everyday objects
+  `home house flat bungalow cottage castle palace room kitchen bedroom bathroom hall hallway stairs
+  upstairs downstairs garden garage roof wall window door floor ceiling chimney gate fence shed table
+  chair sofa bed bench desk shelf shelves cupboard drawer wardrobe mirror lamp light candle clock
+  carpet rug curtain pillow blanket duvet towel soap brush comb toothbrush toothpaste sink bath shower
+  toilet tap kettle oven cooker fridge freezer plate bowl cup mug glass spoon fork knife knives pan pot
+  jug bottle box basket bag bucket key lock phone telephone television radio computer laptop tablet
+  camera battery cable screen keyboard button switch machine engine tool hammer nail screw saw ladder
+  rope string thread needle scissors glue tape paper card envelope letter parcel stamp ticket money
+  coin purse wallet umbrella`,
+
+  // School and learning
+  `school classroom class lesson teacher pupil book books page pages story stories poem poetry chapter
+  title author pencil pen crayon rubber ruler sharpener paint brush chalk board whiteboard homework
+  spelling reading writing maths mathematics science history geography music art drama sport project
+  test quiz answer question word words letter letters sentence paragraph alphabet vowel consonant
+  syllable noun verb adjective adverb pronoun preposition conjunction punctuation comma apostrophe
+  capital dictionary thesaurus library atlas map globe calculator addition subtraction multiplication
+  division fraction decimal percent percentage shape square circle triangle rectangle oval cube sphere
+  pyramid cylinder cone angle line point length width height weight measure measurement metre
+  centimetre kilometre litre gram kilogram total sum difference equal`,
+
+  // Nature, weather and places
+  `nature weather sun sunny moon star stars sky cloud cloudy rain rainy rainbow snow snowy wind windy
+  storm stormy thunder lightning fog foggy ice frost frosty hail puddle flood drought heat temperature
+  season tree trees leaf leaves branch root trunk bark flower flowers petal seed plant grass bush hedge
+  forest wood woods jungle desert mountain hill valley volcano cave cliff rock stone pebble sand beach
+  sea ocean coast island river stream lake pond waterfall field meadow farm village town city country
+  world earth planet space galaxy comet rocket astronaut moon orbit universe north south east west
+  continent europe africa asia america australia antarctica britain england scotland wales ireland
+  london street road lane bridge tunnel park playground market shop supermarket library museum church
+  station airport harbour castle tower`,
+
+  // Transport and travel
+  `car bus coach van lorry truck taxi train tram tractor bicycle bike scooter motorbike boat ship yacht
+  ferry submarine canoe raft aeroplane plane helicopter rocket journey travel trip holiday passport
+  suitcase luggage ticket map route traffic wheel tyre engine petrol driver passenger pilot platform`,
+
+  // Clothes, colours and toys
+  `clothes shirt skirt dress trousers jeans shorts jumper cardigan coat jacket hat cap scarf glove gloves
+  sock socks shoe shoes boot boots trainers sandals uniform pocket button zip belt pyjamas costume
+  colour red orange yellow green blue purple pink brown black white grey gold silver toy toys ball doll
+  teddy puzzle game kite balloon drum whistle jigsaw marble`,
+
+  // Common verbs
+  `be have do say go get make know think take see come want look use find give tell work call try ask need
+  feel become leave put mean keep let begin seem help talk turn start show hear play run move like live
+  believe hold bring happen write provide sit stand lose pay meet include continue set learn change lead
+  understand watch follow stop create speak read allow add spend grow open walk win offer remember love
+  consider appear buy wait serve die send expect build stay fall cut reach kill remain suggest raise pass
+  sell require report decide pull return explain hope develop carry break receive agree support hit
+  produce eat cover catch draw choose cause point listen realise place close enjoy jump hop skip climb
+  swim fly ride drive throw kick laugh smile cry shout scream whisper sing dance paint colour clap wave
+  wash clean cook bake fix mend borrow lend share hide seek search chase escape rescue explore discover
+  invent imagine dream wonder worry hurry rush travel visit arrive depart enter exit knock ring touch
+  taste smell notice guess count measure compare describe invite thank forgive apologise argue fight
+  shake shiver sneeze yawn sleep wake dress brush comb fold pour mix stir chop slice spread fill empty
+  pack unpack tidy drop lift push press pick pinch poke scratch tickle hug kiss wrap write wriggle wrestle
+  knit kneel knead knock know`,
+
+  // Common describing words
+  `good bad big small little large huge tiny tall short long wide narrow thick thin fat heavy light
+  high low deep shallow fast quick slow early late new old young ancient modern hot cold warm cool wet
+  dry hard soft loud quiet noisy silent bright dark clean dirty tidy messy full empty rich poor strong
+  weak happy sad angry cross upset scared frightened afraid brave shy proud kind cruel gentle rough
+  smooth sharp blunt sweet sour bitter fresh rotten easy difficult simple hard clever silly funny
+  serious strange odd normal usual special ordinary different same similar right wrong true false real
+  pretend fair unfair nice lovely beautiful ugly pretty handsome cute friendly lonely lazy busy
+  careful careless helpful useful useless hopeful hopeless playful thankful cheerful colourful powerful
+  peaceful wonderful dreadful awful grateful fearful painful truthful joyful graceful harmful restful
+  famous dangerous nervous enormous jealous curious various furious generous glorious humorous
+  mountainous poisonous adventurous courageous outrageous ridiculous tremendous numerous mysterious
+  obvious serious previous precious delicious vicious suspicious conscious gracious spacious ferocious
+  atrocious ambitious cautious fictitious nutritious infectious superstitious`,
+
+  // 'y' making the /I/ sound
+  `myth myths gym gymnast gymnastics pyramid mystery mysterious egypt egyptian crystal symbol system
+  syrup lyric lyrics cymbal cylinder typical physical physics oxygen hymn rhythm bicycle sympathy
+  symptom syllable synonym antonym abyss cyclist cygnet nymph mythical olympic olympics analysis
+  dynasty hysterical idyllic lynx pygmy crypt cryptic typical`,
+
+  // Silent letters
+  `knee knees kneel knelt knew knife knives knight knit knob knock knot know known knowledge knuckle
+  knack knapsack knead knickers knowing unknown doorknob
+  write writer writing written wrote wrong wrap wrapped wrapper wreck wreath wren wrist wrestle
+  wrestler wriggle wrinkle wrench wretched sword answer two whole who whose
+  lamb thumb climb climber comb bomb tomb womb crumb plumber numb limb dumb doubt debt subtle
+  island castle listen fasten whistle often christmas wednesday autumn column hymn solemn condemn
+  gnome gnat gnaw sign design foreign reign campaign honest honour hour heir ghost ghastly rhyme
+  rhythm rhubarb rhino rhinoceros half calf talk walk chalk could should would salmon yolk folk`,
+
+  // 'ph' and 'ch' words
+  `phone telephone photo photograph photographer alphabet dolphin elephant graph paragraph phrase
+  physical sphere trophy orphan nephew pharmacy phantom pheasant prophet triumph typhoon microphone
+  headphones saxophone xylophone geography biography autograph hyphen
+  school scheme chorus chemist chemistry character echo stomach ache anchor orchestra orchid mechanic
+  technology christmas chaos choir chord chemical architect monarch
+  chef machine brochure parachute chalet chauffeur moustache
+  chair chain chalk change chase chat cheap cheek cheese cherry chest chew chick child chin chip chop
+  church much such which rich lunch bench branch catch fetch kitchen match pitch ditch watch witch`,
+
+  // Soft c and g, -dge and -ge
+  `city circle circus cinema centre cent cereal certain cell cellar ceiling celebrate cement cycle
+  cyclist cymbal cylinder pencil fancy face race place space ice rice nice mice dice price twice slice
+  dance prince princess fence juice voice choice bounce pounce notice office police palace peace
+  piece decide except excite exciting recent accident necessary bicycle circle
+  badge bridge edge hedge ledge fudge judge nudge sludge smudge lodge dodge ridge fridge porridge
+  knowledge cartridge hedgehog gadget midget
+  large huge age page cage stage wage change charge orange strange sponge plunge hinge fringe
+  village cottage cabbage garage message passage sausage damage image manage package luggage
+  language bandage carriage marriage voyage courage savage giant giraffe gentle germ gem ginger
+  magic energy engine imagine general danger stranger vegetable gym`,
+
+  // -le, -el, -al and -il endings
+  `table apple little middle bottle cattle kettle nettle rattle settle battle title puddle muddle
+  paddle saddle cuddle fiddle riddle giggle wiggle wriggle jiggle juggle snuggle struggle bubble
+  pebble nibble dribble wobble gobble tickle pickle buckle freckle sparkle twinkle wrinkle ankle uncle
+  candle handle bundle needle noodle poodle people purple circle simple sample example temple
+  eagle beetle castle whistle thistle bristle jungle single tingle angle bangle tangle triangle
+  rectangle uncle cycle bicycle tricycle vehicle article miracle obstacle puzzle
+  camel tunnel squirrel travel towel vowel jewel level model novel hotel parcel cancel label
+  barrel funnel panel kennel flannel channel tinsel chisel gravel shovel angel angel
+  metal pedal capital animal hospital petal total medal signal plural festival carnival crystal
+  local vocal normal natural special final spiral original general usual several
+  pencil fossil nostril pupil lentil stencil council peril until`,
+
+  // 'a' after w and qu, 'or' after w
+  `want wand wander was wash wasp watch water wallet walrus wattle swan swap swamp swallow squash
+  squat squabble squad quality quantity quarrel quarry word words work worker world worm worse worst
+  worth worthy worship war warm warn ward wardrobe dwarf swarm towards reward award quarter
+  squirrel quiet quick quite queen question quiz`,
+
+  // -ey making /ee/, ou making /u/, ough
+  `key keys donkey monkey valley trolley chimney honey money jockey hockey turkey journey kidney
+  jersey alley volley pulley galley abbey cockney medley motley
+  young touch double trouble country cousin couple southern courage enough tough rough nourish
+  flourish encourage
+  though although through thorough borough ought bought brought fought nought sought thought
+  cough trough enough rough tough plough bough dough doughnut drought`,
+
+  // ie and ei words
+  `field piece believe belief chief thief grief brief niece shield shriek priest fierce pierce siege
+  yield relief achieve fiery friend pie tie lie die cried tried dried fried spied
+  receive receipt ceiling deceive deceit conceit conceive perceive
+  eight eighth eighteen eighty weight weigh neighbour neigh sleigh freight vein veil reign rein
+  beige they obey grey prey survey convey
+  either neither seize weird protein their height heir foreign leisure`,
+
+  // -tion, -sion, -ssion and -cian
+  `station action fiction nation motion lotion potion caution portion section fraction friction
+  direction collection invention question information education attention position addition
+  subtraction multiplication competition population pollution solution revolution celebration
+  decoration imagination explanation conversation instruction introduction construction destruction
+  protection reaction relation operation preparation pronunciation punctuation transportation
+  exhibition ambition condition tradition nutrition definition description prescription inspection
+  injection infection reflection selection suggestion exception emotion promotion completion
+  creation situation vacation location generation dictation translation sensation temptation
+  hibernation evaporation condensation migration
+  television division vision revision decision collision confusion explosion erosion invasion
+  conclusion exclusion inclusion persuasion occasion version tension extension expansion comprehension
+  mission permission admission discussion expression impression possession profession procession
+  passion session succession
+  musician magician electrician politician optician mathematician technician physician`,
+
+  // -ture, -sure, -cial, -tial
+  `picture adventure nature creature future furniture mixture capture culture feature fixture
+  fracture gesture lecture moisture pasture puncture sculpture signature structure temperature
+  texture torture vulture departure literature agriculture manufacture
+  measure treasure pleasure leisure enclosure exposure closure composure
+  official special social artificial beneficial crucial facial financial racial commercial
+  partial essential initial martial potential residential substantial confidential influential
+  sequential torrential`,
+
+  // -ly, -ful, -ness, -ment
+  `sadly badly gladly madly quickly slowly quietly loudly softly gently simply happily angrily
+  busily easily lazily luckily noisily hungrily sleepily prettily finally usually really nearly
+  clearly dearly fairly kindly lovely lonely friendly ugly early only daily weekly monthly yearly
+  carefully hopefully truly wholly basically dramatically frantically comically
+  careful playful hopeful beautiful thankful cheerful colourful powerful peaceful wonderful dreadful
+  awful grateful fearful painful truthful joyful graceful harmful restful handful mouthful spoonful
+  forgetful successful skilful wilful plentiful merciful
+  kindness sadness darkness happiness illness fitness goodness weakness madness fairness softness
+  loneliness laziness emptiness business ugliness tiredness readiness greediness silliness
+  enjoyment payment movement government argument agreement achievement amusement equipment
+  excitement measurement replacement statement treatment development entertainment environment
+  merriment punishment settlement announcement advertisement embarrassment`,
+
+  // -able, -ible, -ance, -ence
+  `comfortable enjoyable reasonable adorable valuable breakable washable available changeable
+  noticeable dependable considerable understandable acceptable remarkable fashionable miserable
+  reliable capable suitable table stable cable fable
+  possible impossible terrible horrible visible invisible sensible incredible edible flexible
+  responsible reversible legible illegible audible
+  distance importance appearance entrance performance balance attendance disturbance tolerance
+  ignorance elegance hesitance substance instance assistance
+  confidence difference absence silence patience science sentence existence evidence independence
+  intelligence obedience innocence influence reference residence violence experience convenience
+  frequency emergency urgency agency tendency infancy vacancy hesitancy`,
+
+  // Prefixes
+  `unhappy unkind unlock unable undo unfair unwell unpack untie unusual unfriendly unlucky unsafe
+  uncertain uncomfortable unnecessary unknown unseen unwrap untidy unfold unzip unlike
+  disappear disagree disobey dislike dishonest disappoint disconnect discover distrust disable
+  disapprove disorder dismount disqualify
+  misbehave mislead misspell misplace misunderstand mistake misfortune misjudge misprint
+  redo return refresh reappear rebuild replay reheat rewrite retell recycle reuse reread refill
+  repay revisit react rearrange remove replace repeat reply report rescue
+  incorrect invisible inactive incomplete inaccurate independent indirect insane
+  impossible impatient imperfect impolite immature immortal improper
+  illegal illogical illegible irregular irrelevant irresponsible irreplaceable
+  superstar supermarket superman subway submarine subheading autobiography automatic autograph
+  antiseptic anticlockwise antisocial international interact intercity`,
+
+  // Doubled consonants and inflection examples
+  `hopping hopped patting patted running runner stopping stopped sitting skipping skipped clapping
+  clapped dropping dropped shopping shopped swimming swimmer digging dug planning planned begging
+  begged hugging hugged chatting chatted spotted spotting grabbing grabbed rubbing rubbed nodding
+  nodded trimming trimmed hotter hottest bigger biggest fatter fattest sadder saddest thinner
+  thinnest wetter wettest forgetting forgotten beginning beginner preferred preferring occurred
+  occurring referred travelled travelling cancelled labelled`,
+
+  // Homophones and near-homophones
+  `there their they're here hear where wear were we're to too two for four fore see sea be bee
+  by buy bye no know new knew night knight right write rite son sun one won eight ate blue blew
+  flour flower hole whole hour our male mail meat meet pair pear pane pain peace piece plain plane
+  read red road rode sail sale scene seen sew sow so some sum stair stare steal steel tail tale
+  weak week weather whether which witch wood would not knot accept except affect effect ball bawl
+  berry bury brake break fair fare groan grown heal heel missed mist rain reign rein knead need
+  grate great main mane medal meddle morning mourning peer pier principal principle profit prophet
+  aloud allowed past passed guessed guest bare bear`,
+
+  // More everyday and topic vocabulary
+  `thing things something nothing anything everything someone anyone everyone nobody somewhere
+  anywhere everywhere nowhere place places way ways part parts side end top bottom middle front edge
+  corner centre shape size kind sort type group pair set piece bit lot plenty
+  idea fact reason problem answer choice chance luck fun joke secret surprise gift present party
+  game match race prize medal trophy winner loser team club sport football rugby cricket tennis
+  netball hockey golf swimming running racing skating skiing cycling climbing gymnastics athletics
+  music song band concert instrument piano guitar violin trumpet flute recorder drum cymbal harp
+  picture painting drawing photo film movie cartoon comic show theatre stage costume mask puppet
+  news message email internet website video
+  job work office factory business company shop market bank price cost pound penny pence
+  war peace army battle castle sword shield arrow bow spear armour treasure gold jewel crown
+  throne kingdom empire emperor empress roman romans viking vikings saxon saxons tudor tudors
+  victorian victorians egypt pharaoh mummy tomb pyramid temple
+  magnet metal plastic wood wooden glass paper rubber fabric cotton wool leather iron steel copper
+  electricity circuit battery bulb wire switch force gravity friction energy light shadow sound
+  vibration solid liquid gas water steam melt freeze evaporate condense dissolve mixture material
+  skeleton habitat environment pollution recycling rubbish litter plastic ocean climate
+  germ germs virus bacteria vitamin protein diet healthy heart lungs
+  happy happier happiest happily sad sadder saddest
+  begin began begun swim swam swum sing sang sung ring rang rung drink drank drunk
+  eat ate eaten fall fell fallen give gave given take took taken shake shook shaken
+  see saw seen go went gone do did done come came become became run ran
+  fly flew flown grow grew grown throw threw thrown blow blew blown know knew known draw drew drawn
+  write wrote written ride rode ridden drive drove driven rise rose risen hide hid hidden
+  bite bit bitten forget forgot forgotten get got speak spoke spoken break broke broken
+  choose chose chosen freeze froze frozen wake woke woken steal stole stolen wear wore worn
+  tear tore torn swear swore sworn bear bore born
+  buy bought bring brought think thought teach taught catch caught fight fought seek sought
+  feel felt keep kept sleep slept sweep swept weep wept leave left mean meant meet met
+  send sent spend spent lend lent bend bent build built lose lost
+  sit sat stand stood understand understood tell told sell sold hold held find found
+  make made pay paid say said lay laid hear heard have had
+  cut hit hurt let put set shut split spread cost`
+];
+
+const KNOWN_WORDS = new Set(WORD_GROUPS.join(' ').toLowerCase().split(/\s+/).filter(Boolean));
+
+// Regular endings, and how to undo each to get back to a listed word
+const INFLECTIONS: Array<{ ending: string; replacements: string[] }> = [
+  { ending: 'ies', replacements: ['y'] },
+  { ending: 'ied', replacements: ['y'] },
+  { ending: 'ier', replacements: ['y'] },
+  { ending: 'iest', replacements: ['y'] },
+  { ending: 'ily', replacements: ['y'] },
+  { ending: 'es', replacements: ['', 'e'] },
+  { ending: 's', replacements: [''] },
+  { ending: 'ed', replacements: ['', 'e'] },
+  { ending: 'ing', replacements: ['', 'e'] },
+  { ending: 'er', replacements: ['', 'e'] },
+  { ending: 'est', replacements: ['', 'e'] },
+  { ending: 'ly', replacements: ['', 'le'] }
+];
+
+/**
+ * Check whether a word is a real English word, as far as the bundled list knows
+ * Regular inflections of listed words (plurals, -ed, -ing, -er, -est, -ly,
+ * including doubled consonants) are also accepted.
+ *
+ * @param word The word to check
+ * @returns True if the word, or the word it was formed from, is in the list
+ */
+export function isKnownWord(word: string): boolean {
+  const lower = word.trim().toLowerCase();
+  if (KNOWN_WORDS.has(lower)) return true;
+
+  return INFLECTIONS.some(({ ending, replacements }) => {
+    if (!lower.endsWith(ending) || lower.length - ending.length < 2) return false;
+    const base = lower.slice(0, -ending.length);
+    // hopping -> hop
+    const undoubled = base.length > 2 && base[base.length - 1] === base[base.length - 2] ? base.slice(0, -1) : null;
+    return replacements.some(replacement =>
+      KNOWN_WORDS.has(base + replacement) || (undoubled !== null && KNOWN_WORDS.has(undoubled + replacement))
+    );
+  });
+}
+
+/**
+ * Get every word in the bundled list
+ */
+export function getKnownWords(): string[] {
+  return Array.from(KNOWN_WORDS);
+}
@@ -0,0 +1,116 @@
+import { v4 as uuidv4 } from 'uuid';
+import { generateDefinitionsForWords } from './geminiService';
+import { SpellingLocale } from './profiles';
+
+// A word set being put together in the editor or the Add Words review step,
+// before it is saved
+
+type Word = {
+  word: string;
+  definition: string;
+  rule: string;
+  difficulty: number;
+  phonetic?: string;
+  variants?: string[];
+  pattern?: string;
+  sentence?: string;
+}
+
+// Each row keeps a stable key so reordering doesn't confuse React's inputs
+export type DraftWord = Word & { key: string }
+
+/**
+ * Create an editable row, blank unless fields are given
+ */
+export function createDraftWord(fields: Partial<Word> = {}): DraftWord {
+  return {
+    key: uuidv4(),
+    word: '',
+    definition: '',
+    rule: '',
+    difficulty: 1,
+    phonetic: '',
+    variants: [],
+    pattern: '',
+    sentence: '',
+    ...fields
+  };
+}
+
+/**
+ * Turn editable rows back into words, trimming fields and dropping blank rows
+ */
+export function draftToWords(rows: DraftWord[]): Word[] {
+  return rows
+    .map(row => {
+      const variants = (row.variants || []).map(variant => variant.trim()).filter(Boolean);
+      return {
+        word: row.word.trim(),
+        definition: row.definition.trim(),
+        rule: row.rule.trim(),
+        difficulty: row.difficulty,
+        phonetic: row.phonetic?.trim() || '',
+        ...(variants.length > 0 ? { variants } : {}),
+        ...(row.pattern?.trim() ? { pattern: row.pattern.trim() } : {}),
+        ...(row.sentence?.trim() ? { sentence: row.sentence.trim() } : {})
+      };
+    })
+    .filter(word => word.word.length > 0);
+}
+
+/**
+ * Check a word set is ready to save
+ *
+ * @param title The set's title
+ * @param words The words, as returned by draftToWords
+ * @returns A message describing the first problem, or null if the set can be saved
+ */
+export function validateDraftWordSet(title: string, words: Word[]): string | null {
+  if (!title.trim()) {
+    return 'Please give the word set a title.';
+  }
+  if (words.length === 0) {
+    return 'Please add at least one word.';
+  }
+
+  const seen = new Set<string>();
+  for (const word of words) {
+    const lower = word.word.toLowerCase();
+    if (seen.has(lower)) {
+      return `"${word.word}" is in the set more than once.`;
+    }
+    seen.add(lower);
+  }
+
+  const undefinedWord = words.find(word => !word.definition);
+  if (undefinedWord) {
+    return `Please add a definition for "${undefinedWord.word}" - it's the clue shown during practice.`;
+  }
+
+  return null;
+}
+
+/**
+ * Ask Gemini for fresh fields for one row, keeping the word itself
+ *
+ * @param row The row to regenerate
+ * @param locale The spelling the set is written in
+ * @returns The changed fields, to merge into the row
+ */
+export async function regenerateDraftWord(
+  row: DraftWord,
+  locale: SpellingLocale = 'en-GB'
+): Promise<Partial<DraftWord>> {
+  const [generated] = await generateDefinitionsForWords([row.word.trim()], locale);
+  if (!generated) {
+    throw new Error(`No definition came back for "${row.word}"`);
+  }
+  return {
+    definition: generated.definition,
+    rule: generated.rule || row.rule,
+    difficulty: generated.difficulty || row.difficulty,
+    phonetic: generated.phonetic || row.phonetic,
+    variants: generated.variants || row.variants,
+    pattern: generated.pattern || row.pattern
+  };
+}
@@ -0,0 +1,353 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SpellingLocale } from './profiles';
+
+// Identifies Learn2Spell export files; bump the version when the shape changes
+export const EXPORT_FORMAT = 'learn2spell-word-sets';
+export const EXPORT_VERSION = 1;
+
+const CSV_COLUMNS = ['set', 'word', 'definition', 'rule', 'difficulty', 'phonetic', 'variants', 'pattern', 'sentence'];
+
+// Separates a word's alternative spellings within the CSV "variants" column
+const CSV_VARIANT_SEPARATOR = '|';
+
+const SPELLING_LOCALES: SpellingLocale[] = ['en-GB', 'en-US'];
+
+export type TransferWord = {
+  word: string;
+  definition: string;
+  rule: string;
+  difficulty: number;
+  phonetic?: string;
+  variants?: string[];
+  pattern?: string;
+  sentence?: string;
+}
+
+export type TransferWordSet = {
+  id: string;
+  title: string;
+  description: string;
+  words: TransferWord[];
+  spellingLocale?: SpellingLocale;
+}
+
+export type ExportFile = {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  wordSets: TransferWordSet[];
+}
+
+export type ImportResult = {
+  wordSets: TransferWordSet[];
+  errors: string[];  // Problems that stopped a set or word from being imported
+}
+
+// What to do when an imported set has the same id as an existing one
+export type CollisionStrategy = 'keep-both' | 'replace' | 'skip';
+
+/**
+ * Export word sets as a versioned JSON file
+ *
+ * @param wordSets The sets to export
+ * @returns The file contents
+ */
+export function exportWordSetsToJson(wordSets: TransferWordSet[]): string {
+  const file: ExportFile = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    wordSets
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Quote a CSV field if it contains a comma, quote or newline
+ */
+function escapeCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export word sets as CSV, one row per word
+ * The first column holds the set title so several sets fit in one file.
+ *
+ * @param wordSets The sets to export
+ * @returns The file contents
+ */
+export function exportWordSetsToCsv(wordSets: TransferWordSet[]): string {
+  const rows = wordSets.flatMap(set => set.words.map(word => [
+    set.title,
+    word.word,
+    word.definition,
+    word.rule,
+    String(word.difficulty),
+    word.phonetic || '',
+    (word.variants || []).join(CSV_VARIANT_SEPARATOR),
+    word.pattern || '',
+    word.sentence || ''
+  ]));
+  return [CSV_COLUMNS, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\n');
+}
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+}
+
+/**
+ * Check a single word from an import file
+ *
+ * @returns The cleaned-up word, or an error message
+ */
+function validateWord(raw: unknown, location: string): TransferWord | string {
+  if (typeof raw !== 'object' || raw === null) {
+    return `${location}: not a word entry`;
+  }
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.word !== 'string' || !entry.word.trim()) {
+    return `${location}: missing "word"`;
+  }
+  if (!/^[a-zA-Z' -]+$/.test(entry.word.trim())) {
+    return `${location}: "${entry.word}" contains characters that can't be typed on the keyboard`;
+  }
+  const difficulty = Number(entry.difficulty ?? 1);
+  if (!Number.isInteger(difficulty) || difficulty < 1 || difficulty > 3) {
+    return `${location}: difficulty must be 1, 2 or 3`;
+  }
+
+  // A list in JSON files, separated text in CSV files
+  const rawVariants = typeof entry.variants === 'string' ? entry.variants.split(CSV_VARIANT_SEPARATOR) : entry.variants;
+  const variants = Array.isArray(rawVariants)
+    ? rawVariants.filter((variant): variant is string => typeof variant === 'string' && /^[a-zA-Z' -]+$/.test(variant.trim()))
+      .map(variant => variant.trim())
+    : [];
+
+  return {
+    word: entry.word.trim(),
+    definition: typeof entry.definition === 'string' ? entry.definition.trim() : '',
+    rule: typeof entry.rule === 'string' ? entry.rule.trim() : '',
+    difficulty,
+    ...(typeof entry.phonetic === 'string' && entry.phonetic.trim() ? { phonetic: entry.phonetic.trim() } : {}),
+    ...(variants.length > 0 ? { variants } : {}),
+    ...(typeof entry.pattern === 'string' && entry.pattern.trim() ? { pattern: entry.pattern.trim() } : {}),
+    ...(typeof entry.sentence === 'string' && entry.sentence.trim() ? { sentence: entry.sentence.trim() } : {})
+  };
+}
+
+/**
+ * Check a word set from an import file, dropping any invalid words
+ */
+function validateWordSet(raw: unknown, index: number, errors: string[]): TransferWordSet | null {
+  const location = `Word set ${index + 1}`;
+  if (typeof raw !== 'object' || raw === null) {
+    errors.push(`${location}: not a word set`);
+    return null;
+  }
+  const entry = raw as Record<string, unknown>;
+  if (typeof entry.title !== 'string' || !entry.title.trim()) {
+    errors.push(`${location}: missing "title"`);
+    return null;
+  }
+  if (!Array.isArray(entry.words)) {
+    errors.push(`${location} (${entry.title}): missing "words" list`);
+    return null;
+  }
+
+  const words: TransferWord[] = [];
+  entry.words.forEach((rawWord, wordIndex) => {
+    const result = validateWord(rawWord, `${entry.title}, word ${wordIndex + 1}`);
+    if (typeof result === 'string') {
+      errors.push(result);
+    } else {
+      words.push(result);
+    }
+  });
+
+  if (words.length === 0) {
+    errors.push(`${location} (${entry.title}): no valid words`);
+    return null;
+  }
+
+  return {
+    id: typeof entry.id === 'string' && entry.id ? entry.id : uuidv4(),
+    title: entry.title.trim(),
+    description: typeof entry.description === 'string' ? entry.description : '',
+    words,
+    ...(SPELLING_LOCALES.includes(entry.spellingLocale as SpellingLocale)
+      ? { spellingLocale: entry.spellingLocale as SpellingLocale }
+      : {})
+  };
+}
+
+/**
+ * Parse an exported JSON file
+ */
+function parseJsonFile(text: string): ImportResult {
+  const errors: string[] = [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { wordSets: [], errors: ['The file is not valid JSON.'] };
+  }
+
+  const file = parsed as Partial<ExportFile>;
+  if (file.format !== EXPORT_FORMAT) {
+    return { wordSets: [], errors: ['This is not a Learn2Spell word set file.'] };
+  }
+  if (typeof file.version !== 'number' || file.version > EXPORT_VERSION) {
+    return { wordSets: [], errors: ['This file was made by a newer version of Learn2Spell.'] };
+  }
+  if (!Array.isArray(file.wordSets)) {
+    return { wordSets: [], errors: ['The file has no word sets.'] };
+  }
+
+  const wordSets = file.wordSets
+    .map((raw, index) => validateWordSet(raw, index, errors))
+    .filter((set): set is TransferWordSet => set !== null);
+
+  return { wordSets, errors };
+}
+
+/**
+ * Parse a CSV file, grouping rows into sets by the "set" column
+ * Files without a "set" column become a single set named after the file.
+ */
+function parseCsvFile(text: string, fileName: string): ImportResult {
+  const rows = parseCsv(text);
+  if (rows.length < 2) {
+    return { wordSets: [], errors: ['The CSV file has no word rows.'] };
+  }
+
+  const header = rows[0].map(column => column.trim().toLowerCase());
+  if (!header.includes('word')) {
+    return { wordSets: [], errors: ['The CSV file needs a "word" column.'] };
+  }
+
+  const defaultTitle = fileName.replace(/\.[^.]+$/, '') || 'Imported words';
+  const grouped = new Map<string, Record<string, string>[]>();
+  rows.slice(1).forEach(row => {
+    const record: Record<string, string> = {};
+    header.forEach((column, index) => {
+      record[column] = row[index] ?? '';
+    });
+    const title = record.set?.trim() || defaultTitle;
+    grouped.set(title, [...(grouped.get(title) || []), record]);
+  });
+
+  const errors: string[] = [];
+  const wordSets = Array.from(grouped.entries())
+    .map(([title, words], index) => validateWordSet({
+      title,
+      description: `Imported from ${fileName}`,
+      words: words.map(word => ({ ...word, difficulty: word.difficulty || 1 }))
+    }, index, errors))
+    .filter((set): set is TransferWordSet => set !== null);
+
+  return { wordSets, errors };
+}
+
+/**
+ * Parse and validate an import file
+ *
+ * @param text The file contents
+ * @param fileName The file name, used to pick the format and name CSV sets
+ * @returns The valid word sets plus any problems found
+ */
+export function parseWordSetFile(text: string, fileName: string): ImportResult {
+  const looksLikeJson = fileName.toLowerCase().endsWith('.json') || text.trimStart().startsWith('{');
+  return looksLikeJson ? parseJsonFile(text) : parseCsvFile(text, fileName);
+}
+
+/**
+ * Decide which imported sets to merge and give colliding sets new ids if needed
+ *
+ * @param incoming The sets from the import file
+ * @param existingIds The ids of sets the learner already has
+ * @param strategy What to do with sets whose id is already taken
+ * @returns The sets to merge into the learner's collection
+ */
+export function resolveIdCollisions(
+  incoming: TransferWordSet[],
+  existingIds: string[],
+  strategy: CollisionStrategy
+): TransferWordSet[] {
+  const taken = new Set(existingIds);
+  return incoming.flatMap(set => {
+    if (!taken.has(set.id)) {
+      taken.add(set.id);
+      return [set];
+    }
+    switch (strategy) {
+      case 'replace':
+        return [set];
+      case 'skip':
+        return [];
+      case 'keep-both': {
+        const copy = { ...set, id: uuidv4(), title: `${set.title} (imported)` };
+        taken.add(copy.id);
+        return [copy];
+      }
+    }
+  });
+}
+
+/**
+ * Save text as a file through the browser's download mechanism
+ *
+ * @param content The file contents
+ * @param fileName The suggested file name
+ * @param mimeType The file's MIME type
+ */
+export function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}